@@ -15,6 +15,8 @@ async function buildProject(): Promise<void> {
     entrypoints: [
       path.join(projectRoot, "src", "index.ts"),
       path.join(projectRoot, "src", "cli.ts"),
+      // Spawned by the post render pool; stays a separate file
+      path.join(projectRoot, "src", "generators", "render-worker.ts"),
     ],
     outdir: distDir,
     target: "bun",
@@ -1,7 +1,9 @@
 #!/usr/bin/env bun
 import { Command } from "commander";
 import packageJson from "../package.json";
+import { registerCheckLinksCommand } from "./cli/commands/check-links";
 import { registerCssCommand } from "./cli/commands/css";
+import { registerDeployCommand } from "./cli/commands/deploy";
 import { registerGenerateCommand } from "./cli/commands/generate";
 import { registerImagesPushCommand } from "./cli/commands/images-push";
 import { registerInitCommand } from "./cli/commands/init";
@@ -18,8 +20,10 @@ registerGenerateCommand(program);
 registerServeCommand(program);
 registerCssCommand(program);
 registerImagesPushCommand(program);
+registerDeployCommand(program);
 registerValidateCommand(program);
 registerValidateMediaCommand(program);
+registerCheckLinksCommand(program);
 
 program
   .name("bunki")
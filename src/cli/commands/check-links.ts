@@ -0,0 +1,57 @@
+import path from "node:path";
+import type { Command } from "commander";
+import { DEFAULT_OUTPUT_DIR, loadConfig } from "../../config";
+import { checkLinks, formatBrokenLinks } from "../../utils/link-checker";
+
+interface CheckLinksDeps {
+  loadConfig: typeof loadConfig;
+  checkLinks: typeof checkLinks;
+  logger: Pick<typeof console, "log" | "error">;
+  exit: (code: number) => void;
+}
+
+const defaultDeps: CheckLinksDeps = {
+  loadConfig,
+  checkLinks,
+  logger: console,
+  exit: (code) => process.exit(code),
+};
+
+export async function handleCheckLinksCommand(
+  options: {
+    config: string;
+    output: string;
+  },
+  deps: CheckLinksDeps = defaultDeps,
+): Promise<void> {
+  try {
+    const configPath = path.resolve(options.config);
+    const outputDir = path.resolve(options.output);
+    const config = await deps.loadConfig(configPath);
+
+    deps.logger.log(`Checking internal links in ${outputDir}...`);
+    const broken = await deps.checkLinks(outputDir, { baseUrl: config.baseUrl });
+
+    if (broken.length > 0) {
+      deps.logger.error(`Found ${broken.length} broken link(s):\n${formatBrokenLinks(broken)}`);
+      deps.exit(1);
+      return;
+    }
+
+    deps.logger.log("No broken links found.");
+  } catch (error) {
+    deps.logger.error("Error checking links:", error);
+    deps.exit(1);
+  }
+}
+
+export function registerCheckLinksCommand(program: Command): Command {
+  return program
+    .command("check-links")
+    .description("Report internal links in the generated site that point to missing files")
+    .option("-c, --config <file>", "Config file path", "bunki.config.ts")
+    .option("-o, --output <dir>", "Output directory to check", DEFAULT_OUTPUT_DIR)
+    .action(async (options) => {
+      await handleCheckLinksCommand(options);
+    });
+}
@@ -0,0 +1,77 @@
+import path from "node:path";
+import type { Command } from "commander";
+import { DEFAULT_OUTPUT_DIR, loadConfig } from "../../config";
+import type { S3Config } from "../../types";
+import { createUploader } from "../../utils/s3-uploader";
+
+interface DeployDeps {
+  loadConfig: typeof loadConfig;
+  createUploader: typeof createUploader;
+  logger: Pick<typeof console, "log" | "error">;
+  exit: (code: number) => void;
+}
+
+const defaultDeps: DeployDeps = {
+  loadConfig,
+  createUploader,
+  logger: console,
+  exit: (code) => process.exit(code),
+};
+
+export async function handleDeployCommand(
+  options: {
+    config: string;
+    output: string;
+    delete?: boolean;
+    dryRun?: boolean;
+  },
+  deps: DeployDeps = defaultDeps,
+): Promise<void> {
+  try {
+    const configPath = path.resolve(options.config);
+    const outputDir = path.resolve(options.output);
+    const config = await deps.loadConfig(configPath);
+
+    // deploy.s3 lets the site live in a different bucket from uploaded images
+    const s3 = config.deploy?.s3 ?? config.s3;
+    if (!s3) {
+      throw new Error("Missing S3 configuration. Set deploy.s3 or s3 in bunki.config.ts.");
+    }
+    const s3Config: S3Config = { ...s3, publicUrl: s3.publicUrl || config.publicUrl || "" };
+
+    deps.logger.log("Deploying site with:");
+    deps.logger.log(`- Config file: ${configPath}`);
+    deps.logger.log(`- Output directory: ${outputDir}`);
+    deps.logger.log(`- Bucket: ${s3Config.bucket}`);
+    if (options.delete) {
+      deps.logger.log(`- Deleting remote objects missing locally`);
+    }
+    if (options.dryRun) {
+      deps.logger.log(`- Dry run: nothing will be uploaded or deleted`);
+    }
+
+    const uploader = deps.createUploader(s3Config);
+    await uploader.upload(outputDir, config, {
+      delete: options.delete,
+      dryRun: options.dryRun,
+    });
+
+    deps.logger.log("Deploy completed successfully!");
+  } catch (error) {
+    deps.logger.error("Error deploying site:", error);
+    deps.exit(1);
+  }
+}
+
+export function registerDeployCommand(program: Command): Command {
+  return program
+    .command("deploy")
+    .description("Sync the generated site to S3-compatible storage")
+    .option("-c, --config <file>", "Config file path", "bunki.config.ts")
+    .option("-o, --output <dir>", "Output directory to deploy", DEFAULT_OUTPUT_DIR)
+    .option("--delete", "Delete remote objects that no longer exist locally")
+    .option("--dry-run", "Show what would change without uploading or deleting")
+    .action(async (options) => {
+      await handleDeployCommand(options);
+    });
+}
@@ -7,10 +7,12 @@ import {
   loadConfig,
 } from "../../config";
 import { SiteGenerator } from "../../site-generator";
+import { checkLinks, formatBrokenLinks } from "../../utils/link-checker";
 
 interface GenerateDeps {
   loadConfig: typeof loadConfig;
   createGenerator: (opts: ConstructorParameters<typeof SiteGenerator>[0]) => SiteGenerator;
+  checkLinks: typeof checkLinks;
   logger: Pick<typeof console, "log" | "error">;
   exit: (code: number) => void;
 }
@@ -18,6 +20,7 @@ interface GenerateDeps {
 const defaultDeps: GenerateDeps = {
   loadConfig,
   createGenerator: (opts) => new SiteGenerator(opts),
+  checkLinks,
   logger: console,
   exit: (code) => process.exit(code),
 };
@@ -29,6 +32,13 @@ export async function handleGenerateCommand(
     output: string;
     templates: string;
     incremental?: boolean;
+    drafts?: boolean;
+    future?: boolean;
+    checkLinks?: boolean;
+    clean?: boolean;
+    cleanDryRun?: boolean;
+    concurrency?: string;
+    report?: string;
   },
   deps: GenerateDeps = defaultDeps,
 ): Promise<void> {
@@ -37,6 +47,15 @@ export async function handleGenerateCommand(
     const contentDir = path.resolve(options.content);
     const outputDir = path.resolve(options.output);
     const templatesDir = path.resolve(options.templates);
+    const reportPath = options.report ? path.resolve(options.report) : undefined;
+    const concurrency = Number(options.concurrency ?? 1);
+    if (!Number.isInteger(concurrency) || concurrency < 1) {
+      deps.logger.error(
+        `Invalid --concurrency "${options.concurrency}": expected a positive whole number`,
+      );
+      deps.exit(1);
+      return;
+    }
 
     const config = await deps.loadConfig(configPath);
     // config.templatesDir (set in bunki.config.ts) takes precedence over the CLI default
@@ -52,12 +71,34 @@ export async function handleGenerateCommand(
     if (options.incremental) {
       deps.logger.log(`- Incremental mode: enabled`);
     }
+    if (options.drafts) {
+      deps.logger.log(`- Including drafts`);
+    }
+    if (options.future) {
+      deps.logger.log(`- Including future-dated posts`);
+    }
+    if (options.clean === false) {
+      deps.logger.log(`- Stale output cleanup: disabled`);
+    }
+    if (concurrency > 1) {
+      deps.logger.log(`- Rendering post pages with ${concurrency} workers`);
+    }
+    if (reportPath) {
+      deps.logger.log(`- Build report: ${reportPath}`);
+    }
     const generator = deps.createGenerator({
       rootDir: process.cwd(),
+      configPath,
       contentDir,
       outputDir,
       templatesDir: resolvedTemplatesDir,
       config,
+      includeDrafts: options.drafts,
+      includeFuture: options.future,
+      clean: options.clean,
+      cleanDryRun: options.cleanDryRun,
+      concurrency,
+      reportPath,
     });
 
     if (options.incremental) {
@@ -68,6 +109,16 @@ export async function handleGenerateCommand(
     await generator.generate();
 
     deps.logger.log("Site generation completed successfully!");
+
+    if (options.checkLinks) {
+      const broken = await deps.checkLinks(outputDir, { baseUrl: config.baseUrl });
+      if (broken.length > 0) {
+        deps.logger.error(`Found ${broken.length} broken link(s):\n${formatBrokenLinks(broken)}`);
+        deps.exit(1);
+        return;
+      }
+      deps.logger.log("No broken links found.");
+    }
   } catch (error) {
     deps.logger.error("Error generating site:", error);
     deps.exit(1);
@@ -83,6 +134,20 @@ export function registerGenerateCommand(program: Command): Command {
     .option("-o, --output <dir>", "Output directory", DEFAULT_OUTPUT_DIR)
     .option("-t, --templates <dir>", "Templates directory", DEFAULT_TEMPLATES_DIR)
     .option("-i, --incremental", "Enable incremental builds (only rebuild changed files)")
+    .option("--drafts", "Include posts marked draft: true")
+    .option("--future", "Include posts dated in the future")
+    .option("--check-links", "Check internal links after generating and fail if any are broken")
+    .option(
+      "--no-clean",
+      "Keep output files the previous build produced that are no longer generated",
+    )
+    .option("--clean-dry-run", "List stale output files instead of deleting them")
+    .option(
+      "-j, --concurrency <n>",
+      "Render post pages in n worker threads (1 renders on the main thread)",
+      "1",
+    )
+    .option("--report <file>", "Write a JSON build report (metrics, files, parse errors, budgets)")
     .action(async (options) => {
       await handleGenerateCommand(options);
     });
@@ -107,7 +107,15 @@ function getDefaultTemplates(): Record<string, string> {
   {% block twitter_image %}{% endblock %}
 
   <link rel="stylesheet" href="/css/style.css">
+  {% if site.feeds.rss !== false %}
   <link rel="alternate" type="application/rss+xml" title="{{ site.title }} RSS Feed" href="{{ site.baseUrl }}/feed.xml">
+  {% endif %}
+  {% if site.feeds.atom %}
+  <link rel="alternate" type="application/atom+xml" title="{{ site.title }} Atom Feed" href="{{ site.baseUrl }}/atom.xml">
+  {% endif %}
+  {% if site.feeds.json %}
+  <link rel="alternate" type="application/feed+json" title="{{ site.title }} JSON Feed" href="{{ site.baseUrl }}/feed.json">
+  {% endif %}
   {% block head %}{% endblock %}
 </head>
 <body>
@@ -208,6 +216,8 @@ function getDefaultTemplates(): Record<string, string> {
     <header class="post-header">
       <h1>{{ post.title }}</h1>
       <div class="post-meta">
+        {% if post.draft %}<span class="badge draft">Draft</span>{% endif %}
+        {% if post.future %}<span class="badge scheduled">Scheduled</span>{% endif %}
         <time datetime="{{ post.date }}">{{ post.date | date("MMMM D, YYYY") }}</time>
         {% if post.tags.length > 0 %}
           <span class="tags">
@@ -219,6 +229,14 @@ function getDefaultTemplates(): Record<string, string> {
       </div>
     </header>
 
+    {% if post.series %}
+      <nav class="series-nav" aria-label="Series">
+        <p>Part {{ post.series.part }} of {{ post.series.total }} in <a href="/series/{{ post.series.slug }}/">{{ post.series.name }}</a></p>
+        {% if post.series.prev %}<a href="{{ post.series.prev.url }}" class="prev">← {{ post.series.prev.title }}</a>{% endif %}
+        {% if post.series.next %}<a href="{{ post.series.next.url }}" class="next">{{ post.series.next.title }} →</a>{% endif %}
+      </nav>
+    {% endif %}
+
     <div class="post-content">
       {{ post.html | safe }}
     </div>
@@ -240,6 +258,17 @@ function getDefaultTemplates(): Record<string, string> {
         </a>
       </div>
     </footer>
+
+    {% if post.relatedPosts.length > 0 %}
+      <aside class="related-posts">
+        <h2>Related posts</h2>
+        <ul>
+          {% for related in post.relatedPosts %}
+            <li><a href="{{ related.url }}">{{ related.title }}</a></li>
+          {% endfor %}
+        </ul>
+      </aside>
+    {% endif %}
   </article>
 {% endblock %}`,
     "tag.njk": `{% extends "base.njk" %}
@@ -256,6 +285,12 @@ function getDefaultTemplates(): Record<string, string> {
 {% block twitter_title %}{{ tag.name }} | {{ site.title }}{% endblock %}
 {% block twitter_description %}Posts tagged with {{ tag.name }} on {{ site.title }}{% endblock %}
 
+{% block head %}
+{% if feedUrl %}
+  <link rel="alternate" type="application/rss+xml" title="{{ tag.name }} | {{ site.title }}" href="{{ feedUrl }}">
+{% endif %}
+{% endblock %}
+
 {% block content %}
   <h1>Posts tagged "{{ tag.name }}"</h1>
 
@@ -339,6 +374,12 @@ function getDefaultTemplates(): Record<string, string> {
 {% block twitter_title %}Archive {{ year }} | {{ site.title }}{% endblock %}
 {% block twitter_description %}Posts from {{ year }} on {{ site.title }}{% endblock %}
 
+{% block head %}
+{% if feedUrl %}
+  <link rel="alternate" type="application/rss+xml" title="Posts from {{ year }} | {{ site.title }}" href="{{ feedUrl }}">
+{% endif %}
+{% endblock %}
+
 {% block content %}
   <h1>Posts from {{ year }}</h1>
 
@@ -377,6 +418,60 @@ function getDefaultTemplates(): Record<string, string> {
   {% else %}
     <p>No posts from {{ year }} yet.</p>
   {% endif %}
+{% endblock %}`,
+    "series.njk": `{% extends "base.njk" %}
+
+{% block title %}{{ series.name }} | {{ site.title }}{% endblock %}
+{% block description %}All {{ series.posts.length }} parts of {{ series.name }} on {{ site.title }}{% endblock %}
+
+{% block canonical %}{{ site.baseUrl }}/series/{{ series.slug }}/{% endblock %}
+
+{% block og_title %}{{ series.name }} | {{ site.title }}{% endblock %}
+{% block og_description %}All {{ series.posts.length }} parts of {{ series.name }} on {{ site.title }}{% endblock %}
+{% block og_url %}{{ site.baseUrl }}/series/{{ series.slug }}/{% endblock %}
+
+{% block twitter_title %}{{ series.name }} | {{ site.title }}{% endblock %}
+{% block twitter_description %}All {{ series.posts.length }} parts of {{ series.name }} on {{ site.title }}{% endblock %}
+
+{% block head %}
+  {{ jsonLd | safe }}
+{% endblock %}
+
+{% block content %}
+  <h1>{{ series.name }}</h1>
+
+  <ol class="series-parts">
+    {% for post in series.posts %}
+      <li>
+        <a href="{{ post.url }}">{{ post.title }}</a>
+        <time datetime="{{ post.date }}">{{ post.date | date("MMMM D, YYYY") }}</time>
+      </li>
+    {% endfor %}
+  </ol>
+{% endblock %}`,
+    "page.njk": `{% extends "base.njk" %}
+
+{% block title %}{{ page.seoTitle or page.title }} | {{ site.title }}{% endblock %}
+{% block description %}{{ page.excerpt }}{% endblock %}
+
+{% block canonical %}{{ site.baseUrl }}{{ page.url }}{% endblock %}
+
+{% block og_title %}{{ page.title }}{% endblock %}
+{% block og_description %}{{ page.excerpt }}{% endblock %}
+{% block og_url %}{{ site.baseUrl }}{{ page.url }}{% endblock %}
+
+{% block twitter_title %}{{ page.title }}{% endblock %}
+{% block twitter_description %}{{ page.excerpt }}{% endblock %}
+
+{% block head %}
+  {{ jsonLd | safe }}
+{% endblock %}
+
+{% block content %}
+  <article class="page">
+    <h1>{{ page.title }}</h1>
+    {{ page.html | safe }}
+  </article>
 {% endblock %}`,
   };
 }
@@ -474,6 +569,18 @@ function getDefaultCss(): string {
     margin-bottom: 1rem;
   }
 
+  .badge {
+    display: inline-block;
+    padding: 0.1rem 0.5rem;
+    margin-right: 0.5rem;
+    border-radius: 0.25rem;
+    font-size: 0.75rem;
+    font-weight: 600;
+    text-transform: uppercase;
+    background-color: #fff3cd;
+    color: #856404;
+  }
+
   .post-excerpt {
     margin-bottom: 1rem;
   }
@@ -610,6 +717,34 @@ function getDefaultCss(): string {
   .share-button.linkedin:hover { background-color: #0077b5; color: #fff; }
   .share-button.email:hover { background-color: #6c757d; color: #fff; }
 
+  /* Series navigation */
+  .series-nav {
+    display: flex;
+    flex-wrap: wrap;
+    justify-content: space-between;
+    gap: 0.5rem;
+    margin-bottom: 1.5rem;
+    padding: 0.75rem 1rem;
+    border-radius: 4px;
+    background-color: #f8f9fa;
+  }
+
+  .series-nav p {
+    flex-basis: 100%;
+    margin: 0;
+    color: #6c757d;
+  }
+
+  /* Related posts */
+  .related-posts {
+    margin-top: 2rem;
+  }
+
+  .related-posts h2 {
+    font-size: 1.1rem;
+    margin-bottom: 0.5rem;
+  }
+
   /* Footer */
   footer {
     text-align: center;
@@ -1,27 +1,133 @@
 import path from "node:path";
 import type { Command } from "commander";
-import { DEFAULT_OUTPUT_DIR } from "../../config";
-import { startServer } from "../../server";
+import {
+  DEFAULT_CONTENT_DIR,
+  DEFAULT_OUTPUT_DIR,
+  DEFAULT_TEMPLATES_DIR,
+  loadConfig,
+} from "../../config";
+import { FILES } from "../../constants";
+import { notifyLiveReload, startServer } from "../../server";
+import { SiteGenerator } from "../../site-generator";
+import { watchPaths } from "../../utils/site-watcher";
 
 interface ServeDeps {
   startServer: typeof startServer;
-  logger: Pick<typeof console, "error">;
+  loadConfig: typeof loadConfig;
+  createGenerator: (opts: ConstructorParameters<typeof SiteGenerator>[0]) => SiteGenerator;
+  watchPaths: typeof watchPaths;
+  notifyLiveReload: typeof notifyLiveReload;
+  logger: Pick<typeof console, "log" | "error">;
   exit: (code: number) => void;
 }
 
 const defaultDeps: ServeDeps = {
   startServer,
+  loadConfig,
+  createGenerator: (opts) => new SiteGenerator(opts),
+  watchPaths,
+  notifyLiveReload,
   logger: console,
   exit: (code) => process.exit(code),
 };
 
+interface ServeOptions {
+  output: string;
+  port: string;
+  watch?: boolean;
+  config?: string;
+  content?: string;
+  templates?: string;
+  drafts?: boolean;
+  future?: boolean;
+}
+
+/**
+ * Build the site, serve it with live reload, and rebuild whenever content,
+ * templates, public files or the config file change.
+ */
+async function serveWithWatch(
+  options: ServeOptions,
+  outputDir: string,
+  port: number,
+  deps: ServeDeps,
+): Promise<void> {
+  const rootDir = process.cwd();
+  const configPath = path.resolve(options.config ?? "bunki.config.ts");
+  const contentDir = path.resolve(options.content ?? DEFAULT_CONTENT_DIR);
+  const cliTemplatesDir = path.resolve(options.templates ?? DEFAULT_TEMPLATES_DIR);
+  let templatesDir = cliTemplatesDir;
+  let pagesDir = path.resolve(rootDir, FILES.PAGES_DIR);
+
+  const createGenerator = async (fresh: boolean): Promise<SiteGenerator> => {
+    const config = await deps.loadConfig(configPath, rootDir, { fresh });
+    // config.templatesDir (set in bunki.config.ts) takes precedence over the CLI default
+    templatesDir = config.templatesDir ? path.resolve(config.templatesDir) : cliTemplatesDir;
+    pagesDir = path.resolve(rootDir, config.pagesDir ?? FILES.PAGES_DIR);
+
+    const generator = deps.createGenerator({
+      rootDir,
+      configPath,
+      contentDir,
+      outputDir,
+      templatesDir,
+      pagesDir,
+      config,
+      watch: true,
+      includeDrafts: options.drafts,
+      includeFuture: options.future,
+    });
+    generator.enableIncrementalMode();
+    return generator;
+  };
+
+  let generator = await createGenerator(false);
+  await generator.initialize();
+  await generator.generate();
+
+  const server = await deps.startServer(outputDir, port, { liveReload: true });
+
+  let stopWatching: () => Promise<void> = async () => {};
+  const watch = async (): Promise<void> => {
+    const watched = [contentDir, pagesDir, templatesDir, path.join(rootDir, "public"), configPath];
+    stopWatching = await deps.watchPaths({ paths: watched, onChange });
+    deps.logger.log(`👀 Watching ${watched.map((p) => path.relative(rootDir, p)).join(", ")}`);
+  };
+
+  const onChange = async (changedPaths: string[]): Promise<void> => {
+    const names = changedPaths.map((p) => path.relative(rootDir, p)).join(", ");
+    deps.logger.log(`\n🔄 Change detected: ${names}`);
+
+    // A new generator picks up the edited config; otherwise reuse the current one
+    if (changedPaths.includes(configPath)) {
+      generator = await createGenerator(true);
+      // The config may move templatesDir or pagesDir, so replace the watcher
+      // rather than leaving the old one (and its file handles) open
+      await stopWatching();
+      await watch();
+    }
+
+    await generator.initialize();
+    await generator.generate();
+    deps.notifyLiveReload(server);
+  };
+
+  await watch();
+}
+
 export async function handleServeCommand(
-  options: { output: string; port: string },
+  options: ServeOptions,
   deps: ServeDeps = defaultDeps,
 ): Promise<void> {
   try {
     const outputDir = path.resolve(options.output);
     const port = parseInt(options.port, 10);
+
+    if (options.watch) {
+      await serveWithWatch(options, outputDir, port, deps);
+      return;
+    }
+
     await deps.startServer(outputDir, port);
   } catch (error) {
     deps.logger.error("Error starting dev server:", error);
@@ -35,6 +141,12 @@ export function registerServeCommand(program: Command): Command {
     .description("Start a local development server")
     .option("-o, --output <dir>", "Output directory", DEFAULT_OUTPUT_DIR)
     .option("-p, --port <number>", "Port number", "3000")
+    .option("-w, --watch", "Rebuild on changes and live reload open browsers")
+    .option("-c, --config <file>", "Config file path (watch mode)", "bunki.config.ts")
+    .option("-d, --content <dir>", "Content directory (watch mode)", DEFAULT_CONTENT_DIR)
+    .option("-t, --templates <dir>", "Templates directory (watch mode)", DEFAULT_TEMPLATES_DIR)
+    .option("--drafts", "Include posts marked draft: true (watch mode)")
+    .option("--future", "Include posts dated in the future (watch mode)")
     .action(async (options) => {
       await handleServeCommand(options);
     });
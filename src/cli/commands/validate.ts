@@ -27,7 +27,7 @@ export function registerValidateCommand(program: Command) {
       console.log(`🔍 Validating markdown files in "${contentDir}"...\n`);
 
       try {
-        await parseMarkdownDirectory(contentDir, true);
+        await parseMarkdownDirectory(contentDir, true, undefined, {}, config.timezone);
         console.log("✅ All markdown files are valid!");
       } catch (error) {
         console.error(`\n❌ Validation failed: ${getErrorMessage(error)}\n`);
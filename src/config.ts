@@ -75,6 +75,7 @@ export async function configExists(
 export async function loadConfig(
   configPath: string = createProjectPaths().configFile,
   projectRoot: string = process.cwd(),
+  options: { fresh?: boolean } = {},
 ): Promise<SiteConfig> {
   const root = path.resolve(projectRoot);
   const resolved = path.isAbsolute(configPath)
@@ -90,7 +91,9 @@ export async function loadConfig(
   }
 
   try {
-    const imported: ConfigModule = await import(resolved);
+    // Bun caches imported modules; a query string forces a re-read after edits (watch mode).
+    const specifier = options.fresh ? `${resolved}?t=${Date.now()}` : resolved;
+    const imported: ConfigModule = await import(specifier);
     let cfg = imported.default;
     if (typeof cfg === "function") {
       cfg = await cfg();
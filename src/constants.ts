@@ -11,7 +11,7 @@ export const PAGINATION = {
   DEFAULT_PAGE_SIZE: 10,
   /** Batch size for parallel post processing */
   BATCH_SIZE: 10,
-  /** Maximum number of posts to include in RSS feed */
+  /** Maximum number of posts to include in RSS, Atom and JSON feeds */
   RSS_FEED_LIMIT: 40,
 } as const;
 
@@ -25,6 +25,10 @@ export const FILES = {
   MAX_SITEMAP_SIZE: 40000,
   /** Maximum number of URLs in a sitemap before requiring an index */
   MAX_SITEMAP_URLS: 1000,
+  /** Default standalone pages directory, relative to the project root */
+  PAGES_DIR: "pages",
+  /** Manifest of the files the last build produced, relative to the project root */
+  OUTPUT_MANIFEST: ".bunki-output.json",
 } as const;
 
 /**
@@ -37,6 +41,22 @@ export const SEO = {
   THIN_TAG_MAX_POSTS: 2,
 } as const;
 
+/**
+ * Related posts scoring constants
+ */
+export const RELATED_POSTS = {
+  /** Number of related posts attached to each post when not configured */
+  DEFAULT_COUNT: 3,
+  /** Score added for each tag two posts share */
+  TAG_WEIGHT: 2,
+  /** Score added when two posts have the same category */
+  CATEGORY_WEIGHT: 1.5,
+  /** Maximum score for two businesses at the same spot, decaying linearly to 0 at the radius */
+  PROXIMITY_WEIGHT: 3,
+  /** Businesses farther apart than this (in km) contribute no proximity score */
+  PROXIMITY_RADIUS_KM: 5,
+} as const;
+
 /**
  * Cache and time-based constants
  */
@@ -45,10 +65,88 @@ export const CACHE = {
   ONE_MONTH_MS: 30 * 24 * 60 * 60 * 1000,
 } as const;
 
+/**
+ * Permalink pattern constants
+ */
+export const PERMALINK = {
+  /** Default post URL pattern */
+  DEFAULT_PATTERN: "/{year}/{slug}/",
+  /** Value of {category} for posts without a category */
+  DEFAULT_CATEGORY: "uncategorized",
+  /** Tokens allowed in permalink patterns */
+  TOKENS: ["year", "month", "day", "slug", "category"],
+} as const;
+
+/**
+ * Responsive image pipeline defaults
+ */
+export const IMAGES = {
+  /** Variant widths generated for each content image */
+  DEFAULT_WIDTHS: [480, 960, 1440],
+  /** Modern formats generated alongside the original, in <source> preference order */
+  DEFAULT_FORMATS: ["avif", "webp"],
+  /** Encoder quality (1-100) */
+  DEFAULT_QUALITY: 75,
+  /** sizes attribute emitted with each srcset */
+  DEFAULT_SIZES: "(max-width: 768px) 100vw, 768px",
+  /** Source extensions the pipeline can decode */
+  EXTENSIONS: [".jpg", ".jpeg", ".png", ".webp"],
+} as const;
+
+/**
+ * Syntax highlighting constants
+ */
+export const HIGHLIGHT = {
+  /** highlight.js languages highlighted when config.highlight.languages is not set */
+  DEFAULT_LANGUAGES: [
+    "javascript",
+    "typescript",
+    "markdown",
+    "xml",
+    "diff",
+    "python",
+    "json",
+    "swift",
+  ],
+} as const;
+
+/**
+ * Markdown shortcode constants
+ */
+export const SHORTCODES = {
+  /** Directory inside templates/ holding site shortcode templates */
+  TEMPLATES_DIR: "shortcodes",
+  /** Hosts shortcode output may embed in an iframe */
+  IFRAME_HOSTS: [
+    "www.youtube-nocookie.com",
+    "www.youtube.com",
+    "maps.google.com",
+    "www.google.com",
+  ],
+  /** Extensions the gallery shortcode lists */
+  GALLERY_EXTENSIONS: [".jpg", ".jpeg", ".png", ".webp", ".gif", ".avif"],
+} as const;
+
+/**
+ * Deploy constants
+ */
+export const DEPLOY = {
+  /** Local manifest of deployed content hashes, relative to the project root */
+  MANIFEST_FILE: ".bunki-deploy.json",
+  /** Cache-Control for objects that match no configured glob */
+  DEFAULT_CACHE_CONTROL: "public, max-age=0, must-revalidate",
+  /** Concurrent object uploads and deletes */
+  CONCURRENCY: 10,
+  /** Lifetime of presigned upload URLs in seconds */
+  PRESIGN_EXPIRES_SECONDS: 900,
+} as const;
+
 /**
  * Date formatting constants
  */
 export const DATE = {
+  /** Site timezone used when config.timezone is not set */
+  DEFAULT_TIMEZONE: "America/Los_Angeles",
   /** Month names for date formatting */
   MONTHS: [
     "January",
@@ -67,55 +67,90 @@ async function fallbackCSSGeneration(cssConfig: CSSConfig, outputDir: string): P
 }
 
 /**
- * Copy static assets from templates/assets and public/ directories
+ * A static file and where it is copied to
+ */
+interface StaticAsset {
+  /** Absolute source path */
+  source: string;
+  /** Target path, relative to the output directory */
+  target: string;
+}
+
+/**
+ * Find the files in templates/assets (copied to assets/) and public/ (copied to the site root)
  * @param templatesDir - Templates directory
- * @param outputDir - Output directory
+ * @param rootDir - Project root containing public/
  */
-export async function copyStaticAssets(templatesDir: string, outputDir: string): Promise<void> {
+async function findStaticAssets(templatesDir: string, rootDir: string): Promise<StaticAsset[]> {
   const assetsDir = path.join(templatesDir, "assets");
-  const publicDir = path.join(process.cwd(), "public");
+  const publicDir = path.join(rootDir, "public");
+  const assets: StaticAsset[] = [];
 
-  // Copy template assets
   if (await isDirectory(assetsDir)) {
-    const assetGlob = new Glob("**/*.*");
-    const assetsOutputDir = path.join(outputDir, "assets");
-
-    await ensureDir(assetsOutputDir);
-
-    for await (const file of assetGlob.scan({
-      cwd: assetsDir,
-      absolute: true,
-    })) {
-      const relativePath = path.relative(assetsDir, file);
-      const targetPath = path.join(assetsOutputDir, relativePath);
-
-      const targetDir = path.dirname(targetPath);
-      await ensureDir(targetDir);
-
-      await copyFile(file, targetPath);
+    for await (const file of new Glob("**/*.*").scan({ cwd: assetsDir, absolute: true })) {
+      assets.push({ source: file, target: path.join("assets", path.relative(assetsDir, file)) });
     }
   }
 
-  // Copy public directory (including dotfiles and extensionless files)
+  // Including dotfiles and extensionless files
   if (await isDirectory(publicDir)) {
-    const publicGlob = new Glob("**/*");
-
-    for await (const file of publicGlob.scan({
-      cwd: publicDir,
-      absolute: true,
-      dot: true, // Include dotfiles
-    })) {
+    for await (const file of new Glob("**/*").scan({ cwd: publicDir, absolute: true, dot: true })) {
       // Skip if path is a directory (Glob returns both files and dirs)
       if (await isDirectory(file)) continue;
+      assets.push({ source: file, target: path.relative(publicDir, file) });
+    }
+  }
 
-      const relativePath = path.relative(publicDir, file);
-      const destPath = path.join(outputDir, relativePath);
+  return assets;
+}
 
-      const targetDir = path.dirname(destPath);
-      await ensureDir(targetDir);
-      await copyFile(file, destPath);
+/**
+ * List static asset source files, for change detection
+ * @param templatesDir - Templates directory
+ * @param rootDir - Project root containing public/
+ * @returns Absolute source paths
+ */
+export async function listStaticAssets(
+  templatesDir: string,
+  rootDir: string = process.cwd(),
+): Promise<string[]> {
+  return (await findStaticAssets(templatesDir, rootDir)).map((asset) => asset.source);
+}
+
+/**
+ * Copy static assets from templates/assets and public/ directories
+ * @param templatesDir - Templates directory
+ * @param outputDir - Output directory
+ * @param options - Project root containing public/, and the changed sources to copy
+ *   (when set, unchanged files that are already in the output are left alone)
+ * @returns Files the assets occupy, relative to the output directory (copied or not)
+ */
+export async function copyStaticAssets(
+  templatesDir: string,
+  outputDir: string,
+  options: { rootDir?: string; changed?: ReadonlySet<string> } = {},
+): Promise<string[]> {
+  const assets = await findStaticAssets(templatesDir, options.rootDir ?? process.cwd());
+  let copiedCount = 0;
+
+  for (const asset of assets) {
+    const targetPath = path.join(outputDir, asset.target);
+    if (
+      options.changed &&
+      !options.changed.has(asset.source) &&
+      (await Bun.file(targetPath).exists())
+    ) {
+      continue;
     }
 
-    console.log("Copied public files to site (including extensionless & dotfiles)");
+    await ensureDir(path.dirname(targetPath));
+    await copyFile(asset.source, targetPath);
+    copiedCount++;
   }
+
+  if (assets.length > 0) {
+    console.log(`Copied ${copiedCount}/${assets.length} static files to site`);
+  }
+
+  return assets.map((asset) => asset.target);
 }
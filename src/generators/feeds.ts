@@ -1,11 +1,18 @@
 /**
- * RSS feed and sitemap generation
+ * RSS, Atom and JSON feed, sitemap and search index generation
  */
 
 import { CACHE, PAGINATION, SEO } from "../constants";
-import type { Site, SiteConfig } from "../types";
-import { toPacificTime } from "../utils/date-utils";
-import { buildRSSItem, buildSitemapUrl, calculateFreshnessPriority } from "../utils/xml-builder";
+import type { FeedsConfig, Post, Site, SiteConfig, TagData } from "../types";
+import { toSiteTime } from "../utils/date-utils";
+import { buildSearchIndex } from "../utils/search-index";
+import {
+  buildAtomEntry,
+  buildRSSItem,
+  buildSitemapUrl,
+  calculateFreshnessPriority,
+  escapeXml,
+} from "../utils/xml-builder";
 
 /**
  * Make image URL absolute if it's relative
@@ -17,13 +24,87 @@ function makeAbsoluteUrl(imageUrl: string, baseUrl: string): string {
   return imageUrl.startsWith("http") ? imageUrl : `${baseUrl}${imageUrl}`;
 }
 
+/**
+ * Resolve which feed formats are enabled
+ * @param config - Site configuration
+ * @returns Feed switches with defaults applied (RSS and tag feeds on, others off)
+ */
+export function getEnabledFeeds(config: SiteConfig): Required<FeedsConfig> {
+  return {
+    rss: config.feeds?.rss ?? true,
+    atom: config.feeds?.atom ?? false,
+    json: config.feeds?.json ?? false,
+    tags: config.feeds?.tags ?? true,
+    years: config.feeds?.years ?? false,
+  };
+}
+
+/**
+ * Site-relative path of a tag's RSS feed
+ * @param slug - Tag slug
+ * @returns Feed path (e.g., /tags/travel/feed.xml)
+ */
+export function getTagFeedPath(slug: string): string {
+  return `/tags/${slug}/feed.xml`;
+}
+
+/**
+ * Site-relative path of a year archive's RSS feed
+ * @param year - Archive year
+ * @returns Feed path (e.g., /2025/feed.xml)
+ */
+export function getYearFeedPath(year: string): string {
+  return `/${year}/feed.xml`;
+}
+
+/**
+ * Select the posts included in every feed format
+ * @param posts - Posts sorted newest first
+ * @returns Most recent posts, capped at the feed limit
+ */
+function getFeedPosts(posts: Post[]): Post[] {
+  return posts.slice(0, PAGINATION.RSS_FEED_LIMIT);
+}
+
+/**
+ * Get a post's featured image as an absolute URL
+ * @param post - Post data
+ * @param baseUrl - Base URL to prepend
+ * @returns Absolute image URL, or null if the post has no image
+ */
+function getFeedImage(post: Post, baseUrl: string): string | null {
+  return post.image ? makeAbsoluteUrl(post.image, baseUrl) : null;
+}
+
+/**
+ * Get the feed author name, falling back to the site author
+ * @param config - Site configuration
+ * @returns Author name, or undefined if none is configured
+ */
+function getFeedAuthorName(config: SiteConfig): string | undefined {
+  return config.authorName || config.author || config.site?.author || undefined;
+}
+
 /**
  * Format date for RSS (RFC 822)
  * @param date - Date string or Date object
+ * @param timeZone - Site timezone
  * @returns RFC 822 formatted date string
  */
-function formatRSSDate(date: string | Date): string {
-  return toPacificTime(date).toUTCString();
+function formatRSSDate(date: string | Date, timeZone?: string): string {
+  return toSiteTime(date, timeZone).toUTCString();
+}
+
+/**
+ * Channel metadata for an RSS feed
+ */
+interface RSSChannel {
+  title: string;
+  description: string;
+  /** Absolute URL of the HTML page the feed mirrors */
+  link: string;
+  /** Absolute URL of the feed itself */
+  selfUrl: string;
 }
 
 /**
@@ -34,21 +115,67 @@ function formatRSSDate(date: string | Date): string {
  * @returns RSS feed XML content
  */
 export function generateRSSFeed(site: Site, config: SiteConfig): string {
-  const posts = site.posts.slice(0, PAGINATION.RSS_FEED_LIMIT);
-  const now = toPacificTime(new Date());
+  return buildRSSFeed(getFeedPosts(site.posts), config, {
+    title: config.title,
+    description: config.description,
+    link: `${config.baseUrl}/`,
+    selfUrl: `${config.baseUrl}/feed.xml`,
+  });
+}
+
+/**
+ * Generate RSS feed XML for a single tag
+ * @param tag - Tag data (title and description come from tags.toml when set)
+ * @param config - Site configuration
+ * @returns RSS feed XML content for /tags/{slug}/feed.xml
+ */
+export function generateTagRSSFeed(tag: TagData, config: SiteConfig): string {
+  return buildRSSFeed(getFeedPosts(tag.posts), config, {
+    title: `${tag.name} | ${config.title}`,
+    description: tag.description || `Posts tagged with ${tag.name} on ${config.title}`,
+    link: `${config.baseUrl}/tags/${tag.slug}/`,
+    selfUrl: `${config.baseUrl}${getTagFeedPath(tag.slug)}`,
+  });
+}
+
+/**
+ * Generate RSS feed XML for a single year archive
+ * @param year - Archive year
+ * @param posts - Posts published that year
+ * @param config - Site configuration
+ * @returns RSS feed XML content for /{year}/feed.xml
+ */
+export function generateYearRSSFeed(year: string, posts: Post[], config: SiteConfig): string {
+  return buildRSSFeed(getFeedPosts(posts), config, {
+    title: `Posts from ${year} | ${config.title}`,
+    description: `Articles published in ${year} on ${config.title}`,
+    link: `${config.baseUrl}/${year}/`,
+    selfUrl: `${config.baseUrl}${getYearFeedPath(year)}`,
+  });
+}
+
+/**
+ * Build an RSS 2.0 document
+ * @param posts - Posts to include (already capped)
+ * @param config - Site configuration
+ * @param channel - Channel title, description and links
+ * @returns RSS feed XML content
+ */
+function buildRSSFeed(posts: Post[], config: SiteConfig, channel: RSSChannel): string {
+  const now = toSiteTime(new Date(), config.timezone);
 
   // Determine the latest post date for lastBuildDate
   const latestPostDate = posts.length > 0 ? posts[0].date : now.toISOString();
-  const lastBuildDate = formatRSSDate(latestPostDate);
+  const lastBuildDate = formatRSSDate(latestPostDate, config.timezone);
 
   // Build RSS items with full metadata
   const rssItems = posts
     .map((post) => {
       const postUrl = `${config.baseUrl}${post.url}`;
-      const pubDate = formatRSSDate(post.date);
+      const pubDate = formatRSSDate(post.date, config.timezone);
 
       // Use cached featured image from post initialization
-      const absoluteImageUrl = post.image ? makeAbsoluteUrl(post.image, config.baseUrl) : null;
+      const absoluteImageUrl = getFeedImage(post, config.baseUrl);
 
       // Build author string
       const author =
@@ -71,9 +198,9 @@ export function generateRSSFeed(site: Site, config: SiteConfig): string {
 
   // Build channel-level metadata
   let channelXml = `  <channel>
-    <title><![CDATA[${config.title}]]></title>
-    <link>${config.baseUrl}/</link>
-    <description><![CDATA[${config.description}]]></description>`;
+    <title><![CDATA[${channel.title}]]></title>
+    <link>${channel.link}</link>
+    <description><![CDATA[${channel.description}]]></description>`;
 
   // Add language (default: en-US)
   const language = config.rssLanguage || "en-US";
@@ -98,9 +225,9 @@ export function generateRSSFeed(site: Site, config: SiteConfig): string {
 
   // Add feed discovery links
   channelXml += `
-    <pubDate>${formatRSSDate(latestPostDate)}</pubDate>
+    <pubDate>${formatRSSDate(latestPostDate, config.timezone)}</pubDate>
     <lastBuildDate>${lastBuildDate}</lastBuildDate>
-    <atom:link href="${config.baseUrl}/feed.xml" rel="self" type="application/rss+xml" />`;
+    <atom:link href="${channel.selfUrl}" rel="self" type="application/rss+xml" />`;
 
   // Build final RSS document with all namespaces
   return `<?xml version="1.0" encoding="UTF-8"?>
@@ -111,6 +238,102 @@ ${rssItems}
 </rss>`;
 }
 
+/**
+ * Generate Atom 1.0 feed XML
+ * @param site - Site data
+ * @param config - Site configuration
+ * @returns Atom feed XML content
+ */
+export function generateAtomFeed(site: Site, config: SiteConfig): string {
+  const posts = getFeedPosts(site.posts);
+  const updated = new Date(posts.length > 0 ? posts[0].date : Date.now()).toISOString();
+  const authorName = getFeedAuthorName(config);
+  const author = authorName ? { name: authorName, email: config.authorEmail } : undefined;
+
+  const entries = posts
+    .map((post) =>
+      buildAtomEntry({
+        title: post.title,
+        link: `${config.baseUrl}${post.url}`,
+        published: new Date(post.date).toISOString(),
+        summary: post.excerpt,
+        content: post.html,
+        tags: post.tags,
+        author,
+        image: getFeedImage(post, config.baseUrl),
+      }),
+    )
+    .join("\n");
+
+  let feedXml = `  <title>${escapeXml(config.title)}</title>
+  <subtitle>${escapeXml(config.description)}</subtitle>
+  <link href="${config.baseUrl}/atom.xml" rel="self" type="application/atom+xml" />
+  <link href="${config.baseUrl}/" rel="alternate" type="text/html" />
+  <id>${config.baseUrl}/</id>
+  <updated>${updated}</updated>`;
+
+  if (author) {
+    feedXml += `\n  <author>\n    <name>${escapeXml(author.name)}</name>`;
+    if (author.email) {
+      feedXml += `\n    <email>${escapeXml(author.email)}</email>`;
+    }
+    feedXml += `\n  </author>`;
+  }
+
+  if (config.copyright) {
+    feedXml += `\n  <rights>${escapeXml(config.copyright)}</rights>`;
+  }
+
+  const language = config.rssLanguage || "en-US";
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<feed xmlns="http://www.w3.org/2005/Atom" xmlns:media="http://search.yahoo.com/mrss/" xml:lang="${language}">
+${feedXml}
+${entries}
+</feed>`;
+}
+
+/**
+ * Generate JSON Feed 1.1
+ * @param site - Site data
+ * @param config - Site configuration
+ * @returns JSON Feed content
+ */
+export function generateJSONFeed(site: Site, config: SiteConfig): string {
+  const authorName = getFeedAuthorName(config);
+  const authors = authorName ? [{ name: authorName }] : undefined;
+
+  const items = getFeedPosts(site.posts).map((post) => {
+    const url = `${config.baseUrl}${post.url}`;
+    const image = getFeedImage(post, config.baseUrl);
+
+    return {
+      id: url,
+      url,
+      title: post.title,
+      content_html: post.html,
+      summary: post.excerpt,
+      ...(image && { image }),
+      date_published: new Date(post.date).toISOString(),
+      ...(authors && { authors }),
+      tags: post.tags,
+    };
+  });
+
+  const feed = {
+    version: "https://jsonfeed.org/version/1.1",
+    title: config.title,
+    home_page_url: `${config.baseUrl}/`,
+    feed_url: `${config.baseUrl}/feed.json`,
+    description: config.description,
+    language: config.rssLanguage || "en-US",
+    ...(authors && { authors }),
+    items,
+  };
+
+  return JSON.stringify(feed, null, 2);
+}
+
 /**
  * Generate sitemap XML
  * @param site - Site data
@@ -119,8 +342,8 @@ ${rssItems}
  * @returns Sitemap XML content
  */
 export function generateSitemap(site: Site, config: SiteConfig, _pageSize: number = 10): string {
-  const currentDate = toPacificTime(new Date()).toISOString();
-  const now = toPacificTime(new Date()).getTime();
+  const currentDate = toSiteTime(new Date(), config.timezone).toISOString();
+  const now = toSiteTime(new Date(), config.timezone).getTime();
 
   let sitemapContent = `<?xml version="1.0" encoding="UTF-8"?>
 <urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
@@ -165,6 +388,30 @@ export function generateSitemap(site: Site, config: SiteConfig, _pageSize: numbe
     sitemapContent += buildSitemapUrl(tagUrl, currentDate, "weekly", tagPriority);
   }
 
+  // Series landing pages
+  for (const series of Object.values(site.series)) {
+    const latestPart = series.posts.reduce(
+      (latest, post) => (post.date > latest ? post.date : latest),
+      series.posts[0].date,
+    );
+    sitemapContent += buildSitemapUrl(
+      `${config.baseUrl}/series/${series.slug}/`,
+      new Date(latestPart).toISOString(),
+      "monthly",
+      0.5,
+    );
+  }
+
+  // Standalone pages (about, now, contact)
+  for (const page of site.pages) {
+    sitemapContent += buildSitemapUrl(
+      `${config.baseUrl}${page.url}`,
+      page.date ?? currentDate,
+      "monthly",
+      0.6,
+    );
+  }
+
   // Year archives with pagination
   for (const [year, _yearPosts] of Object.entries(site.postsByYear)) {
     const currentYear = new Date().getFullYear();
@@ -190,7 +437,7 @@ export function generateSitemap(site: Site, config: SiteConfig, _pageSize: numbe
  * @returns Sitemap index XML content
  */
 export function generateSitemapIndex(config: SiteConfig): string {
-  const currentDate = toPacificTime(new Date()).toISOString();
+  const currentDate = toSiteTime(new Date(), config.timezone).toISOString();
 
   return `<?xml version="1.0" encoding="UTF-8"?>
 <sitemapindex xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
@@ -225,3 +472,12 @@ Sitemap: ${config.baseUrl}/sitemap.xml
 # Disallow: /api/
 `;
 }
+
+/**
+ * Generate the client-side search index
+ * @param site - Site data
+ * @returns search.json content
+ */
+export function generateSearchIndex(site: Site): string {
+  return JSON.stringify(buildSearchIndex(site.posts));
+}
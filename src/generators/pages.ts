@@ -5,11 +5,56 @@
 import path from "node:path";
 import nunjucks from "nunjucks";
 import { PAGINATION, SEO } from "../constants";
-import type { Site, SiteConfig, TagData, TemplateObject } from "../types";
+import type { Redirect, Site, SiteConfig, TagData, TemplateObject } from "../types";
 import { ensureDir } from "../utils/file-utils";
-import { generateHomePageSchemas, schemasToHtml } from "../utils/json-ld";
+import {
+  generateBreadcrumbListSchema,
+  generateHomePageSchemas,
+  schemasToHtml,
+} from "../utils/json-ld";
 import { createPagination, getPaginatedItems, getTotalPages } from "../utils/pagination";
+import { applyPageRenderedHooks } from "../utils/plugins";
+import { buildRedirectPage } from "../utils/redirects";
 import { generateCollectionSchemas } from "../utils/schema-factory";
+import { hasTemplate } from "../utils/template-engine";
+import { getEnabledFeeds, getTagFeedPath, getYearFeedPath } from "./feeds";
+import { type RenderWorkerOptions, renderPostPagesInWorkers } from "./render-pool";
+
+/** Decides which outputs are rendered; null renders everything */
+let renderFilter: ((outputPath: string) => boolean) | null = null;
+
+/**
+ * Restrict page generation to some output files (incremental builds)
+ * @param filter - Returns true for output paths that should be rendered, or null to render all
+ */
+export function setRenderFilter(filter: ((outputPath: string) => boolean) | null): void {
+  renderFilter = filter;
+}
+
+/** Collects the output paths this build produces; null when not tracked */
+let outputManifest: Set<string> | null = null;
+
+/**
+ * Record every output path the page generators produce, whether rendered or kept
+ * from the previous build
+ * @param manifest - Set that receives relative output paths, or null to stop recording
+ */
+export function setOutputManifest(manifest: Set<string> | null): void {
+  outputManifest = manifest;
+}
+
+/**
+ * Check whether an output file should be rendered in this build
+ * @param outputPath - Output path relative to the output directory
+ */
+function shouldRender(outputPath: string): boolean {
+  if (renderFilter === null || renderFilter(outputPath)) {
+    return true;
+  }
+  // Skipped outputs are still produced: the file from the previous build stays current
+  outputManifest?.add(outputPath);
+  return false;
+}
 
 /**
  * Get sorted tags (by post count)
@@ -23,44 +68,92 @@ function getSortedTags(tags: Record<string, TagData>, limit?: number): TagData[]
 }
 
 /**
- * Write HTML file to output directory
+ * Write HTML file to output directory after plugins have had a chance to rewrite it
  * @param outputDir - Base output directory
  * @param relativePath - Relative path from output dir
  * @param content - HTML content
+ * @param config - Site configuration (plugins run onPageRendered)
  */
 async function writeHtmlFile(
   outputDir: string,
   relativePath: string,
   content: string,
+  config: SiteConfig,
 ): Promise<void> {
+  const html = config.plugins?.length
+    ? await applyPageRenderedHooks(config.plugins, { path: relativePath, html: content })
+    : content;
   const fullPath = path.join(outputDir, relativePath);
   const dir = path.dirname(fullPath);
   await ensureDir(dir);
-  await Bun.write(fullPath, content);
+  await Bun.write(fullPath, html);
+  outputManifest?.add(relativePath);
+}
+
+/**
+ * Map a site-relative URL to its output file
+ * @param url - URL such as /2025/hello/ or /2025/hello.html
+ * @returns Relative output path (URLs ending in .html are written as-is)
+ */
+export function getOutputPath(url: string): string {
+  const relativePath = url.substring(1); // Remove leading /
+  return relativePath.endsWith(".html") ? relativePath : `${relativePath}index.html`;
+}
+
+/**
+ * Output file of a homepage listing page
+ * @param page - 1-based page number
+ */
+export function getIndexPagePath(page: number): string {
+  return page === 1 ? "index.html" : `page/${page}/index.html`;
+}
+
+/**
+ * Output file of a tag listing page
+ * @param slug - Tag slug
+ * @param page - 1-based page number
+ */
+export function getTagPagePath(slug: string, page: number): string {
+  return page === 1 ? `tags/${slug}/index.html` : `tags/${slug}/page/${page}/index.html`;
+}
+
+/**
+ * Output file of a year archive page
+ * @param year - Year
+ * @param page - 1-based page number
+ */
+export function getYearPagePath(year: string, page: number): string {
+  return page === 1 ? `${year}/index.html` : `${year}/page/${page}/index.html`;
 }
 
 /**
  * Generate an optional page from a template that may not exist.
- * Skips silently if the template is missing; warns on other errors.
+ * Skips the page if the template is missing; template and plugin errors fail the build.
  */
 async function generateOptionalPage(
   templateName: string,
   context: TemplateObject,
+  config: SiteConfig,
   outputDir: string,
   outputPath: string,
   label: string,
 ): Promise<void> {
-  try {
-    const html = nunjucks.render(templateName, context);
-    await writeHtmlFile(outputDir, outputPath, html);
-    console.log(`Generated ${label}`);
-  } catch (error) {
-    if (error instanceof Error && error.message.includes(templateName)) {
-      console.log(`No ${templateName} template found, skipping ${label}`);
-    } else {
-      console.warn(`Error generating ${label}:`, error);
+  if (renderFilter !== null && !renderFilter(outputPath)) {
+    // Keep the page only if the previous build produced it: without a template there is none
+    if (await Bun.file(path.join(outputDir, outputPath)).exists()) {
+      outputManifest?.add(outputPath);
     }
+    return;
+  }
+
+  if (!hasTemplate(templateName)) {
+    console.log(`No ${templateName} template found, skipping ${label}`);
+    return;
   }
+
+  const html = nunjucks.render(templateName, context);
+  await writeHtmlFile(outputDir, outputPath, html, config);
+  console.log(`Generated ${label}`);
 }
 
 /**
@@ -79,13 +172,19 @@ export async function generateIndexPages(
   const totalPages = getTotalPages(site.posts.length, pageSize);
 
   for (let page = 1; page <= totalPages; page++) {
+    const outputPath = getIndexPagePath(page);
+    if (!shouldRender(outputPath)) continue;
+
     const paginatedPosts = getPaginatedItems(site.posts, page, pageSize);
     const pagination = createPagination(site.posts, page, pageSize, "/");
 
     // Generate JSON-LD structured data for the homepage (first page only)
     let jsonLd = "";
     if (page === 1) {
-      const schemas = generateHomePageSchemas({ site: config });
+      const schemas = generateHomePageSchemas({
+        site: config,
+        hasSearchPage: hasTemplate("search.njk"),
+      });
       jsonLd = schemasToHtml(schemas);
     }
 
@@ -98,8 +197,7 @@ export async function generateIndexPages(
       noindex: page > SEO.NOINDEX_AFTER_PAGE,
     });
 
-    const outputPath = page === 1 ? "index.html" : `page/${page}/index.html`;
-    await writeHtmlFile(outputDir, outputPath, pageHtml);
+    await writeHtmlFile(outputDir, outputPath, pageHtml, config);
   }
 }
 
@@ -108,27 +206,41 @@ export async function generateIndexPages(
  * @param site - Site data
  * @param config - Site configuration
  * @param outputDir - Output directory
+ * @param workers - Render in worker threads (config must have no plugins); omit for the main thread
  */
 export async function generatePostPages(
   site: Site,
   config: SiteConfig,
   outputDir: string,
+  workers?: RenderWorkerOptions,
 ): Promise<void> {
+  const posts: number[] = [];
+  site.posts.forEach((post, index) => {
+    if (shouldRender(getOutputPath(post.url))) {
+      posts.push(index);
+    }
+  });
+
+  if (workers && workers.concurrency > 1 && posts.length > 0) {
+    for (const file of await renderPostPagesInWorkers(site, posts, config, outputDir, workers)) {
+      outputManifest?.add(file);
+    }
+    return;
+  }
+
   // Process posts in batches for better performance
-  for (let i = 0; i < site.posts.length; i += PAGINATION.BATCH_SIZE) {
-    const batch = site.posts.slice(i, i + PAGINATION.BATCH_SIZE);
+  for (let i = 0; i < posts.length; i += PAGINATION.BATCH_SIZE) {
+    const batch = posts.slice(i, i + PAGINATION.BATCH_SIZE).map((index) => site.posts[index]);
 
     await Promise.all(
       batch.map(async (post) => {
-        const postPath = post.url.substring(1); // Remove leading /
-
         const postHtml = nunjucks.render("post.njk", {
           site: config,
           post,
           jsonLd: post.jsonLd || "",
         });
 
-        await writeHtmlFile(outputDir, `${postPath}index.html`, postHtml);
+        await writeHtmlFile(outputDir, getOutputPath(post.url), postHtml, config);
       }),
     );
   }
@@ -148,17 +260,25 @@ export async function generateTagPages(
   pageSize: number = PAGINATION.DEFAULT_PAGE_SIZE,
 ): Promise<void> {
   // Generate tags index page
-  const tagIndexHtml = nunjucks.render("tags.njk", {
-    site: config,
-    tags: getSortedTags(site.tags),
-  });
-  await writeHtmlFile(outputDir, "tags/index.html", tagIndexHtml);
+  if (shouldRender("tags/index.html")) {
+    const tagIndexHtml = nunjucks.render("tags.njk", {
+      site: config,
+      tags: getSortedTags(site.tags),
+    });
+    await writeHtmlFile(outputDir, "tags/index.html", tagIndexHtml, config);
+  }
+
+  const tagFeedsEnabled = getEnabledFeeds(config).tags;
 
   // Generate individual tag pages with pagination
   for (const [tagName, tagData] of Object.entries(site.tags)) {
     const totalPages = getTotalPages(tagData.posts.length, pageSize);
+    const feedUrl = tagFeedsEnabled ? `${config.baseUrl}${getTagFeedPath(tagData.slug)}` : null;
 
     for (let page = 1; page <= totalPages; page++) {
+      const outputPath = getTagPagePath(tagData.slug, page);
+      if (!shouldRender(outputPath)) continue;
+
       const paginatedPosts = getPaginatedItems(tagData.posts, page, pageSize);
 
       const paginatedTagData = {
@@ -193,14 +313,10 @@ export async function generateTagPages(
         pagination,
         noindex: page > SEO.NOINDEX_AFTER_PAGE,
         jsonLd,
+        feedUrl,
       });
 
-      const outputPath =
-        page === 1
-          ? `tags/${tagData.slug}/index.html`
-          : `tags/${tagData.slug}/page/${page}/index.html`;
-
-      await writeHtmlFile(outputDir, outputPath, tagPageHtml);
+      await writeHtmlFile(outputDir, outputPath, tagPageHtml, config);
     }
   }
 }
@@ -218,10 +334,16 @@ export async function generateYearArchives(
   outputDir: string,
   pageSize: number = PAGINATION.DEFAULT_PAGE_SIZE,
 ): Promise<void> {
+  const yearFeedsEnabled = getEnabledFeeds(config).years;
+
   for (const [year, yearPosts] of Object.entries(site.postsByYear)) {
     const totalPages = getTotalPages(yearPosts.length, pageSize);
+    const feedUrl = yearFeedsEnabled ? `${config.baseUrl}${getYearFeedPath(year)}` : null;
 
     for (let page = 1; page <= totalPages; page++) {
+      const outputPath = getYearPagePath(year, page);
+      if (!shouldRender(outputPath)) continue;
+
       const paginatedPosts = getPaginatedItems(yearPosts, page, pageSize);
       const pagination = createPagination(yearPosts, page, pageSize, `/${year}/`);
 
@@ -248,22 +370,132 @@ export async function generateYearArchives(
         pagination,
         noindex: page > SEO.NOINDEX_AFTER_PAGE,
         jsonLd,
+        feedUrl,
       });
 
-      const outputPath = page === 1 ? `${year}/index.html` : `${year}/page/${page}/index.html`;
-
-      await writeHtmlFile(outputDir, outputPath, yearPageHtml);
+      await writeHtmlFile(outputDir, outputPath, yearPageHtml, config);
     }
   }
 }
 
+/**
+ * Generate series landing pages (optional)
+ * @param site - Site data
+ * @param config - Site configuration
+ * @param outputDir - Output directory
+ */
+export async function generateSeriesPages(
+  site: Site,
+  config: SiteConfig,
+  outputDir: string,
+): Promise<void> {
+  for (const series of Object.values(site.series)) {
+    const seriesUrl = `${config.baseUrl}/series/${series.slug}/`;
+    const jsonLd = generateCollectionSchemas(config, {
+      title: series.name,
+      description: `All ${series.posts.length} parts of ${series.name}`,
+      url: seriesUrl,
+      posts: series.posts,
+      breadcrumbs: [
+        { name: "Home", url: `${config.baseUrl}/` },
+        { name: series.name, url: seriesUrl },
+      ],
+    });
+
+    await generateOptionalPage(
+      "series.njk",
+      { site: config, series, posts: series.posts, jsonLd },
+      config,
+      outputDir,
+      `series/${series.slug}/index.html`,
+      `series page for ${series.name}`,
+    );
+  }
+}
+
+/**
+ * Generate standalone pages from the pages/ collection.
+ * Unlike the optional pages, a missing or broken page.njk fails the build.
+ * @param site - Site data
+ * @param config - Site configuration
+ * @param outputDir - Output directory
+ */
+export async function generateStandalonePages(
+  site: Site,
+  config: SiteConfig,
+  outputDir: string,
+): Promise<void> {
+  if (site.pages.length === 0) return;
+
+  if (!hasTemplate("page.njk")) {
+    throw new Error(
+      `Build error: found ${site.pages.length} standalone page(s) but no page.njk template.\n` +
+        `Add templates/page.njk to render them.`,
+    );
+  }
+
+  for (const page of site.pages) {
+    const outputPath = getOutputPath(page.url);
+    if (!shouldRender(outputPath)) continue;
+
+    const jsonLd = schemasToHtml([
+      generateBreadcrumbListSchema({
+        site: config,
+        items: [
+          { name: "Home", url: `${config.baseUrl}/` },
+          { name: page.title, url: `${config.baseUrl}${page.url}` },
+        ],
+      }),
+    ]);
+
+    const pageHtml = nunjucks.render("page.njk", { site: config, page, jsonLd });
+    await writeHtmlFile(outputDir, outputPath, pageHtml, config);
+  }
+}
+
+/**
+ * Generate redirect stub pages for post aliases
+ * @param redirects - Redirects collected from post aliases
+ * @param config - Site configuration
+ * @param outputDir - Output directory
+ */
+export async function generateRedirectPages(
+  redirects: readonly Redirect[],
+  config: SiteConfig,
+  outputDir: string,
+): Promise<void> {
+  await Promise.all(
+    redirects
+      .filter((redirect) => shouldRender(getOutputPath(redirect.from)))
+      .map((redirect) =>
+        writeHtmlFile(
+          outputDir,
+          getOutputPath(redirect.from),
+          buildRedirectPage(redirect, config),
+          config,
+        ),
+      ),
+  );
+
+  if (redirects.length > 0) {
+    console.log(`Generated ${redirects.length} redirect pages`);
+  }
+}
+
 /**
  * Generate 404 error page (optional)
  * @param config - Site configuration
  * @param outputDir - Output directory
  */
 export async function generate404Page(config: SiteConfig, outputDir: string): Promise<void> {
-  await generateOptionalPage("404.njk", { site: config }, outputDir, "404.html", "404.html");
+  await generateOptionalPage(
+    "404.njk",
+    { site: config },
+    config,
+    outputDir,
+    "404.html",
+    "404.html",
+  );
 }
 
 /**
@@ -280,6 +512,7 @@ export async function generateMapPage(
   await generateOptionalPage(
     "map.njk",
     { site: config, posts: site.posts },
+    config,
     outputDir,
     "map/index.html",
     "map page",
@@ -295,8 +528,27 @@ export async function generatePrivacyPage(config: SiteConfig, outputDir: string)
   await generateOptionalPage(
     "privacy.njk",
     { site: config },
+    config,
     outputDir,
     "privacy/index.html",
     "privacy page",
   );
 }
+
+/**
+ * Generate search page (optional)
+ * @param config - Site configuration
+ * @param outputDir - Output directory
+ */
+export async function generateSearchPage(config: SiteConfig, outputDir: string): Promise<void> {
+  if (!config.search?.enabled) return;
+
+  await generateOptionalPage(
+    "search.njk",
+    { site: config, searchIndexUrl: "/search.json" },
+    config,
+    outputDir,
+    "search/index.html",
+    "search page",
+  );
+}
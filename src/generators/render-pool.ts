@@ -0,0 +1,130 @@
+/**
+ * Worker pool for post page rendering
+ * Nunjucks renders synchronously, so large archives spread post pages over worker
+ * threads. Each worker receives the site model once and renders batches of posts.
+ */
+
+import { existsSync } from "node:fs";
+import path from "node:path";
+import { PAGINATION } from "../constants";
+import type { Site, SiteConfig } from "../types";
+import { BUNKI_FRAGMENTS_DIR } from "../utils/template-engine";
+
+// In the built bundle (dist/index.js, dist/cli.js) the worker is its own entry point at
+// dist/generators/render-worker.js. From source it sits next to this file.
+const _distWorker = path.join(import.meta.dir, "generators", "render-worker.js");
+const _srcWorker = path.join(import.meta.dir, "render-worker.ts");
+const RENDER_WORKER_PATH = existsSync(_distWorker) ? _distWorker : _srcWorker;
+
+export interface RenderWorkerOptions {
+  /** Number of worker threads */
+  concurrency: number;
+  /** Site templates directory */
+  templatesDir: string;
+}
+
+/**
+ * Messages sent to a render worker
+ */
+export type RenderWorkerRequest =
+  | {
+      type: "init";
+      site: Site;
+      config: SiteConfig;
+      templatesDir: string;
+      /** Bunki's fragments, resolved here: the worker file sits elsewhere in the bundle */
+      fragmentsDir: string;
+      outputDir: string;
+    }
+  | {
+      type: "render";
+      /** Indexes into site.posts */
+      posts: number[];
+    };
+
+/**
+ * Messages a render worker sends back
+ */
+export type RenderWorkerResponse =
+  | {
+      type: "rendered";
+      /** Written files, relative to the output directory */
+      files: string[];
+    }
+  | { type: "error"; message: string };
+
+/**
+ * Render post pages in worker threads.
+ * The config must not hold plugins: functions cannot be passed to a worker.
+ * @param site - Site model (copied to each worker once)
+ * @param posts - Indexes into site.posts of the posts to render
+ * @param config - Site configuration
+ * @param outputDir - Output directory
+ * @param options - Worker count and templates directory
+ * @returns Written files, relative to the output directory
+ */
+export async function renderPostPagesInWorkers(
+  site: Site,
+  posts: readonly number[],
+  config: SiteConfig,
+  outputDir: string,
+  options: RenderWorkerOptions,
+): Promise<string[]> {
+  const queue: number[][] = [];
+  for (let i = 0; i < posts.length; i += PAGINATION.BATCH_SIZE) {
+    queue.push(posts.slice(i, i + PAGINATION.BATCH_SIZE));
+  }
+
+  const written: string[] = [];
+  const workers: Worker[] = [];
+
+  // Each worker takes the next batch when it finishes one, so slow posts don't hold up the rest
+  const runWorker = () =>
+    new Promise<void>((resolve, reject) => {
+      const worker = new Worker(RENDER_WORKER_PATH);
+      workers.push(worker);
+
+      const send = (message: RenderWorkerRequest) => worker.postMessage(message);
+      const next = () => {
+        const batch = queue.shift();
+        if (batch) {
+          send({ type: "render", posts: batch });
+        } else {
+          resolve();
+        }
+      };
+
+      worker.onmessage = (event: MessageEvent<RenderWorkerResponse>) => {
+        if (event.data.type === "error") {
+          reject(new Error(`Error rendering post pages: ${event.data.message}`));
+          return;
+        }
+        written.push(...event.data.files);
+        next();
+      };
+      worker.onerror = (event) => reject(new Error(`Render worker failed: ${event.message}`));
+      // Settled promises ignore this; it only matters if a worker exits mid-batch
+      worker.addEventListener("close", () => reject(new Error("Render worker exited")));
+
+      send({
+        type: "init",
+        site,
+        config,
+        templatesDir: options.templatesDir,
+        fragmentsDir: BUNKI_FRAGMENTS_DIR,
+        outputDir,
+      });
+      next();
+    });
+
+  try {
+    const workerCount = Math.min(options.concurrency, queue.length);
+    await Promise.all(Array.from({ length: workerCount }, runWorker));
+  } finally {
+    for (const worker of workers) {
+      worker.terminate();
+    }
+  }
+
+  return written;
+}
@@ -0,0 +1,46 @@
+/**
+ * Render worker entry point (see render-pool.ts)
+ * Renders post pages through generatePostPages, so output matches the main thread byte for byte
+ */
+
+import type { Site, SiteConfig } from "../types";
+import { createTemplateEngine } from "../utils/template-engine";
+import { generatePostPages, setOutputManifest } from "./pages";
+import type { RenderWorkerRequest, RenderWorkerResponse } from "./render-pool";
+
+declare const self: Worker;
+
+let site: Site | null = null;
+let config: SiteConfig | null = null;
+let outputDir = "";
+
+function reply(message: RenderWorkerResponse): void {
+  self.postMessage(message);
+}
+
+self.onmessage = async (event: MessageEvent<RenderWorkerRequest>) => {
+  const message = event.data;
+
+  try {
+    if (message.type === "init") {
+      ({ site, config, outputDir } = message);
+      createTemplateEngine(message.templatesDir, false, config.timezone, [], message.fragmentsDir);
+      return;
+    }
+
+    if (!site || !config) {
+      throw new Error("render worker received posts before the site model");
+    }
+
+    const files = new Set<string>();
+    setOutputManifest(files);
+    const allPosts = site.posts;
+    const posts = message.posts.map((index) => allPosts[index]);
+    await generatePostPages({ ...site, posts }, config, outputDir);
+    setOutputManifest(null);
+
+    reply({ type: "rendered", files: [...files] });
+  } catch (error) {
+    reply({ type: "error", message: error instanceof Error ? error.message : String(error) });
+  }
+};
@@ -15,13 +15,24 @@ export {
 } from "./config";
 
 // Export constants
-export { CACHE, DATE, FILES, PAGINATION, SEO } from "./constants";
+export {
+  CACHE,
+  DATE,
+  DEPLOY,
+  FILES,
+  IMAGES,
+  PAGINATION,
+  PERMALINK,
+  RELATED_POSTS,
+  SEO,
+  SHORTCODES,
+} from "./constants";
 
 // Export core functionality
-export { parseMarkdownDirectory } from "./parser";
-export { startServer } from "./server";
+export { filterPublishedPosts, parseMarkdownDirectory, parsePagesDirectory } from "./parser";
+export { notifyLiveReload, startServer } from "./server";
 export { SiteGenerator } from "./site-generator";
-export { createSiteModel, groupPostsByYear } from "./site-model";
+export { createSiteModel, groupPostsBySeries, groupPostsByYear } from "./site-model";
 export * from "./types";
 
 // Export utility functions
@@ -33,16 +44,28 @@ export {
   getBaseFilename,
   readFileAsText,
 } from "./utils/file-utils";
-// Export image uploader functions
+// Export image pipeline and uploader functions
+export { processContentImages } from "./utils/image-pipeline";
 export { DEFAULT_IMAGES_DIR, uploadImages } from "./utils/image-uploader";
 export {
   convertMarkdownToHtml,
   extractExcerpt,
   parseMarkdownFile,
+  parsePageFile,
+  renderMarkdown,
+  resolvePagePermalink,
 } from "./utils/markdown-utils";
+export {
+  formatPermalink,
+  normalizePermalink,
+  validatePermalinkPattern,
+} from "./utils/permalink";
+export { PluginError } from "./utils/plugins";
+export { buildRedirectsFile, collectRedirects } from "./utils/redirects";
 export { createUploader } from "./utils/s3-uploader";
 export {
   generateCollectionSchemas,
   generateHomeBreadcrumbs,
 } from "./utils/schema-factory";
+export { buildSearchIndex, tokenize } from "./utils/search-index";
 export { createTemplateEngine } from "./utils/template-engine";
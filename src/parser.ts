@@ -1,7 +1,7 @@
 import path from "node:path";
-import type { CDNConfig, Post } from "./types";
-import { findFilesByPattern, getBaseFilename } from "./utils/file-utils";
-import { type ParseError, parseMarkdownFile } from "./utils/markdown-utils";
+import type { CDNConfig, Page, Post } from "./types";
+import { findFilesByPattern, getBaseFilename, isDirectory } from "./utils/file-utils";
+import { type ParseError, parseMarkdownFile, parsePageFile } from "./utils/markdown-utils";
 
 interface ParsedMarkdownFile {
   post: Post;
@@ -43,6 +43,41 @@ export interface ParseResult {
   errors: ParseError[];
 }
 
+/**
+ * Controls which unpublished posts make it into a build
+ */
+export interface PublishOptions {
+  /** Include posts marked `draft: true` (default: false) */
+  includeDrafts?: boolean;
+  /** Include posts dated after `now` (default: false) */
+  includeFuture?: boolean;
+  /** Reference time in ms since epoch (default: Date.now()) */
+  now?: number;
+}
+
+/**
+ * Drop drafts and future-dated posts unless explicitly included.
+ * Included future posts are returned as copies flagged with `future: true`
+ * so templates can mark them. Evaluated per build (not at parse time) so that
+ * cached scheduled posts go live once their date passes.
+ * @param posts - Parsed posts
+ * @param options - Which unpublished posts to keep
+ * @returns Posts that should be built, in the original order
+ */
+export function filterPublishedPosts(posts: readonly Post[], options: PublishOptions = {}): Post[] {
+  const now = options.now ?? Date.now();
+  const published: Post[] = [];
+
+  for (const post of posts) {
+    const future = new Date(post.date).getTime() > now;
+    if (post.draft && !options.includeDrafts) continue;
+    if (future && !options.includeFuture) continue;
+    published.push(future ? { ...post, future } : post);
+  }
+
+  return published;
+}
+
 /**
  * Detect conflicting file patterns (both .md and /README.md exist for same slug)
  * Example conflicts:
@@ -103,15 +138,18 @@ function buildParseBatch(
 /**
  * Parse specific markdown files (for incremental builds)
  * Returns both posts and their file paths for cache updates
+ * @param parseErrors - Receives the errors of files that failed to parse
  */
 export async function parseMarkdownFiles(
   filePaths: string[],
   cdnConfig?: CDNConfig,
+  timeZone?: string,
+  parseErrors: ParseError[] = [],
 ): Promise<ParsedMarkdownFile[]> {
   const attempts = await Promise.all(
     filePaths.map(async (filePath) => ({
       filePath,
-      result: await parseMarkdownFile(filePath, cdnConfig),
+      result: await parseMarkdownFile(filePath, cdnConfig, timeZone),
     })),
   );
 
@@ -119,6 +157,8 @@ export async function parseMarkdownFiles(
   for (const { result, filePath } of attempts) {
     if (result.post) {
       postsWithPaths.push({ post: result.post, filePath });
+    } else if (result.error) {
+      parseErrors.push(result.error);
     }
   }
 
@@ -129,21 +169,29 @@ async function parseMarkdownBatch(
   filePaths: string[],
   cdnConfig?: CDNConfig,
   conflictErrors: ParseError[] = [],
+  timeZone?: string,
 ): Promise<MarkdownParseBatch> {
   const attempts = await Promise.all(
     filePaths.map(async (filePath) => ({
       filePath,
-      result: await parseMarkdownFile(filePath, cdnConfig),
+      result: await parseMarkdownFile(filePath, cdnConfig, timeZone),
     })),
   );
 
   return buildParseBatch(attempts, conflictErrors);
 }
 
+/**
+ * Parse every post in the content directory
+ * @param parseErrors - Receives file conflicts and parse errors (for build reports)
+ */
 export async function parseMarkdownDirectory(
   contentDir: string,
   strictMode: boolean = false,
   cdnConfig?: CDNConfig,
+  publishOptions: PublishOptions = {},
+  timeZone?: string,
+  parseErrors: ParseError[] = [],
 ): Promise<Post[]> {
   try {
     const markdownFiles = await findFilesByPattern("**/*.md", contentDir, true);
@@ -166,7 +214,13 @@ export async function parseMarkdownDirectory(
       }
     }
 
-    const { posts, errors } = await parseMarkdownBatch(markdownFiles, cdnConfig, conflictErrors);
+    const { posts, errors } = await parseMarkdownBatch(
+      markdownFiles,
+      cdnConfig,
+      conflictErrors,
+      timeZone,
+    );
+    parseErrors.push(...errors);
 
     // Display error summary if there are errors
     if (errors.length > 0) {
@@ -230,9 +284,115 @@ export async function parseMarkdownDirectory(
 
     console.log(`Parsed ${sortedPosts.length} posts`);
 
-    return sortedPosts;
+    const publishedPosts = filterPublishedPosts(sortedPosts, publishOptions);
+    const skipped = sortedPosts.length - publishedPosts.length;
+    if (skipped > 0) {
+      console.log(`Skipped ${skipped} draft/scheduled post(s) (use --drafts or --future)`);
+    }
+
+    return publishedPosts;
   } catch (error) {
     console.error(`Error parsing markdown directory:`, error);
     throw error;
   }
 }
+
+/**
+ * Detect pages that resolve to the same URL (or would overwrite the homepage)
+ * @param pages - Parsed pages
+ * @param filePaths - Source file for each page, index-aligned
+ * @returns Array of conflict errors
+ */
+function detectPermalinkConflicts(pages: Page[], filePaths: string[]): ParseError[] {
+  const errors: ParseError[] = [];
+  const urlMap = new Map<string, string[]>();
+
+  pages.forEach((page, index) => {
+    if (!urlMap.has(page.url)) {
+      urlMap.set(page.url, []);
+    }
+    urlMap.get(page.url)?.push(filePaths[index]);
+  });
+
+  for (const [url, paths] of urlMap.entries()) {
+    if (url === "/") {
+      errors.push({
+        file: paths[0],
+        type: "validation",
+        message: "Page permalink '/' conflicts with the homepage",
+        suggestion: "Give the page its own permalink (e.g. permalink: /home/)",
+      });
+    } else if (paths.length > 1) {
+      errors.push({
+        file: paths[0],
+        type: "validation",
+        message: `Conflicting pages for '${url}': ${paths.map((p) => path.relative(process.cwd(), p)).join(" AND ")}`,
+        suggestion: "Change the permalink of one of the pages.",
+      });
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Parse the standalone pages collection (about, now, contact, ...)
+ * Pages are not posts: they have no date requirement and never appear in
+ * post indexes, tags, feeds or year archives.
+ * @param pagesDir - Pages directory (missing directory yields no pages)
+ * @param strictMode - Throw on any parse error instead of skipping the page
+ * @param cdnConfig - Optional CDN configuration
+ * @param parseErrors - Receives parse errors and permalink conflicts (for build reports)
+ * @returns Parsed pages sorted by URL
+ */
+export async function parsePagesDirectory(
+  pagesDir: string,
+  strictMode: boolean = false,
+  cdnConfig?: CDNConfig,
+  parseErrors: ParseError[] = [],
+): Promise<Page[]> {
+  if (!(await isDirectory(pagesDir))) {
+    return [];
+  }
+
+  const markdownFiles = await findFilesByPattern("**/*.md", pagesDir, true);
+  const results = await Promise.all(
+    markdownFiles.map((filePath) => parsePageFile(filePath, pagesDir, cdnConfig)),
+  );
+
+  const pages: Page[] = [];
+  const pageFiles: string[] = [];
+  const errors: ParseError[] = [];
+
+  results.forEach((result, index) => {
+    if (result.page) {
+      pages.push(result.page);
+      pageFiles.push(markdownFiles[index]);
+    } else if (result.error) {
+      errors.push(result.error);
+    }
+  });
+
+  const conflictErrors = detectPermalinkConflicts(pages, pageFiles);
+  const allErrors = [...errors, ...conflictErrors];
+  parseErrors.push(...allErrors);
+
+  if (allErrors.length > 0) {
+    console.error(`\n⚠️  Found ${allErrors.length} page error(s):\n`);
+    logErrorGroup("Page Errors", allErrors, {
+      icon: "❌",
+      showMessage: true,
+      showSuggestion: true,
+      limit: 10,
+    });
+
+    // Conflicting permalinks would silently overwrite each other
+    if (conflictErrors.length > 0 || strictMode) {
+      throw new Error(`Build failed: ${allErrors.length} page error(s) found`);
+    }
+  }
+
+  console.log(`Parsed ${pages.length} pages`);
+
+  return pages.sort((a, b) => a.url.localeCompare(b.url));
+}
@@ -1,66 +1,75 @@
 import path from "node:path";
 import { DEFAULT_OUTPUT_DIR } from "./config";
-import { isDirectory } from "./utils/file-utils";
+import { isDirectory, resolveStaticFile } from "./utils/file-utils";
+import { matchRedirect, parseRedirectsFile } from "./utils/redirects";
 
-function isWithinDirectory(rootDir: string, candidate: string): boolean {
-  const root = path.resolve(rootDir);
-  const resolved = path.resolve(candidate);
-  return resolved === root || resolved.startsWith(`${root}${path.sep}`);
-}
+/** WebSocket endpoint browsers connect to for live reload */
+export const LIVE_RELOAD_PATH = "/__bunki/livereload";
+const LIVE_RELOAD_TOPIC = "bunki:reload";
 
-async function resolveStaticFile(outputDir: string, pathname: string): Promise<Bun.BunFile | null> {
-  let decodedPathname: string;
-  try {
-    decodedPathname = decodeURIComponent(pathname);
-  } catch {
-    return null;
-  }
+// Reconnects after the dev server restarts so open tabs keep receiving reloads.
+const LIVE_RELOAD_SCRIPT = `<script>
+(() => {
+  const connect = () => {
+    const ws = new WebSocket(\`ws://\${location.host}${LIVE_RELOAD_PATH}\`);
+    ws.onmessage = (event) => {
+      if (event.data === "reload") location.reload();
+    };
+    ws.onclose = () => setTimeout(connect, 1000);
+  };
+  connect();
+})();
+</script>`;
 
-  if (decodedPathname.includes("\0")) {
-    return null;
-  }
-
-  const relativePath = decodedPathname.replace(/^\/+/, "");
-  const directPath = path.resolve(outputDir, relativePath || "index.html");
+export interface ServerOptions {
+  /** Inject the live reload client into HTML responses and accept WebSocket connections */
+  liveReload?: boolean;
+}
 
-  if (!isWithinDirectory(outputDir, directPath)) {
-    return null;
+/**
+ * Insert the live reload client just before </body> (or append it if there is none)
+ * @param html - HTML document served to the browser
+ * @returns HTML with the live reload script injected
+ */
+export function injectLiveReloadScript(html: string): string {
+  const bodyClose = html.lastIndexOf("</body>");
+  if (bodyClose === -1) {
+    return `${html}${LIVE_RELOAD_SCRIPT}`;
   }
+  return `${html.slice(0, bodyClose)}${LIVE_RELOAD_SCRIPT}${html.slice(bodyClose)}`;
+}
 
-  const candidates = new Set<string>();
-  if (relativePath === "" || decodedPathname.endsWith("/")) {
-    candidates.add(path.join(directPath, relativePath === "" ? "" : "index.html"));
-  } else {
-    candidates.add(directPath);
-    if (!path.extname(relativePath)) {
-      candidates.add(`${directPath}.html`);
-      candidates.add(path.join(directPath, "index.html"));
-    }
-  }
+/**
+ * Tell every connected browser to reload the page
+ * @param server - Server returned by startServer with liveReload enabled
+ */
+export function notifyLiveReload(server: Pick<Bun.Server<undefined>, "publish">): void {
+  server.publish(LIVE_RELOAD_TOPIC, "reload");
+}
 
-  // Root resolves to outputDir/index.html rather than outputDir itself.
-  if (relativePath === "") {
-    candidates.clear();
-    candidates.add(path.join(outputDir, "index.html"));
+/**
+ * Look up a `_redirects` rule for the request path.
+ * The file is re-read per request so watch-mode rebuilds take effect immediately.
+ */
+async function resolveRedirect(outputDir: string, pathname: string): Promise<Response | null> {
+  const redirectsFile = Bun.file(path.join(outputDir, "_redirects"));
+  if (!(await redirectsFile.exists())) {
+    return null;
   }
 
-  for (const candidate of candidates) {
-    if (!isWithinDirectory(outputDir, candidate)) {
-      continue;
-    }
-    const file = Bun.file(candidate);
-    if (await file.exists()) {
-      const stat = await file.stat();
-      if (stat?.isFile()) {
-        return file;
-      }
-    }
+  const rule = matchRedirect(parseRedirectsFile(await redirectsFile.text()), pathname);
+  if (!rule) {
+    return null;
   }
 
-  return null;
+  return new Response(null, { status: rule.status, headers: { Location: rule.to } });
 }
 
-export async function startServer(outputDir: string = DEFAULT_OUTPUT_DIR, port: number = 3000) {
+export async function startServer(
+  outputDir: string = DEFAULT_OUTPUT_DIR,
+  port: number = 3000,
+  options: ServerOptions = {},
+) {
   if (!(await isDirectory(outputDir))) {
     const msg = `Error: Output directory ${outputDir} does not exist or is not accessible.`;
     console.error(msg);
@@ -73,9 +82,26 @@ export async function startServer(outputDir: string = DEFAULT_OUTPUT_DIR, port:
 
   const server = Bun.serve({
     port,
-    async fetch(req) {
+    async fetch(req, server) {
       try {
         const { pathname } = new URL(req.url);
+
+        if (options.liveReload && pathname === LIVE_RELOAD_PATH) {
+          if (server.upgrade(req)) {
+            return undefined;
+          }
+          return new Response("Expected a WebSocket upgrade", { status: 400 });
+        }
+
+        // Redirects win over the stub pages written at alias URLs, like on Cloudflare Pages
+        const redirect = await resolveRedirect(resolvedOutputDir, pathname);
+        if (redirect) {
+          console.log(
+            `${redirect.status} Redirect: ${pathname} → ${redirect.headers.get("Location")}`,
+          );
+          return redirect;
+        }
+
         const file = await resolveStaticFile(resolvedOutputDir, pathname);
 
         if (!file) {
@@ -87,6 +113,13 @@ export async function startServer(outputDir: string = DEFAULT_OUTPUT_DIR, port:
         }
 
         console.log(`Serving file: ${file.name ?? pathname}`);
+
+        if (options.liveReload && file.type.startsWith("text/html")) {
+          return new Response(injectLiveReloadScript(await file.text()), {
+            headers: { "Content-Type": file.type },
+          });
+        }
+
         // BunFile extends Blob, so Response automatically uses Bun's MIME type.
         return new Response(file);
       } catch (error) {
@@ -97,8 +130,19 @@ export async function startServer(outputDir: string = DEFAULT_OUTPUT_DIR, port:
         });
       }
     },
+    websocket: {
+      open(ws) {
+        ws.subscribe(LIVE_RELOAD_TOPIC);
+      },
+      message() {
+        // The live reload channel is server → browser only.
+      },
+    },
   });
 
   console.log(`Bunki development server running at http://localhost:${port}/`);
+  if (options.liveReload) {
+    console.log("Live reload enabled");
+  }
   return server;
 }
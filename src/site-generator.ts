@@ -4,13 +4,21 @@
  */
 
 import path from "node:path";
-import { FILES, PAGINATION } from "./constants";
-import { copyStaticAssets, generateStylesheet } from "./generators/assets";
+import { FILES, PAGINATION, SHORTCODES } from "./constants";
+import { copyStaticAssets, generateStylesheet, listStaticAssets } from "./generators/assets";
 import {
+  generateAtomFeed,
+  generateJSONFeed,
   generateRobotsTxt,
   generateRSSFeed,
+  generateSearchIndex,
   generateSitemap,
   generateSitemapIndex,
+  generateTagRSSFeed,
+  generateYearRSSFeed,
+  getEnabledFeeds,
+  getTagFeedPath,
+  getYearFeedPath,
 } from "./generators/feeds";
 import {
   generate404Page,
@@ -18,33 +26,114 @@ import {
   generateMapPage,
   generatePostPages,
   generatePrivacyPage,
+  generateRedirectPages,
+  generateSearchPage,
+  generateSeriesPages,
+  generateStandalonePages,
   generateTagPages,
   generateYearArchives,
+  getOutputPath,
+  setOutputManifest,
+  setRenderFilter,
 } from "./generators/pages";
-import { parseMarkdownDirectory, parseMarkdownFiles } from "./parser";
+import type { RenderWorkerOptions } from "./generators/render-pool";
+import {
+  filterPublishedPosts,
+  parseMarkdownDirectory,
+  parseMarkdownFiles,
+  parsePagesDirectory,
+} from "./parser";
 import { createSiteModel } from "./site-model";
-import type { GeneratorOptions, Post, Site } from "./types";
+import type { GeneratorOptions, Post, Redirect, Site } from "./types";
 import {
   type BuildCache,
   hasConfigChanged,
-  hasFileChanged,
   loadCache,
   loadCachedPosts,
+  removeCacheEntry,
   saveCache,
   updateCacheEntry,
 } from "./utils/build-cache";
-import { displayMetrics, MetricsCollector } from "./utils/build-metrics";
-import { detectChanges, estimateTimeSaved } from "./utils/change-detector";
+import { type BuildMetrics, displayMetrics, MetricsCollector } from "./utils/build-metrics";
+import {
+  BUILD_REPORT_VERSION,
+  type BudgetViolation,
+  checkBudgets,
+  formatBudgetViolations,
+  getOutputFiles,
+  writeBuildReport,
+} from "./utils/build-report";
+import { type ChangeSet, detectChanges, estimateTimeSaved } from "./utils/change-detector";
+import { getDefaultCSSConfig } from "./utils/css-processor";
+import { isValidTimeZone } from "./utils/date-utils";
 import { ensureDir, findFilesByPattern, isDirectory } from "./utils/file-utils";
-import { setNoFollowExceptions } from "./utils/markdown/parser";
-import { createTemplateEngine } from "./utils/template-engine";
+import { processContentImages } from "./utils/image-pipeline";
+import { setHighlightOptions } from "./utils/markdown/code";
+import { setHeadingAnchors } from "./utils/markdown/headings";
+import {
+  setImageManifest,
+  setMarkdownPlugins,
+  setNoFollowExceptions,
+} from "./utils/markdown/parser";
+import { setShortcodeOptions } from "./utils/markdown/shortcodes";
+import type { ParseError } from "./utils/markdown-utils";
+import {
+  getStaleOutputs,
+  loadOutputManifest,
+  pruneOutputs,
+  saveOutputManifest,
+} from "./utils/output-manifest";
+import { validatePermalinkPattern } from "./utils/permalink";
+import {
+  applyConfigHooks,
+  applyPostHooks,
+  applySiteModelHooks,
+  runBuildCompleteHooks,
+  validatePlugins,
+} from "./utils/plugins";
+import { buildRedirectsFile, collectRedirects } from "./utils/redirects";
+import {
+  getAffectedTemplates,
+  getListingOutputs,
+  getPostOutputs,
+  getRedirectOutputs,
+  getSiteOutputs,
+  hashPage,
+  hashPost,
+  hashSiteStructure,
+  scanTemplates,
+  type TemplateFile,
+} from "./utils/render-plan";
+import { BUNKI_FRAGMENTS_DIR, createTemplateEngine } from "./utils/template-engine";
+
+/**
+ * Whether a markdown file uses any of the named shortcodes
+ * @param filePath - Markdown file
+ * @param names - Shortcode names ([a-z][\w-]*, so safe to use in a pattern)
+ */
+async function usesShortcode(filePath: string, names: readonly string[]): Promise<boolean> {
+  const pattern = new RegExp(`\\{\\{<\\s*(?:${names.join("|")})[\\s>]`);
+  return pattern.test(await Bun.file(filePath).text());
+}
 
 export class SiteGenerator {
   private options: GeneratorOptions;
   private site: Site;
   private metrics: MetricsCollector;
   private cache: BuildCache | null = null;
+  /** Inputs changed since the last build (null in full builds) */
+  private changes: ChangeSet | null = null;
+  /** Templates and fragments by name, scanned when a cache is in use */
+  private templates = new Map<string, TemplateFile>();
+  /** Outputs to render in an incremental build (null renders everything) */
+  private renderPlan: Set<string> | null = null;
+  /** Files this build produces, relative to the output directory */
+  private outputs = new Set<string>();
+  /** Markdown files that failed to parse in this build */
+  private parseErrors: ParseError[] = [];
   private incrementalMode = false;
+  private incrementalRequested = false;
+  private pluginsReady = false;
 
   constructor(options: GeneratorOptions) {
     this.options = options;
@@ -53,17 +142,17 @@ export class SiteGenerator {
       posts: [],
       tags: {},
       postsByYear: {},
+      series: {},
+      pages: [],
     };
     this.metrics = new MetricsCollector();
-
-    // Configure template engine with custom filters
-    createTemplateEngine(this.options.templatesDir);
   }
 
   /**
    * Enable incremental builds
    */
   enableIncrementalMode(): void {
+    this.incrementalRequested = true;
     this.incrementalMode = true;
   }
 
@@ -71,6 +160,12 @@ export class SiteGenerator {
    * Initialize site data - parse markdown and prepare site structure
    */
   async initialize(): Promise<void> {
+    // initialize() runs again for every watch-mode rebuild, so reset per-build state
+    this.metrics = new MetricsCollector();
+    this.outputs = new Set();
+    this.parseErrors = [];
+    this.changes = null;
+    this.incrementalMode = this.incrementalRequested;
     this.metrics.startStage("initialization");
     console.log("Initializing site generator...");
 
@@ -86,6 +181,30 @@ export class SiteGenerator {
       );
     }
 
+    // Plugins adjust config and extend the template engine once per generator,
+    // not on every watch-mode rebuild
+    if (!this.pluginsReady) {
+      await this.setUpPlugins();
+    } else if (this.options.watch) {
+      // A fresh environment has no compiled templates cached, so edits take effect
+      this.configureTemplateEngine();
+    }
+
+    const timeZone = this.options.config.timezone;
+    if (timeZone !== undefined && !isValidTimeZone(timeZone)) {
+      throw new Error(
+        `Config error: unknown timezone "${timeZone}".\n` +
+          `Use an IANA timezone name such as "Europe/Berlin" or "America/New_York".`,
+      );
+    }
+
+    if (this.options.config.permalink !== undefined) {
+      const permalinkError = validatePermalinkPattern(this.options.config.permalink);
+      if (permalinkError) {
+        throw new Error(`Config error: ${permalinkError}`);
+      }
+    }
+
     await ensureDir(this.options.outputDir);
 
     // Set up nofollow exceptions if configured
@@ -93,9 +212,38 @@ export class SiteGenerator {
       setNoFollowExceptions(this.options.config.noFollowExceptions);
     }
 
+    setHeadingAnchors(this.options.config.headingAnchors ?? false);
+    await setHighlightOptions(this.options.config.highlight);
+
+    // Shortcode templates come from templates/shortcodes/; galleries list content/{year}/ folders
+    setShortcodeOptions({
+      templatesDir: this.options.templatesDir,
+      contentDir: this.options.contentDir,
+      iframeHosts: this.options.config.shortcodes?.iframeHosts,
+    });
+
+    // Generate responsive image variants before parsing so posts can render <picture> markup
+    const imagesConfig = this.options.config.images;
+    setImageManifest(null);
+    if (imagesConfig?.enabled) {
+      const manifest = await processContentImages(
+        this.options.contentDir,
+        this.options.outputDir,
+        this.options.config,
+      );
+      setImageManifest(manifest, imagesConfig.sizes);
+      for (const [key, image] of Object.entries(manifest)) {
+        const year = path.dirname(key);
+        for (const variant of [...image.fallback, ...Object.values(image.sources).flat()]) {
+          this.outputs.add(path.join(year, variant.filename));
+        }
+      }
+      console.log(`Prepared responsive variants for ${Object.keys(manifest).length} images`);
+    }
+
     // Load tag descriptions from tags.toml if available
     let tagDescriptions: Record<string, string> = {};
-    const tagsTomlPath = path.join(projectRoot, "src", "tags.toml");
+    const tagsTomlPath = this.getTagsTomlPath();
 
     const tagsTomlFile = Bun.file(tagsTomlPath);
     if (await tagsTomlFile.exists()) {
@@ -122,12 +270,72 @@ export class SiteGenerator {
     // Load cache for incremental builds
     if (this.incrementalMode) {
       this.cache = await loadCache(projectRoot);
+      this.templates = await scanTemplates([this.options.templatesDir, BUNKI_FRAGMENTS_DIR]);
+    }
+
+    // Parse markdown files (full or incremental), let plugins adjust each post, then drop
+    // drafts/scheduled posts. Filtering happens here rather than at parse time so cached
+    // posts are re-evaluated.
+    const plugins = this.options.config.plugins ?? [];
+    const parsedPosts: Post[] = [];
+    for (const post of await this.parseContent()) {
+      parsedPosts.push(await applyPostHooks(plugins, post, this.options.config));
+    }
+    const posts = filterPublishedPosts(parsedPosts, {
+      includeDrafts: this.options.includeDrafts,
+      includeFuture: this.options.includeFuture,
+    });
+    const skipped = parsedPosts.length - posts.length;
+    if (skipped > 0) {
+      console.log(`Skipped ${skipped} draft/scheduled post(s) (use --drafts or --future)`);
     }
 
-    // Parse markdown files (full or incremental)
-    const posts = await this.parseContent();
+    // Standalone pages (about, now, contact) live outside the dated post model
+    const pagesDir =
+      this.options.pagesDir ??
+      path.resolve(projectRoot, this.options.config.pagesDir ?? FILES.PAGES_DIR);
+    const pages = (
+      await parsePagesDirectory(
+        pagesDir,
+        this.options.config.strictMode ?? false,
+        this.options.config.cdn,
+        this.parseErrors,
+      )
+    ).filter((page) => !page.draft || this.options.includeDrafts);
 
-    this.site = createSiteModel(posts, this.options.config, tagDescriptions);
+    this.site = await applySiteModelHooks(
+      plugins,
+      createSiteModel(posts, this.options.config, tagDescriptions, pages),
+      this.options.config,
+    );
+  }
+
+  /**
+   * Validate plugins, run their onConfig hooks and configure the template engine
+   */
+  private async setUpPlugins(): Promise<void> {
+    const plugins = this.options.config.plugins ?? [];
+    const pluginError = validatePlugins(plugins);
+    if (pluginError) {
+      throw new Error(`Config error: ${pluginError}`);
+    }
+
+    this.options.config = await applyConfigHooks(plugins, this.options.config);
+    setMarkdownPlugins(plugins);
+    this.configureTemplateEngine();
+    this.pluginsReady = true;
+  }
+
+  /**
+   * Configure the template engine with custom filters and plugin extensions
+   */
+  private configureTemplateEngine(): void {
+    createTemplateEngine(
+      this.options.templatesDir,
+      false,
+      this.options.config.timezone,
+      this.options.config.plugins ?? [],
+    );
   }
 
   /**
@@ -141,9 +349,9 @@ export class SiteGenerator {
     // Generate stylesheet first (CSS needed for all pages)
     this.metrics.startStage("cssProcessing");
 
-    // Check if CSS needs rebuilding
-    let cssChanged = true;
-    if (this.cache && this.incrementalMode && this.options.config.css) {
+    // Check if CSS needs rebuilding. Utility-class CSS (e.g. Tailwind) scans templates
+    // for class names, so template edits rebuild it too.
+    if (this.cache && this.options.config.css) {
       const cssInputPath = path.resolve(
         this.options.rootDir ?? process.cwd(),
         this.options.config.css.input,
@@ -151,7 +359,8 @@ export class SiteGenerator {
       const cssOutputPath = path.join(this.options.outputDir, this.options.config.css.output);
 
       const cssOutputExists = await Bun.file(cssOutputPath).exists();
-      cssChanged = await hasFileChanged(cssInputPath, this.cache);
+      const cssChanged =
+        this.changes === null || this.changes.stylesChanged || this.changes.templatesChanged;
 
       if (!cssChanged && cssOutputExists) {
         console.log("⏭️  Skipping CSS (unchanged)");
@@ -162,73 +371,392 @@ export class SiteGenerator {
     } else {
       await generateStylesheet(this.options.config, this.options.outputDir);
     }
+    const cssConfig = this.options.config.css ?? getDefaultCSSConfig();
+    if (cssConfig.enabled) {
+      this.outputs.add(path.normalize(cssConfig.output));
+    }
 
     // Parallelize independent page generation tasks for better performance
     this.metrics.startStage("pageGeneration");
+    const renderPlan = this.cache ? await this.planRender(this.cache) : null;
+    this.renderPlan = renderPlan;
+    setRenderFilter(renderPlan && ((outputPath) => renderPlan.has(outputPath)));
+    setOutputManifest(this.outputs);
+    const redirects = collectRedirects(this.site);
     await Promise.all([
       generateIndexPages(this.site, this.options.config, this.options.outputDir),
-      generatePostPages(this.site, this.options.config, this.options.outputDir),
+      generatePostPages(
+        this.site,
+        this.options.config,
+        this.options.outputDir,
+        this.getRenderWorkers(),
+      ),
       generateTagPages(this.site, this.options.config, this.options.outputDir),
       generateYearArchives(this.site, this.options.config, this.options.outputDir),
       generateMapPage(this.site, this.options.config, this.options.outputDir),
       generate404Page(this.options.config, this.options.outputDir),
       generatePrivacyPage(this.options.config, this.options.outputDir),
+      generateSearchPage(this.options.config, this.options.outputDir),
+      generateSeriesPages(this.site, this.options.config, this.options.outputDir),
+      generateStandalonePages(this.site, this.options.config, this.options.outputDir),
+      generateRedirectPages(redirects, this.options.config, this.options.outputDir),
     ]);
 
     // Copy static assets
     this.metrics.startStage("assetCopying");
-    await copyStaticAssets(this.options.templatesDir, this.options.outputDir);
+    const assetFiles = await copyStaticAssets(this.options.templatesDir, this.options.outputDir, {
+      rootDir: this.options.rootDir,
+      changed: this.changes ? new Set(this.changes.changedAssets) : undefined,
+    });
+    for (const file of assetFiles) {
+      this.outputs.add(file);
+    }
 
-    // Generate feeds (RSS, sitemap, robots.txt)
+    // Generate feeds (RSS, sitemap, robots.txt, _redirects)
     this.metrics.startStage("feedGeneration");
-    await this.generateFeeds();
+    await this.generateFeeds(redirects);
+    setRenderFilter(null);
+    setOutputManifest(null);
+
+    await this.cleanOutputs();
 
     // Calculate output statistics and display metrics
     const outputStats = await this.calculateOutputStats();
     const buildMetrics = this.metrics.getMetrics(outputStats);
     displayMetrics(buildMetrics);
+    const violations = await this.reportBuild(buildMetrics);
 
     // Save cache for incremental builds
     if (this.cache) {
+      await this.recordInputs(this.cache);
       await saveCache(this.options.rootDir ?? process.cwd(), this.cache);
     }
+
+    // The output stays in place for inspection, but plugins don't see a failed build
+    if (violations.length > 0) {
+      throw new Error(
+        `Build exceeded ${violations.length} budget(s):\n${formatBudgetViolations(violations)}`,
+      );
+    }
+
+    await runBuildCompleteHooks(this.options.config.plugins ?? [], {
+      site: this.site,
+      config: this.options.config,
+      outputDir: this.options.outputDir,
+    });
   }
 
   /**
-   * Generate all feed files (RSS, sitemap, robots.txt)
+   * Check the build against the budgets in config and write the --report file
+   * @param metrics - Metrics of this build
+   * @returns Exceeded budgets
    */
-  private async generateFeeds(): Promise<void> {
-    const rssContent = generateRSSFeed(this.site, this.options.config);
-    const sitemapContent = generateSitemap(
-      this.site,
-      this.options.config,
-      PAGINATION.DEFAULT_PAGE_SIZE,
+  private async reportBuild(metrics: BuildMetrics): Promise<BudgetViolation[]> {
+    const budgets = this.options.config.budgets ?? {};
+    const reportPath = this.options.reportPath;
+    if (!reportPath && Object.keys(budgets).length === 0) {
+      return [];
+    }
+
+    const files = await getOutputFiles(this.options.outputDir, this.outputs);
+    const violations = checkBudgets(budgets, metrics, files);
+    if (violations.length === 0 && Object.keys(budgets).length > 0) {
+      console.log("✅ Within build budgets");
+    }
+
+    if (reportPath) {
+      await writeBuildReport(reportPath, {
+        version: BUILD_REPORT_VERSION,
+        generatedAt: new Date().toISOString(),
+        metrics,
+        files,
+        errors: this.parseErrors,
+        budgets,
+        violations,
+      });
+      console.log(`📝 Wrote build report to ${reportPath}`);
+    }
+
+    return violations;
+  }
+
+  /**
+   * Worker threads for post pages, when more than one is requested
+   */
+  private getRenderWorkers(): RenderWorkerOptions | undefined {
+    const concurrency = this.options.concurrency ?? 1;
+    if (concurrency <= 1) {
+      return undefined;
+    }
+    // Plugin hooks are functions, which cannot be passed to a worker
+    if (this.options.config.plugins?.length) {
+      console.log("Plugins are configured, rendering post pages on the main thread");
+      return undefined;
+    }
+    return { concurrency, templatesDir: this.options.templatesDir };
+  }
+
+  /**
+   * Delete files the previous build produced that this build no longer does
+   * (pages of deleted posts, emptied tag directories, disabled feeds), then record
+   * this build's outputs for the next one
+   */
+  private async cleanOutputs(): Promise<void> {
+    const outputDir = path.resolve(this.options.outputDir);
+    const manifestPath = path.join(this.options.rootDir ?? process.cwd(), FILES.OUTPUT_MANIFEST);
+    const stale = getStaleOutputs(await loadOutputManifest(manifestPath, outputDir), this.outputs);
+    const clean = this.options.clean ?? true;
+
+    if (stale.length > 0) {
+      if (clean && !this.options.cleanDryRun) {
+        await pruneOutputs(outputDir, stale);
+        console.log(`🧹 Removed ${stale.length} stale output files`);
+      } else {
+        const heading = this.options.cleanDryRun ? "Would remove" : "Keeping (--no-clean)";
+        console.log(`${heading} ${stale.length} stale output files:`);
+        for (const file of stale) {
+          console.log(`   ${file}`);
+        }
+      }
+    }
+
+    // Files left in place stay in the manifest so a later build can still remove them
+    const kept = clean && !this.options.cleanDryRun ? [] : stale;
+    await saveOutputManifest(manifestPath, outputDir, [...this.outputs, ...kept]);
+  }
+
+  /**
+   * Work out which outputs an incremental build has to render, and record the
+   * post outputs and site structure the next build compares against
+   * @param cache - Build cache
+   * @returns Outputs to render, or null to render everything (full builds)
+   */
+  private async planRender(cache: BuildCache): Promise<Set<string> | null> {
+    const config = this.options.config;
+    const dirty = new Set<string>();
+
+    const templates = this.templates;
+    const changedTemplatePaths = new Set(this.changes?.changedTemplates);
+    const changedTemplates = [...templates]
+      .filter(([, template]) => changedTemplatePaths.has(template.path))
+      .map(([name]) => name);
+
+    // Adding, removing, re-dating or retagging posts shifts every listing
+    const siteHash = hashSiteStructure(this.site);
+    if (cache.siteHash !== siteHash) {
+      for (const output of getListingOutputs(this.site, config)) {
+        dirty.add(output);
+      }
+    }
+    cache.siteHash = siteHash;
+
+    // A post's outputs are re-rendered when its data or the set of outputs it feeds changes;
+    // posts are matched to their cached source file by date and slug
+    const postKey = (post: Post) => `${post.date}|${post.slug}`;
+    const sourceFiles = new Map<string, string>();
+    for (const [filePath, entry] of Object.entries(cache.files)) {
+      if (entry.post) {
+        sourceFiles.set(postKey(entry.post), filePath);
+      }
+    }
+
+    const builtFiles = new Set<string>();
+    for (const post of this.site.posts) {
+      const outputs = getPostOutputs(post, this.site, config);
+      const filePath = sourceFiles.get(postKey(post));
+      const entry = filePath ? cache.files[filePath] : undefined;
+      if (!filePath || !entry) {
+        for (const output of outputs) dirty.add(output);
+        continue;
+      }
+
+      const pageHash = hashPost(post);
+      if (entry.outputs?.join("\n") !== outputs.join("\n")) {
+        for (const output of [...(entry.outputs ?? []), ...outputs]) dirty.add(output);
+      } else if (entry.pageHash !== pageHash) {
+        // Unchanged outputs mean an unchanged URL and aliases, so the redirects stay current
+        const redirectOutputs = new Set(getRedirectOutputs(post));
+        for (const output of outputs) {
+          if (!redirectOutputs.has(output)) dirty.add(output);
+        }
+      }
+      entry.pageHash = pageHash;
+      entry.outputs = outputs;
+      builtFiles.add(filePath);
+    }
+
+    // Posts that are no longer built (turned into drafts or rescheduled)
+    for (const [filePath, entry] of Object.entries(cache.files)) {
+      if (entry.outputs && !builtFiles.has(filePath)) {
+        for (const output of entry.outputs) dirty.add(output);
+        entry.pageHash = undefined;
+        entry.outputs = undefined;
+      }
+    }
+
+    const pageHashes: Record<string, string> = {};
+    for (const page of this.site.pages) {
+      const outputPath = getOutputPath(page.url);
+      pageHashes[outputPath] = hashPage(page);
+      if (cache.pages?.[outputPath] !== pageHashes[outputPath]) {
+        dirty.add(outputPath);
+        dirty.add("sitemap.xml");
+      }
+    }
+    cache.pages = pageHashes;
+
+    if (!this.incrementalMode) {
+      return null;
+    }
+
+    // Pages using an edited template (directly or through extends/include/import),
+    // and outputs missing from disk
+    const affectedTemplates = getAffectedTemplates(changedTemplates, templates);
+    const siteOutputs = getSiteOutputs(this.site, config);
+    // A copied public/_redirects replaces the generated file, which has to be written again
+    const publicRedirects = path.resolve(
+      this.options.rootDir ?? process.cwd(),
+      "public",
+      "_redirects",
+    );
+    if (this.changes?.changedAssets.some((asset) => path.resolve(asset) === publicRedirects)) {
+      dirty.add("_redirects");
+    }
+    for (const [outputPath, template] of siteOutputs) {
+      if (template !== null && !templates.has(template)) continue; // Optional page without a template
+      if (
+        (template !== null && affectedTemplates.has(template)) ||
+        !(await Bun.file(path.join(this.options.outputDir, outputPath)).exists())
+      ) {
+        dirty.add(outputPath);
+      }
+    }
+
+    console.log(
+      `♻️  Rendering ${dirty.size}/${siteOutputs.size} pages and feeds affected by changes`,
     );
-    const robotsTxtContent = generateRobotsTxt(this.options.config);
-    const urlCount = this.site.posts.length + Object.keys(this.site.tags).length + 10;
+    return dirty;
+  }
+
+  /**
+   * Record the templates, tags.toml and static files this build used, so the next
+   * incremental build can tell what changed. Full builds record all of them.
+   * @param cache - Build cache
+   */
+  private async recordInputs(cache: BuildCache): Promise<void> {
+    const tagsTomlPath = this.getTagsTomlPath();
+    const inputs = this.changes
+      ? [
+          ...this.changes.changedTemplates,
+          ...this.changes.changedAssets,
+          ...(this.changes.tagDescriptionsChanged ? [tagsTomlPath] : []),
+        ]
+      : [
+          ...[...this.templates.values()].map((template) => template.path),
+          ...(await listStaticAssets(this.options.templatesDir, this.options.rootDir)),
+          tagsTomlPath,
+        ];
+
+    for (const input of inputs) {
+      await updateCacheEntry(input, cache);
+    }
+  }
+
+  /**
+   * Tag descriptions file, {rootDir}/src/tags.toml
+   */
+  private getTagsTomlPath(): string {
+    return path.join(this.options.rootDir ?? process.cwd(), "src", "tags.toml");
+  }
+
+  /**
+   * Generate all feed files (RSS, Atom, JSON Feed, tag/year feeds, sitemap, robots.txt,
+   * search index) and the `_redirects` file for post aliases
+   */
+  private async generateFeeds(redirects: readonly Redirect[]): Promise<void> {
+    const config = this.options.config;
+    const outputDir = this.options.outputDir;
+    const sitemapContent = generateSitemap(this.site, config, PAGINATION.DEFAULT_PAGE_SIZE);
+    const robotsTxtContent = generateRobotsTxt(config);
+    const urlCount =
+      this.site.posts.length + Object.keys(this.site.tags).length + this.site.pages.length + 10;
     const needsSitemapIndex =
       urlCount > FILES.MAX_SITEMAP_URLS || sitemapContent.length > FILES.MAX_SITEMAP_SIZE;
 
-    const writes: Promise<number>[] = [
-      Bun.write(path.join(this.options.outputDir, "feed.xml"), rssContent),
-      Bun.write(path.join(this.options.outputDir, "sitemap.xml"), sitemapContent),
-      Bun.write(path.join(this.options.outputDir, "robots.txt"), robotsTxtContent),
-    ];
+    // Incremental builds skip feeds no changed post appears in; the previous file stays current
+    const planned = (name: string) => {
+      if (this.renderPlan === null || this.renderPlan.has(name)) return true;
+      this.outputs.add(name);
+      return false;
+    };
+
+    const files: Record<string, string> = {
+      "robots.txt": robotsTxtContent,
+    };
+    if (planned("sitemap.xml")) {
+      files["sitemap.xml"] = sitemapContent;
+    }
+
+    const feeds = getEnabledFeeds(config);
+    if (feeds.rss && planned("feed.xml")) {
+      files["feed.xml"] = generateRSSFeed(this.site, config);
+    }
+    if (feeds.atom && planned("atom.xml")) {
+      files["atom.xml"] = generateAtomFeed(this.site, config);
+    }
+    if (feeds.json && planned("feed.json")) {
+      files["feed.json"] = generateJSONFeed(this.site, config);
+    }
+
+    if (config.search?.enabled && planned("search.json")) {
+      files["search.json"] = generateSearchIndex(this.site);
+    }
 
     if (needsSitemapIndex) {
-      writes.push(
-        Bun.write(
-          path.join(this.options.outputDir, "sitemap_index.xml"),
-          generateSitemapIndex(this.options.config),
-        ),
+      files["sitemap_index.xml"] = generateSitemapIndex(config);
+    }
+
+    if (redirects.length > 0 && planned("_redirects")) {
+      // Keep hand-written rules from public/_redirects ahead of the generated ones
+      const publicRedirects = Bun.file(
+        path.join(this.options.rootDir ?? process.cwd(), "public", "_redirects"),
       );
+      const existingRules = (await publicRedirects.exists()) ? await publicRedirects.text() : "";
+      const separator = existingRules && !existingRules.endsWith("\n") ? "\n" : "";
+      files._redirects = existingRules + separator + buildRedirectsFile(redirects);
     }
 
-    await Promise.all(writes);
-    console.log("Generated sitemap.xml");
-    console.log("Generated robots.txt");
-    if (needsSitemapIndex) {
-      console.log("Generated sitemap_index.xml");
+    // Per-tag and per-year feeds are logged as a count rather than file by file
+    const archiveFeeds: Record<string, string> = {};
+    if (feeds.tags) {
+      for (const tag of Object.values(this.site.tags)) {
+        const feedPath = getTagFeedPath(tag.slug);
+        if (planned(feedPath.slice(1))) {
+          archiveFeeds[feedPath] = generateTagRSSFeed(tag, config);
+        }
+      }
+    }
+    if (feeds.years) {
+      for (const [year, posts] of Object.entries(this.site.postsByYear)) {
+        const feedPath = getYearFeedPath(year);
+        if (planned(feedPath.slice(1))) {
+          archiveFeeds[feedPath] = generateYearRSSFeed(year, posts, config);
+        }
+      }
+    }
+
+    await Promise.all(
+      Object.entries({ ...files, ...archiveFeeds }).map(([name, content]) => {
+        this.outputs.add(path.normalize(name.replace(/^\//, "")));
+        return Bun.write(path.join(outputDir, name), content);
+      }),
+    );
+    for (const name of Object.keys(files)) {
+      console.log(`Generated ${name}`);
+    }
+    const archiveFeedCount = Object.keys(archiveFeeds).length;
+    if (archiveFeedCount > 0) {
+      console.log(`Generated ${archiveFeedCount} tag/year feeds`);
     }
   }
 
@@ -244,6 +772,10 @@ export class SiteGenerator {
         this.options.contentDir,
         strictMode,
         this.options.config.cdn,
+        // Keep drafts and scheduled posts: initialize filters them after the plugin hooks
+        { includeDrafts: true, includeFuture: true },
+        this.options.config.timezone,
+        this.parseErrors,
       );
 
       // Update cache for all files with post data
@@ -252,19 +784,32 @@ export class SiteGenerator {
         // Use parseMarkdownFiles to get correct filePath→post pairs.
         // posts[] is date-sorted; allFiles[] is alphabetical — index pairing
         // would map the wrong post to each file.
-        const postsWithPaths = await parseMarkdownFiles(allFiles, this.options.config.cdn);
+        const postsWithPaths = await parseMarkdownFiles(
+          allFiles,
+          this.options.config.cdn,
+          this.options.config.timezone,
+        );
         for (const { post, filePath } of postsWithPaths) {
           await updateCacheEntry(filePath, this.cache, { post });
         }
+
+        // Forget deleted posts, or every later build would see them as deleted again
+        const currentFiles = new Set(allFiles);
+        for (const filePath of Object.keys(this.cache.files)) {
+          if (filePath.endsWith(".md") && !currentFiles.has(filePath)) {
+            removeCacheEntry(filePath, this.cache);
+          }
+        }
       }
 
       return posts;
     }
 
     // Incremental build - detect changes
+    const rootDir = this.options.rootDir ?? process.cwd();
     const allFiles = await findFilesByPattern("**/*.md", this.options.contentDir, true);
 
-    const configPath = path.join(this.options.rootDir ?? process.cwd(), "bunki.config.ts");
+    const configPath = this.options.configPath ?? path.join(rootDir, "bunki.config.ts");
     const configChanged = await hasConfigChanged(configPath, this.cache);
 
     if (configChanged) {
@@ -273,7 +818,13 @@ export class SiteGenerator {
       return this.parseContent(); // Force full rebuild
     }
 
-    const changes = await detectChanges(allFiles, this.cache);
+    const css = this.options.config.css;
+    const changes = await detectChanges(allFiles, this.cache, {
+      templatePaths: [...this.templates.values()].map((template) => template.path),
+      stylesPaths: css ? [path.resolve(rootDir, css.input)] : [],
+      tagDescriptionsPath: this.getTagsTomlPath(),
+      assetPaths: await listStaticAssets(this.options.templatesDir, rootDir),
+    });
 
     // Full rebuild if needed
     if (changes.fullRebuild) {
@@ -281,12 +832,31 @@ export class SiteGenerator {
       this.incrementalMode = false; // Disable incremental for this build
       return this.parseContent();
     }
+    this.changes = changes;
+
+    // Posts render shortcodes into their HTML at parse time, so an edited shortcode
+    // template means re-parsing the posts that use it
+    const shortcodesDir = path.join(this.options.templatesDir, SHORTCODES.TEMPLATES_DIR);
+    const changedShortcodes = changes.changedTemplates
+      .filter((file) => path.dirname(file) === shortcodesDir)
+      .map((file) => path.basename(file, ".njk"))
+      .filter((name) => /^[a-z][\w-]*$/.test(name));
+    if (changedShortcodes.length > 0) {
+      const changedFiles = new Set(changes.changedPosts);
+      for (const file of allFiles) {
+        if (!changedFiles.has(file) && (await usesShortcode(file, changedShortcodes))) {
+          changes.changedPosts.push(file);
+        }
+      }
+    }
 
     // No changes detected
     if (changes.changedPosts.length === 0) {
       console.log("No content changes detected, using cached posts");
       // Load all posts from cache
-      const cachedPosts = loadCachedPosts(this.cache, allFiles);
+      const cachedPosts = loadCachedPosts(this.cache, allFiles).sort(
+        (a, b) => new Date(b.date).getTime() - new Date(a.date).getTime(),
+      );
       console.log(`✨ Loaded ${cachedPosts.length} posts from cache (0ms parsing)`);
       return cachedPosts;
     }
@@ -302,6 +872,8 @@ export class SiteGenerator {
     const changedPostsWithPaths = await parseMarkdownFiles(
       changes.changedPosts,
       this.options.config.cdn,
+      this.options.config.timezone,
+      this.parseErrors,
     );
 
     // Load cached posts for unchanged files
@@ -1,14 +1,21 @@
+import path from "node:path";
+import { hash } from "bun";
 import slugify from "slugify";
-import type { Post, Site, SiteConfig, TagData } from "./types";
-import { getPacificYear } from "./utils/date-utils";
+import { PERMALINK, RELATED_POSTS } from "./constants";
+import type { Page, Post, SeriesData, Site, SiteConfig, TagData } from "./types";
+import { getSiteYear } from "./utils/date-utils";
 import { extractFirstImageUrl, generatePostPageSchemas, schemasToHtml } from "./utils/json-ld";
+import { formatPermalink, rewriteInternalLinks } from "./utils/permalink";
+import { findRelatedPosts } from "./utils/related-posts";
 
 export function createSiteModel(
   posts: readonly Post[],
   config: SiteConfig,
   tagDescriptions: Readonly<Record<string, string>> = {},
+  pages: readonly Page[] = [],
 ): Site {
   const tags: Record<string, TagData> = {};
+  const urlMap = resolvePostUrls(posts, config);
   const enrichedPosts = posts.map((post) => {
     const tagSlugs = Object.fromEntries(
       post.tags.map((tagName) => [tagName, slugify(tagName, { lower: true, strict: true })]),
@@ -18,6 +25,8 @@ export function createSiteModel(
 
     const enrichedPost: Post = {
       ...post,
+      url: urlMap.get(post.url) ?? post.url,
+      html: rewriteInternalLinks(post.html, urlMap),
       tagSlugs,
       ...(image ? { image } : {}),
       wordCount,
@@ -33,6 +42,15 @@ export function createSiteModel(
 
     return enrichedPost;
   });
+  assertUniqueUrls(enrichedPosts, pages);
+
+  const relatedPosts = findRelatedPosts(
+    enrichedPosts,
+    config.relatedPostsCount ?? RELATED_POSTS.DEFAULT_COUNT,
+  );
+  enrichedPosts.forEach((post, index) => {
+    post.relatedPosts = relatedPosts[index];
+  });
 
   for (const post of enrichedPosts) {
     for (const tagName of post.tags) {
@@ -59,18 +77,138 @@ export function createSiteModel(
     name: config.domain,
     posts: enrichedPosts,
     tags,
-    postsByYear: groupPostsByYear(enrichedPosts),
+    postsByYear: groupPostsByYear(enrichedPosts, config.timezone),
+    series: linkSeriesParts(enrichedPosts),
+    pages: pages.map((page) => ({ ...page, html: rewriteInternalLinks(page.html, urlMap) })),
   };
 }
 
-export function groupPostsByYear(posts: readonly Post[]): Record<string, Post[]> {
+/**
+ * Apply config.permalink and per-post permalink overrides
+ * @param posts - Parsed posts (with default /{year}/{slug}/ URLs)
+ * @param config - Site configuration
+ * @returns Default URL → final URL, for posts whose URL changes
+ */
+function resolvePostUrls(posts: readonly Post[], config: SiteConfig): Map<string, string> {
+  const urlMap = new Map<string, string>();
+  if (!config.permalink && !posts.some((post) => post.permalink)) {
+    return urlMap;
+  }
+
+  for (const post of posts) {
+    const pattern = post.permalink ?? config.permalink ?? PERMALINK.DEFAULT_PATTERN;
+    const url = formatPermalink(pattern, post, config.timezone);
+    if (url !== post.url) {
+      urlMap.set(post.url, url);
+    }
+  }
+
+  return urlMap;
+}
+
+/**
+ * Fail the build when two posts, pages or aliases resolve to the same URL,
+ * since the later output file would silently overwrite the earlier one
+ * @param posts - Posts with their final URLs
+ * @param pages - Standalone pages
+ */
+function assertUniqueUrls(posts: readonly Post[], pages: readonly Page[]): void {
+  const owners = new Map<string, string>();
+  const claim = (url: string, owner: string): void => {
+    const existing = owners.get(url);
+    if (existing !== undefined) {
+      throw new Error(
+        `Build error: ${url} is produced by both ${existing} and ${owner}.\n` +
+          `Change a permalink or alias so that every URL is unique.`,
+      );
+    }
+    owners.set(url, owner);
+  };
+  const describe = (item: Post | Page): string =>
+    item.sourcePath ? path.relative(process.cwd(), item.sourcePath) : `"${item.title}"`;
+
+  for (const page of pages) claim(page.url, describe(page));
+  for (const post of posts) claim(post.url, describe(post));
+  for (const post of posts) {
+    for (const alias of post.aliases ?? []) {
+      if (alias !== post.url) claim(alias, `an alias in ${describe(post)}`);
+    }
+  }
+}
+
+export function groupPostsByYear(
+  posts: readonly Post[],
+  timeZone?: string,
+): Record<string, Post[]> {
   const postsByYear: Record<string, Post[]> = {};
 
   for (const post of posts) {
-    const year = getPacificYear(post.date).toString();
+    const year = getSiteYear(post.date, timeZone).toString();
     if (!postsByYear[year]) postsByYear[year] = [];
     postsByYear[year].push(post);
   }
 
   return postsByYear;
 }
+
+/**
+ * URL slug of a series name. Names without Latin letters or digits (e.g. Japanese)
+ * slugify to nothing, so they get a stable hash of the name instead.
+ * @param name - Series name from front matter
+ */
+function getSeriesSlug(name: string): string {
+  return slugify(name, { lower: true, strict: true }) || `series-${hash(name.trim()).toString(36)}`;
+}
+
+export function groupPostsBySeries(posts: readonly Post[]): Record<string, SeriesData> {
+  const seriesBySlug: Record<string, SeriesData> = {};
+
+  for (const post of posts) {
+    if (!post.series) continue;
+
+    const slug = getSeriesSlug(post.series.name);
+    if (!seriesBySlug[slug]) {
+      seriesBySlug[slug] = { name: post.series.name, slug, posts: [] };
+    }
+    seriesBySlug[slug].posts.push(post);
+  }
+
+  // Explicit order first, then parts without an order by publication date
+  for (const series of Object.values(seriesBySlug)) {
+    series.posts.sort(
+      (a, b) =>
+        (a.series?.order ?? Number.POSITIVE_INFINITY) -
+          (b.series?.order ?? Number.POSITIVE_INFINITY) ||
+        new Date(a.date).getTime() - new Date(b.date).getTime() ||
+        a.url.localeCompare(b.url),
+    );
+  }
+
+  return seriesBySlug;
+}
+
+/**
+ * Group posts into series and give each part its position and prev/next links.
+ * Posts are owned by createSiteModel, so their series data is replaced in place.
+ */
+function linkSeriesParts(posts: Post[]): Record<string, SeriesData> {
+  const seriesBySlug = groupPostsBySeries(posts);
+
+  for (const series of Object.values(seriesBySlug)) {
+    series.posts.forEach((post, index) => {
+      const prev = series.posts[index - 1];
+      const next = series.posts[index + 1];
+      post.series = {
+        name: series.name,
+        ...(post.series?.order !== undefined && { order: post.series.order }),
+        slug: series.slug,
+        part: index + 1,
+        total: series.posts.length,
+        ...(prev && { prev: { title: prev.title, url: prev.url } }),
+        ...(next && { next: { title: next.title, url: next.url } }),
+      };
+    });
+  }
+
+  return seriesBySlug;
+}
@@ -1,3 +1,6 @@
+import type { Marked } from "marked";
+import type nunjucks from "nunjucks";
+
 /**
  * Post object representing a single markdown file
  */
@@ -41,6 +44,9 @@ export interface FrontmatterBusiness {
 
 export type FrontmatterBusinessInput = FrontmatterBusiness | FrontmatterBusiness[];
 
+/** Series membership: a series name, or a name with an explicit part order */
+export type FrontmatterSeriesInput = string | { name: string; order?: number };
+
 export interface Frontmatter {
   title?: string;
   date?: string;
@@ -50,6 +56,30 @@ export interface Frontmatter {
   category?: string;
   location?: FrontmatterLocation;
   business?: FrontmatterBusinessInput;
+  draft?: boolean;
+  series?: FrontmatterSeriesInput;
+  /** Custom URL for a page or post (e.g., "/now/" or "/{year}/{month}/old-slug/") */
+  permalink?: string;
+  /** Old URLs that should redirect to this post (e.g., ["/2019/old-slug/"]) */
+  aliases?: string[];
+  /** Set to false to leave the table of contents off this post */
+  toc?: boolean;
+  /** Set to true when the content uses math, so templates can include the KaTeX stylesheet */
+  math?: boolean;
+}
+
+/**
+ * Table of contents entry for an h2–h4 heading
+ */
+export interface TocEntry {
+  /** Heading id, usable as a #fragment */
+  id: string;
+  /** Plain heading text */
+  text: string;
+  /** Heading level (2–4) */
+  level: number;
+  /** Deeper headings that follow this one */
+  children: TocEntry[];
 }
 
 export interface Location {
@@ -123,8 +153,99 @@ export interface Post {
   wordCount?: number;
   /** Cached JSON-LD structured data (pre-generated during initialization) */
   jsonLd?: string;
+  /** True when frontmatter sets `draft: true` (only built with --drafts) */
+  draft?: boolean;
+  /** True when the post date is after the build time (only built with --future) */
+  future?: boolean;
+  /** Most similar posts by shared tags, category and business proximity (computed in createSiteModel) */
+  relatedPosts?: RelatedPost[];
+  /** Optional multi-part series membership and navigation */
+  series?: PostSeries;
+  /** Per-post permalink override from frontmatter (may use the same tokens as config.permalink) */
+  permalink?: string;
+  /** Old URLs that redirect to this post (normalized, from `aliases` frontmatter) */
+  aliases?: string[];
+  /** Nested table of contents built from h2–h4 headings (omitted when empty or `toc: false`) */
+  toc?: TocEntry[];
+  /** True when frontmatter sets `math: true` */
+  math?: boolean;
+  /** Markdown file the post was parsed from (used in build error messages) */
+  sourcePath?: string;
+}
+
+/**
+ * Redirect from an old URL to its current location
+ */
+export interface Redirect {
+  /** Site-relative source URL (e.g., /2019/old-slug/) */
+  from: string;
+  /** Site-relative target URL */
+  to: string;
+}
+
+/**
+ * Standalone markdown page from the pages/ collection (about, colophon, now, ...).
+ * Pages have custom permalinks and never appear in indexes, tags, feeds or year archives.
+ */
+export interface Page {
+  /** Page title */
+  title: string;
+  /** Slug derived from the file name */
+  slug: string;
+  /** Site-relative URL, from the `permalink` frontmatter or the file path (e.g., /about/) */
+  url: string;
+  /** Raw markdown content */
+  content: string;
+  /** Rendered HTML content */
+  html: string;
+  /** Description from the `excerpt` frontmatter or the first paragraph */
+  excerpt: string;
+  /** Optional short title for the SEO title tag */
+  seoTitle?: string;
+  /** Optional date (ISO format), used as the sitemap lastmod */
+  date?: string;
+  /** True when frontmatter sets `draft: true` (only built with --drafts) */
+  draft?: boolean;
+  /** True when frontmatter sets `math: true` */
+  math?: boolean;
+  /** Markdown file the page was parsed from (used in build error messages) */
+  sourcePath?: string;
+}
+
+/**
+ * Link to another part of a series
+ */
+export interface SeriesLink {
+  title: string;
+  url: string;
 }
 
+/**
+ * A post's place in a multi-part series.
+ * `name` and `order` come from frontmatter; the remaining fields are set by createSiteModel.
+ */
+export interface PostSeries {
+  /** Series name */
+  name: string;
+  /** Explicit part order from frontmatter (parts without one follow, by date) */
+  order?: number;
+  /** URL-friendly series slug */
+  slug?: string;
+  /** 1-based part number ("part N of M") */
+  part?: number;
+  /** Total number of parts ("part N of M") */
+  total?: number;
+  /** Previous part, if any */
+  prev?: SeriesLink;
+  /** Next part, if any */
+  next?: SeriesLink;
+}
+
+/**
+ * Summary of a related post. Holds no back-references, so posts never form cycles.
+ */
+export type RelatedPost = Pick<Post, "title" | "url" | "date" | "excerpt" | "tags" | "image">;
+
 /**
  * Configuration for CSS processing
  */
@@ -173,6 +294,12 @@ export interface SiteConfig {
   contentDir?: string;
   /** Optional templates directory override */
   templatesDir?: string;
+  /** Optional standalone pages directory override (default: pages/ in the project root) */
+  pagesDir?: string;
+  /** IANA timezone for post URLs, year archives, feed dates and the date filter (default: America/Los_Angeles) */
+  timezone?: string;
+  /** Post URL pattern using {year}, {month}, {day}, {slug} and {category} (default: /{year}/{slug}/) */
+  permalink?: string;
   /** Optional public URL for the bucket */
   publicUrl?: string;
   /** Optional S3 client configuration (accessKeyId, secretAccessKey, bucket, etc.) */
@@ -183,6 +310,8 @@ export interface SiteConfig {
   cdn?: CDNConfig;
   /** Optional number of tags to display on homepage (sorted by count). If not set, all tags are shown */
   maxTagsOnHomepage?: number;
+  /** Number of related posts attached to each post (default: 3, 0 disables) */
+  relatedPostsCount?: number;
   /** Optional list of domains to exclude from nofollow attribute. Links to these domains will have follow attribute. */
   noFollowExceptions?: string[];
   /** RSS feed language code (default: en-US) */
@@ -204,6 +333,24 @@ export interface SiteConfig {
    * When set, `bunki images:push --content-assets` uses this config for uploads.
    */
   contentAssets?: ContentAssetsConfig;
+  /** Feeds to generate (site and tag RSS are on by default; Atom, JSON Feed and year feeds are opt-in) */
+  feeds?: FeedsConfig;
+  /** Client-side search configuration. When enabled, search.json and /search/ are generated. */
+  search?: SearchConfig;
+  /** Responsive image pipeline for content/{year}/{assetsDir}/ images */
+  images?: ImagesConfig;
+  /** Target bucket, key prefix and Cache-Control rules for `bunki deploy` */
+  deploy?: DeployConfig;
+  /** Markdown shortcode settings */
+  shortcodes?: ShortcodesConfig;
+  /** Append a "#" link to h2–h4 headings so readers can copy section links (default: false) */
+  headingAnchors?: boolean;
+  /** Code block languages and line numbers */
+  highlight?: HighlightConfig;
+  /** Build plugins, run in array order */
+  plugins?: BunkiPlugin[];
+  /** Output size and build time limits; exceeding one fails the build */
+  budgets?: BudgetsConfig;
   /** Resolved site metadata used by loaders and generators */
   site?: {
     title: string;
@@ -219,14 +366,32 @@ export interface SiteConfig {
 export interface GeneratorOptions {
   /** Project root used for config, cache, and project-relative assets */
   rootDir?: string;
+  /** Config file the site was loaded from; incremental builds rebuild fully when it changes (default: {rootDir}/bunki.config.ts) */
+  configPath?: string;
   /** Directory containing markdown content */
   contentDir: string;
   /** Directory where generated files will be output */
   outputDir: string;
   /** Directory containing template files */
   templatesDir: string;
+  /** Directory containing standalone markdown pages (default: config.pagesDir or {rootDir}/pages) */
+  pagesDir?: string;
   /** Site configuration */
   config: SiteConfig;
+  /** Reload templates from disk on every rebuild (used by `bunki serve --watch`) */
+  watch?: boolean;
+  /** Include posts marked `draft: true` */
+  includeDrafts?: boolean;
+  /** Include posts dated in the future */
+  includeFuture?: boolean;
+  /** Delete output files the previous build produced and this one no longer does (default: true) */
+  clean?: boolean;
+  /** List stale output files instead of deleting them */
+  cleanDryRun?: boolean;
+  /** Worker threads rendering post pages (default: 1, the main thread) */
+  concurrency?: number;
+  /** Write a JSON build report (metrics, output files, parse errors, budgets) to this path */
+  reportPath?: string;
 }
 
 /**
@@ -245,6 +410,18 @@ export interface TagData {
   description?: string;
 }
 
+/**
+ * Data structure for a multi-part series
+ */
+export interface SeriesData {
+  /** Series name */
+  name: string;
+  /** URL-friendly slug (series page lives at /series/{slug}/) */
+  slug: string;
+  /** Parts in reading order */
+  posts: Post[];
+}
+
 /**
  * Pagination information for archives and tag pages
  */
@@ -281,13 +458,17 @@ export interface Site {
   tags: Record<string, TagData>;
   /** Posts grouped by year for efficient year archive generation */
   postsByYear: Record<string, Post[]>;
+  /** Multi-part series keyed by slug */
+  series: Record<string, SeriesData>;
+  /** Standalone pages from the pages/ collection */
+  pages: Page[];
 }
 
 /**
  * Interface for uploaders (different services can implement this)
  */
 export interface Uploader {
-  upload(sourcePath: string, config: SiteConfig): Promise<void>;
+  upload(sourcePath: string, config: SiteConfig, options?: DeployOptions): Promise<DeployResult>;
 }
 
 /**
@@ -343,6 +524,201 @@ export interface ContentAssetsConfig {
   s3?: S3Config;
 }
 
+/**
+ * Configuration for `bunki deploy`
+ */
+export interface DeployConfig {
+  /** Bucket to deploy the built site to (defaults to the top-level s3 config) */
+  s3?: S3Config;
+  /** Key prefix inside the bucket (default: bucket root) */
+  prefix?: string;
+  /**
+   * Cache-Control header per glob, matched against the path inside the output directory.
+   * The first matching glob wins; unmatched files get "public, max-age=0, must-revalidate".
+   */
+  cacheControl?: Record<string, string>;
+}
+
+/**
+ * Options for a single deploy run
+ */
+export interface DeployOptions {
+  /** Delete remote objects under the prefix that no longer exist locally */
+  delete?: boolean;
+  /** Report what would change without uploading, deleting or saving the manifest */
+  dryRun?: boolean;
+  /** Manifest path (default: .bunki-deploy.json in the working directory) */
+  manifestPath?: string;
+}
+
+/**
+ * Outcome of a deploy run
+ */
+export interface DeployResult {
+  /** Keys uploaded because they are new or changed */
+  uploaded: string[];
+  /** Number of objects skipped because the manifest shows them unchanged */
+  skipped: number;
+  /** Remote keys deleted because they no longer exist locally */
+  deleted: string[];
+}
+
+/**
+ * An HTML page about to be written to the output directory
+ */
+export interface RenderedPage {
+  /** Output path relative to the output directory (e.g. "2025/hello/index.html") */
+  path: string;
+  /** Rendered HTML */
+  html: string;
+}
+
+/**
+ * Context passed to onBuildComplete
+ */
+export interface BuildCompleteContext {
+  /** Final site model */
+  site: Site;
+  /** Resolved site configuration */
+  config: SiteConfig;
+  /** Output directory */
+  outputDir: string;
+}
+
+/**
+ * A build plugin registered through config.plugins.
+ * Hooks run in this order, and plugins run in array order within each hook:
+ * onConfig, extendTemplateEngine, extendMarked, onPostParsed, onSiteModel,
+ * onPageRendered, onBuildComplete. Transform hooks may return a replacement
+ * value or nothing to keep the current one.
+ */
+export interface BunkiPlugin {
+  /** Plugin name, used in error messages */
+  name: string;
+  /** Adjust the site configuration before the build starts */
+  onConfig?(config: SiteConfig): SiteConfig | undefined | Promise<SiteConfig | undefined>;
+  /** Add filters and globals to the Nunjucks environment */
+  extendTemplateEngine?(env: nunjucks.Environment): void;
+  /** Add extensions to each Marked instance used to render markdown */
+  extendMarked?(marked: Marked): void;
+  /** Adjust a post after it is parsed and before drafts are filtered */
+  onPostParsed?(post: Post, config: SiteConfig): Post | undefined | Promise<Post | undefined>;
+  /** Adjust the site model before pages are generated */
+  onSiteModel?(site: Site, config: SiteConfig): Site | undefined | Promise<Site | undefined>;
+  /** Rewrite the HTML of a page before it is written */
+  onPageRendered?(page: RenderedPage): string | undefined | Promise<string | undefined>;
+  /** Run after every file has been written */
+  onBuildComplete?(context: BuildCompleteContext): void | Promise<void>;
+}
+
+/**
+ * Syntax highlighting settings for code blocks
+ */
+export interface HighlightConfig {
+  /** highlight.js language names to highlight; code in other languages is left as plain text */
+  languages?: string[];
+  /** Number the lines of every code block (default: false, or per block with `showLineNumbers`) */
+  lineNumbers?: boolean;
+}
+
+/**
+ * Build budgets, checked after every build (sizes in bytes, times in milliseconds)
+ */
+export interface BudgetsConfig {
+  /** Combined size of every file the build outputs */
+  maxTotalSize?: number;
+  /** Size of each HTML page */
+  maxPageSize?: number;
+  /** Total build time */
+  maxBuildTime?: number;
+  /** Size of each CSS file */
+  maxCssSize?: number;
+}
+
+/**
+ * Markdown shortcode settings
+ */
+export interface ShortcodesConfig {
+  /** Extra iframe hosts shortcode templates may embed (YouTube and Google Maps are always allowed) */
+  iframeHosts?: string[];
+}
+
+/**
+ * Feed formats to generate alongside the site
+ */
+export interface FeedsConfig {
+  /** RSS 2.0 at /feed.xml (default: true) */
+  rss?: boolean;
+  /** Atom 1.0 at /atom.xml (default: false) */
+  atom?: boolean;
+  /** JSON Feed 1.1 at /feed.json (default: false) */
+  json?: boolean;
+  /** RSS 2.0 per tag at /tags/{slug}/feed.xml (default: true) */
+  tags?: boolean;
+  /** RSS 2.0 per year archive at /{year}/feed.xml (default: false) */
+  years?: boolean;
+}
+
+/**
+ * Configuration for the client-side search index and page
+ */
+export interface SearchConfig {
+  /** Generate search.json, render search.njk, and (with search.njk) advertise SearchAction in JSON-LD */
+  enabled: boolean;
+}
+
+/**
+ * Modern image formats the responsive image pipeline can emit
+ */
+export type ModernImageFormat = "avif" | "webp";
+
+/**
+ * Configuration for the responsive image pipeline
+ */
+export interface ImagesConfig {
+  /** Generate variants for content/{year}/{assetsDir}/ images and render them as <picture> */
+  enabled: boolean;
+  /** Variant widths in pixels (default: 480, 960, 1440). Widths at or above the source are skipped. */
+  widths?: number[];
+  /** Modern formats to generate (default: avif, webp). Formats without an encoder are skipped. */
+  formats?: ModernImageFormat[];
+  /** Encoder quality from 1 to 100 (default: 75) */
+  quality?: number;
+  /** sizes attribute for the generated srcset (default: "(max-width: 768px) 100vw, 768px") */
+  sizes?: string;
+}
+
+/**
+ * A single generated image file
+ */
+export interface ImageVariant {
+  /** File name, served from /{year}/ locally or through cdn.pathPattern */
+  filename: string;
+  /** Width in pixels */
+  width: number;
+  /** Height in pixels */
+  height: number;
+}
+
+/**
+ * Intrinsic size and generated variants of a content image
+ */
+export interface ResponsiveImage {
+  /** Intrinsic width of the original */
+  width: number;
+  /** Intrinsic height of the original */
+  height: number;
+  /** Resized copies in the original format, smallest first, ending with the original */
+  fallback: ImageVariant[];
+  /** Modern format variants, smallest first, in <source> preference order */
+  sources: Partial<Record<ModernImageFormat, ImageVariant[]>>;
+}
+
+/**
+ * Responsive images keyed by "{year}/{filename}", the same key the original is uploaded under
+ */
+export type ImageManifest = Record<string, ResponsiveImage>;
+
 /**
  * Options for image upload
  */
@@ -15,7 +15,9 @@ export interface CacheEntry {
   mtime: number;
   /** Cached parsed post data */
   post?: Post;
-  /** Generated output files */
+  /** Hash of the post as rendered (site model data, including related posts and series links) */
+  pageHash?: string;
+  /** Output files the post contributes to (its page, listings and feeds) */
   outputs?: string[];
 }
 
@@ -26,11 +28,15 @@ export interface BuildCache {
   files: Record<string, CacheEntry>;
   /** Config file hash */
   configHash?: string;
+  /** Hash of post order, tags, years and series at the last build */
+  siteHash?: string;
+  /** Data hash of each standalone page, by output path */
+  pages?: Record<string, string>;
   /** Last full build timestamp */
   lastFullBuild?: number;
 }
 
-const CACHE_VERSION = "2.0.0";
+const CACHE_VERSION = "2.8.0";
 const CACHE_FILENAME = ".bunki-cache.json";
 
 /**
@@ -131,23 +137,28 @@ export async function hasFileChanged(filePath: string, cache: BuildCache): Promi
 
 /**
  * Update cache entry for a file
+ * The page hash and outputs from the last render are kept unless new ones are given,
+ * so an incremental build still knows which outputs a re-parsed post fed before
  */
 export async function updateCacheEntry(
   filePath: string,
   cache: BuildCache,
   options?: {
     post?: Post;
+    pageHash?: string;
     outputs?: string[];
   },
 ): Promise<void> {
   const currentHash = await hashFile(filePath);
   const currentMtime = await getFileMtime(filePath);
+  const previous = cache.files[filePath];
 
   cache.files[filePath] = {
     hash: currentHash,
     mtime: currentMtime,
     post: options?.post,
-    outputs: options?.outputs,
+    pageHash: options?.pageHash ?? previous?.pageHash,
+    outputs: options?.outputs ?? previous?.outputs,
   };
 }
 
@@ -160,11 +171,12 @@ export function removeCacheEntry(filePath: string, cache: BuildCache): void {
 
 /**
  * Check if config file has changed
+ * A missing config file hashes to "", so it is only reported once
  */
 export async function hasConfigChanged(configPath: string, cache: BuildCache): Promise<boolean> {
   const currentHash = await hashFile(configPath);
 
-  if (!cache.configHash) {
+  if (cache.configHash === undefined) {
     cache.configHash = currentHash;
     return true;
   }
@@ -0,0 +1,134 @@
+/**
+ * Build report and budgets
+ * Writes a JSON report of a build (`generate --report`) and checks the output size and
+ * build time limits from config, so CI can track and fail on regressions
+ */
+
+import path from "node:path";
+import type { BudgetsConfig } from "../types";
+import { type BuildMetrics, formatBytes } from "./build-metrics";
+import type { ParseError } from "./markdown-utils";
+
+/** Bump when the report format changes */
+export const BUILD_REPORT_VERSION = 1;
+
+/**
+ * A file the build output
+ */
+export interface OutputFile {
+  /** Path relative to the output directory */
+  path: string;
+  /** Size in bytes */
+  size: number;
+}
+
+/**
+ * A budget the build went over
+ */
+export interface BudgetViolation {
+  /** Budget that was exceeded */
+  budget: keyof BudgetsConfig;
+  /** Output file over the limit (per-file budgets only) */
+  file?: string;
+  /** Measured value, in bytes or milliseconds */
+  actual: number;
+  /** Configured limit */
+  limit: number;
+}
+
+export interface BuildReport {
+  /** Version of the report format */
+  version: number;
+  /** When the report was written (ISO 8601) */
+  generatedAt: string;
+  /** Build time, per-stage timings and output counts */
+  metrics: BuildMetrics;
+  /** Every output file with its size, sorted by path */
+  files: OutputFile[];
+  /** Markdown files that failed to parse */
+  errors: ParseError[];
+  /** Configured budgets */
+  budgets: BudgetsConfig;
+  /** Budgets this build exceeded */
+  violations: BudgetViolation[];
+}
+
+/**
+ * Measure the files a build output
+ * @param outputDir - Output directory
+ * @param files - Relative output paths
+ * @returns Existing files with their sizes, sorted by path
+ */
+export async function getOutputFiles(
+  outputDir: string,
+  files: Iterable<string>,
+): Promise<OutputFile[]> {
+  const measured: OutputFile[] = [];
+  for (const file of [...new Set(files)].sort()) {
+    const stat = await Bun.file(path.join(outputDir, file))
+      .stat()
+      .catch(() => null);
+    if (stat) {
+      measured.push({ path: file, size: stat.size });
+    }
+  }
+  return measured;
+}
+
+/**
+ * Compare a build against its budgets
+ * @param budgets - Configured limits
+ * @param metrics - Build metrics (for the build time)
+ * @param files - Output files from getOutputFiles
+ * @returns Exceeded budgets, whole-build budgets first
+ */
+export function checkBudgets(
+  budgets: BudgetsConfig,
+  metrics: BuildMetrics,
+  files: readonly OutputFile[],
+): BudgetViolation[] {
+  const violations: BudgetViolation[] = [];
+  const check = (budget: keyof BudgetsConfig, actual: number, file?: string) => {
+    const limit = budgets[budget];
+    if (limit !== undefined && actual > limit) {
+      violations.push({ budget, ...(file !== undefined && { file }), actual, limit });
+    }
+  };
+
+  check(
+    "maxTotalSize",
+    files.reduce((total, file) => total + file.size, 0),
+  );
+  check("maxBuildTime", metrics.totalTime);
+  for (const file of files) {
+    if (file.path.endsWith(".html")) check("maxPageSize", file.size, file.path);
+    if (file.path.endsWith(".css")) check("maxCssSize", file.size, file.path);
+  }
+
+  return violations;
+}
+
+/**
+ * Format exceeded budgets as "budget: [file] actual is N (P%) over the L limit" lines
+ * @param violations - Violations from checkBudgets
+ */
+export function formatBudgetViolations(violations: readonly BudgetViolation[]): string {
+  return violations
+    .map(({ budget, file, actual, limit }) => {
+      const format = (value: number) =>
+        budget === "maxBuildTime" ? `${value.toFixed(0)}ms` : formatBytes(value);
+      const percent = limit > 0 ? ` (${(((actual - limit) / limit) * 100).toFixed(1)}%)` : "";
+      const subject = file ? `${file} ` : "";
+      return `${budget}: ${subject}${format(actual)} is ${format(actual - limit)}${percent} over the ${format(limit)} limit`;
+    })
+    .join("\n");
+}
+
+/**
+ * Write a build report as JSON
+ * @param reportPath - Report file path
+ * @param report - Report contents
+ */
+export async function writeBuildReport(reportPath: string, report: BuildReport): Promise<void> {
+  await Bun.write(reportPath, `${JSON.stringify(report, null, 2)}\n`);
+}
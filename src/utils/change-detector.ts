@@ -18,12 +18,20 @@ export interface ChangeSet {
   configChanged: boolean;
   /** Whether template files changed */
   templatesChanged: boolean;
+  /** Template and fragment files that were added or modified */
+  changedTemplates: string[];
+  /** Whether the tag descriptions file (tags.toml) changed */
+  tagDescriptionsChanged: boolean;
+  /** Static files (public/, templates/assets/) that were added or modified */
+  changedAssets: string[];
   /** Whether a full rebuild is required */
   fullRebuild: boolean;
 }
 
 /**
  * Detect changes since last build
+ * Config changes and deleted posts require a full rebuild; template changes are
+ * listed so only the pages using them are re-rendered
  */
 export async function detectChanges(
   currentFiles: string[],
@@ -32,6 +40,8 @@ export async function detectChanges(
     configPath?: string;
     stylesPaths?: string[];
     templatePaths?: string[];
+    tagDescriptionsPath?: string;
+    assetPaths?: string[];
   } = {},
 ): Promise<ChangeSet> {
   const changes: ChangeSet = {
@@ -40,6 +50,9 @@ export async function detectChanges(
     stylesChanged: false,
     configChanged: false,
     templatesChanged: false,
+    changedTemplates: [],
+    tagDescriptionsChanged: false,
+    changedAssets: [],
     fullRebuild: false,
   };
 
@@ -54,14 +67,20 @@ export async function detectChanges(
   }
 
   // Check template files
-  if (options.templatePaths && options.templatePaths.length > 0) {
-    for (const templatePath of options.templatePaths) {
-      const changed = await hasFileChanged(templatePath, cache);
-      if (changed) {
-        changes.templatesChanged = true;
-        changes.fullRebuild = true;
-        return changes; // Template change = full rebuild
-      }
+  for (const templatePath of options.templatePaths ?? []) {
+    if (await hasFileChanged(templatePath, cache)) {
+      changes.changedTemplates.push(templatePath);
+    }
+  }
+  changes.templatesChanged = changes.changedTemplates.length > 0;
+
+  if (options.tagDescriptionsPath) {
+    changes.tagDescriptionsChanged = await hasFileChanged(options.tagDescriptionsPath, cache);
+  }
+
+  for (const assetPath of options.assetPaths ?? []) {
+    if (await hasFileChanged(assetPath, cache)) {
+      changes.changedAssets.push(assetPath);
     }
   }
 
@@ -2,27 +2,42 @@
  * Date utility functions for bunki
  */
 
+import { DATE } from "../constants";
+
+/**
+ * Check whether a string is a valid IANA timezone name
+ *
+ * @param timeZone - Timezone name (e.g., "Europe/Berlin")
+ * @returns True if Intl accepts the timezone
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
 /**
- * Converts a date to Pacific Time (America/Los_Angeles timezone)
+ * Converts a date to the wall-clock time of the site's timezone
  * This is used consistently across the codebase for date handling
  *
  * @param date - Date string or Date object to convert
- * @returns Date object in Pacific timezone
+ * @param timeZone - IANA timezone (default: America/Los_Angeles)
+ * @returns Date object in the site timezone
  */
-export function toPacificTime(date: string | Date): Date {
-  return new Date(
-    new Date(date).toLocaleString("en-US", {
-      timeZone: "America/Los_Angeles",
-    }),
-  );
+export function toSiteTime(date: string | Date, timeZone: string = DATE.DEFAULT_TIMEZONE): Date {
+  return new Date(new Date(date).toLocaleString("en-US", { timeZone }));
 }
 
 /**
- * Gets the year from a date in Pacific timezone
+ * Gets the year from a date in the site's timezone
  *
  * @param date - Date string or Date object
+ * @param timeZone - IANA timezone (default: America/Los_Angeles)
  * @returns Year as number
  */
-export function getPacificYear(date: string | Date): number {
-  return toPacificTime(date).getFullYear();
+export function getSiteYear(date: string | Date, timeZone: string = DATE.DEFAULT_TIMEZONE): number {
+  return toSiteTime(date, timeZone).getFullYear();
 }
@@ -0,0 +1,170 @@
+/**
+ * Deploy helpers
+ * Resolves object metadata for the built site and tracks what has been deployed
+ */
+
+import path from "node:path";
+import { Glob } from "bun";
+import { DEPLOY } from "../constants";
+import { hashFile } from "./build-cache";
+
+/**
+ * Metadata recorded for every deployed object
+ */
+export interface DeployObject {
+  /** Content hash of the local file */
+  hash: string;
+  /** Content-Type sent with the upload */
+  contentType: string;
+  /** Cache-Control sent with the upload */
+  cacheControl: string;
+}
+
+/**
+ * A local file that maps to an object in the bucket
+ */
+export interface LocalDeployObject extends DeployObject {
+  /** Absolute path of the local file */
+  filePath: string;
+}
+
+/**
+ * Shape of .bunki-deploy.json
+ */
+export interface DeployManifest {
+  /** Manifest format version */
+  version: number;
+  /** Bucket and prefix the objects were deployed to */
+  target: string;
+  /** Deployed objects keyed by object key */
+  objects: Record<string, DeployObject>;
+}
+
+export const DEPLOY_MANIFEST_VERSION = 1;
+
+/**
+ * Normalize a key prefix to "a/b" form (no leading or trailing slash)
+ * @param prefix - Configured prefix
+ * @returns Normalized prefix, or "" for the bucket root
+ */
+export function normalizePrefix(prefix?: string): string {
+  return (prefix ?? "").replace(/^\/+|\/+$/g, "");
+}
+
+/**
+ * Build the object key for a file in the output directory
+ * @param relativePath - Path inside the output directory
+ * @param prefix - Normalized key prefix
+ * @returns Object key using forward slashes
+ */
+export function toObjectKey(relativePath: string, prefix: string): string {
+  const key = relativePath.split("\\").join("/");
+  return prefix ? `${prefix}/${key}` : key;
+}
+
+/**
+ * Pick the Cache-Control header for a file
+ * @param relativePath - Path inside the output directory
+ * @param rules - Glob to Cache-Control map; the first matching glob wins
+ * @returns Cache-Control header value
+ */
+export function resolveCacheControl(relativePath: string, rules?: Record<string, string>): string {
+  for (const [pattern, value] of Object.entries(rules ?? {})) {
+    if (new Glob(pattern).match(relativePath)) {
+      return value;
+    }
+  }
+  return DEPLOY.DEFAULT_CACHE_CONTROL;
+}
+
+/**
+ * Collect every file in the output directory with the metadata it should be deployed with
+ * @param sourceDir - Built site directory
+ * @param prefix - Normalized key prefix
+ * @param cacheControl - Glob to Cache-Control map
+ * @returns Local objects keyed by object key, in sorted key order
+ */
+export async function scanDeployObjects(
+  sourceDir: string,
+  prefix: string,
+  cacheControl?: Record<string, string>,
+): Promise<Record<string, LocalDeployObject>> {
+  const relativePaths: string[] = [];
+  for await (const relativePath of new Glob("**/*").scan({ cwd: sourceDir, dot: true })) {
+    relativePaths.push(relativePath);
+  }
+  relativePaths.sort();
+
+  const objects: Record<string, LocalDeployObject> = {};
+  for (const relativePath of relativePaths) {
+    const filePath = path.join(sourceDir, relativePath);
+    objects[toObjectKey(relativePath, prefix)] = {
+      filePath,
+      hash: await hashFile(filePath),
+      contentType: Bun.file(filePath).type,
+      cacheControl: resolveCacheControl(relativePath, cacheControl),
+    };
+  }
+  return objects;
+}
+
+/**
+ * Check whether a local object matches what was last deployed
+ * @param deployed - Manifest entry, if any
+ * @param local - Local object
+ */
+export function isObjectUnchanged(
+  deployed: DeployObject | undefined,
+  local: DeployObject,
+): boolean {
+  return (
+    deployed !== undefined &&
+    deployed.hash === local.hash &&
+    deployed.contentType === local.contentType &&
+    deployed.cacheControl === local.cacheControl
+  );
+}
+
+/**
+ * Load the deploy manifest, starting fresh if it is missing, outdated or for another target
+ * @param manifestPath - Manifest file path
+ * @param target - "{bucket}/{prefix}" being deployed to
+ * @returns Deploy manifest
+ */
+export async function loadDeployManifest(
+  manifestPath: string,
+  target: string,
+): Promise<DeployManifest> {
+  const empty: DeployManifest = { version: DEPLOY_MANIFEST_VERSION, target, objects: {} };
+  const file = Bun.file(manifestPath);
+
+  try {
+    if (!(await file.exists())) {
+      return empty;
+    }
+    const manifest = (await file.json()) as DeployManifest;
+    if (manifest.version !== DEPLOY_MANIFEST_VERSION || manifest.target !== target) {
+      console.log("Deploy manifest is for another target or version, uploading everything...");
+      return empty;
+    }
+    return manifest;
+  } catch (error) {
+    console.warn("Error loading deploy manifest, uploading everything:", error);
+    return empty;
+  }
+}
+
+/**
+ * Save the deploy manifest with keys in sorted order
+ * @param manifestPath - Manifest file path
+ * @param manifest - Deploy manifest
+ */
+export async function saveDeployManifest(
+  manifestPath: string,
+  manifest: DeployManifest,
+): Promise<void> {
+  const objects = Object.fromEntries(
+    Object.entries(manifest.objects).sort(([a], [b]) => a.localeCompare(b)),
+  );
+  await Bun.write(manifestPath, JSON.stringify({ ...manifest, objects }, null, 2));
+}
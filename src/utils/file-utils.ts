@@ -284,6 +284,74 @@ export async function listDir(dirPath: string, recursive: boolean = false): Prom
   }
 }
 
+function isWithinDirectory(rootDir: string, candidate: string): boolean {
+  const root = path.resolve(rootDir);
+  const resolved = path.resolve(candidate);
+  return resolved === root || resolved.startsWith(`${root}${path.sep}`);
+}
+
+/**
+ * Find the file `bunki serve` returns for a request path.
+ * "/about/" serves about/index.html; "/about" also tries about.html and about/index.html.
+ * @param outputDir - Absolute output directory
+ * @param pathname - Request path (percent-encoded)
+ * @returns The file, or null if nothing inside outputDir matches
+ */
+export async function resolveStaticFile(
+  outputDir: string,
+  pathname: string,
+): Promise<Bun.BunFile | null> {
+  let decodedPathname: string;
+  try {
+    decodedPathname = decodeURIComponent(pathname);
+  } catch {
+    return null;
+  }
+
+  if (decodedPathname.includes("\0")) {
+    return null;
+  }
+
+  const relativePath = decodedPathname.replace(/^\/+/, "");
+  const directPath = path.resolve(outputDir, relativePath || "index.html");
+
+  if (!isWithinDirectory(outputDir, directPath)) {
+    return null;
+  }
+
+  const candidates = new Set<string>();
+  if (relativePath === "" || decodedPathname.endsWith("/")) {
+    candidates.add(path.join(directPath, relativePath === "" ? "" : "index.html"));
+  } else {
+    candidates.add(directPath);
+    if (!path.extname(relativePath)) {
+      candidates.add(`${directPath}.html`);
+      candidates.add(path.join(directPath, "index.html"));
+    }
+  }
+
+  // Root resolves to outputDir/index.html rather than outputDir itself.
+  if (relativePath === "") {
+    candidates.clear();
+    candidates.add(path.join(outputDir, "index.html"));
+  }
+
+  for (const candidate of candidates) {
+    if (!isWithinDirectory(outputDir, candidate)) {
+      continue;
+    }
+    const file = Bun.file(candidate);
+    if (await file.exists()) {
+      const stat = await file.stat();
+      if (stat?.isFile()) {
+        return file;
+      }
+    }
+  }
+
+  return null;
+}
+
 /**
  * Create a buffered file writer for incremental writes
  *
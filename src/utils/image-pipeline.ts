@@ -0,0 +1,224 @@
+/**
+ * Responsive image pipeline
+ * Generates resized and modern-format variants for content/{year}/{assetsDir}/ images
+ */
+
+import path from "node:path";
+import { Glob } from "bun";
+import { IMAGES } from "../constants";
+import type {
+  ImageManifest,
+  ImageVariant,
+  ModernImageFormat,
+  ResponsiveImage,
+  SiteConfig,
+} from "../types";
+import { ensureDir, getFileMtime, isDirectory } from "./file-utils";
+
+type EncodeFormat = ModernImageFormat | "jpeg" | "png";
+
+/**
+ * Build the file name of a resized variant
+ * @param filename - Original file name (e.g. "photo.jpg")
+ * @param width - Variant width in pixels
+ * @param extension - Variant extension without the dot
+ * @returns Variant file name (e.g. "photo-480w.webp")
+ */
+export function getVariantFilename(filename: string, width: number, extension: string): string {
+  const stem = filename.slice(0, filename.length - path.extname(filename).length);
+  return `${stem}-${width}w.${extension}`;
+}
+
+/**
+ * Pick the widths to generate for a source image
+ * @param sourceWidth - Intrinsic width of the original
+ * @param widths - Configured widths
+ * @returns Unique widths smaller than the source, ascending
+ */
+export function getVariantWidths(sourceWidth: number, widths: readonly number[]): number[] {
+  return [...new Set(widths)]
+    .filter((width) => Number.isInteger(width) && width > 0 && width < sourceWidth)
+    .sort((a, b) => a - b);
+}
+
+/**
+ * Map a source extension to the encoder that preserves its format
+ * @param extension - Lowercase extension including the dot
+ * @returns Encoder format for resized fallbacks
+ */
+function getFallbackFormat(extension: string): EncodeFormat {
+  if (extension === ".png") return "png";
+  if (extension === ".webp") return "webp";
+  return "jpeg";
+}
+
+/**
+ * Resize and encode one variant, skipping the work when the target is newer than the source
+ * @param sourcePath - Original image
+ * @param targetPath - Variant destination
+ * @param variant - Target dimensions
+ * @param format - Output format
+ * @param quality - Encoder quality
+ */
+async function writeVariant(
+  sourcePath: string,
+  targetPath: string,
+  variant: ImageVariant,
+  format: EncodeFormat,
+  quality: number,
+): Promise<void> {
+  const sourceMtime = await getFileMtime(sourcePath);
+  const targetMtime = await getFileMtime(targetPath);
+  if (sourceMtime !== null && targetMtime !== null && targetMtime >= sourceMtime) {
+    return;
+  }
+
+  const image = new Bun.Image(sourcePath).resize(variant.width, variant.height);
+  switch (format) {
+    case "avif":
+      image.avif({ quality });
+      break;
+    case "webp":
+      image.webp({ quality });
+      break;
+    case "png":
+      image.png();
+      break;
+    default:
+      image.jpeg({ quality });
+  }
+  await image.write(targetPath);
+}
+
+/**
+ * Check whether an encoder failure means the format is not available on this platform
+ * @param error - Error thrown by Bun.Image
+ */
+function isUnsupportedFormat(error: unknown): boolean {
+  return (error as { code?: string } | null)?.code === "ERR_IMAGE_FORMAT_UNSUPPORTED";
+}
+
+/**
+ * Generate responsive variants for every content image and describe them in a manifest.
+ * Variants are written to {outputDir}/{year}/, the same layout the originals use on the CDN.
+ * Originals are copied there as well unless the CDN serves them.
+ *
+ * @param contentDir - Content directory containing {year}/{assetsDir}/ folders
+ * @param outputDir - Output directory
+ * @param config - Site configuration
+ * @returns Manifest keyed by "{year}/{filename}"
+ */
+export async function processContentImages(
+  contentDir: string,
+  outputDir: string,
+  config: SiteConfig,
+): Promise<ImageManifest> {
+  const manifest: ImageManifest = {};
+  if (!(await isDirectory(contentDir))) {
+    return manifest;
+  }
+
+  const assetsDir = config.contentAssets?.assetsDir || "_assets";
+  const widths = config.images?.widths ?? IMAGES.DEFAULT_WIDTHS;
+  const formats = config.images?.formats ?? IMAGES.DEFAULT_FORMATS;
+  const quality = config.images?.quality ?? IMAGES.DEFAULT_QUALITY;
+  const copyOriginals = !config.cdn?.enabled;
+  const unsupported = new Set<ModernImageFormat>();
+  const extensions: readonly string[] = IMAGES.EXTENSIONS;
+
+  const sourcePaths: string[] = [];
+  const glob = new Glob(`*/${assetsDir}/*`);
+  for await (const filePath of glob.scan({ cwd: contentDir, absolute: true })) {
+    const year = path.basename(path.dirname(path.dirname(filePath)));
+    if (/^\d{4}$/.test(year) && extensions.includes(path.extname(filePath).toLowerCase())) {
+      sourcePaths.push(filePath);
+    }
+  }
+  // Stable order keeps warnings and the manifest deterministic across builds
+  sourcePaths.sort();
+
+  for (const sourcePath of sourcePaths) {
+    const filename = path.basename(sourcePath);
+    const year = path.basename(path.dirname(path.dirname(sourcePath)));
+    const targetDir = path.join(outputDir, year);
+
+    let metadata: { width: number; height: number };
+    try {
+      metadata = await new Bun.Image(sourcePath).metadata();
+    } catch (error) {
+      console.warn(`Skipping responsive variants for ${year}/${filename}:`, error);
+      continue;
+    }
+
+    await ensureDir(targetDir);
+    const heightAt = (width: number) =>
+      Math.max(1, Math.round((metadata.height * width) / metadata.width));
+
+    const extension = path.extname(filename).toLowerCase();
+    const fallback: ImageVariant[] = [];
+    for (const width of getVariantWidths(metadata.width, widths)) {
+      const variant = {
+        filename: getVariantFilename(filename, width, extension.slice(1)),
+        width,
+        height: heightAt(width),
+      };
+      await writeVariant(
+        sourcePath,
+        path.join(targetDir, variant.filename),
+        variant,
+        getFallbackFormat(extension),
+        quality,
+      );
+      fallback.push(variant);
+    }
+    fallback.push({ filename, width: metadata.width, height: metadata.height });
+
+    if (copyOriginals) {
+      const targetPath = path.join(targetDir, filename);
+      const targetMtime = await getFileMtime(targetPath);
+      const sourceMtime = await getFileMtime(sourcePath);
+      if (targetMtime === null || (sourceMtime !== null && targetMtime < sourceMtime)) {
+        await Bun.write(targetPath, Bun.file(sourcePath));
+      }
+    }
+
+    const sources: ResponsiveImage["sources"] = {};
+    for (const format of formats) {
+      if (unsupported.has(format)) continue;
+
+      const variants: ImageVariant[] = [];
+      try {
+        for (const width of [...getVariantWidths(metadata.width, widths), metadata.width]) {
+          const variant = {
+            filename: getVariantFilename(filename, width, format),
+            width,
+            height: heightAt(width),
+          };
+          await writeVariant(
+            sourcePath,
+            path.join(targetDir, variant.filename),
+            variant,
+            format,
+            quality,
+          );
+          variants.push(variant);
+        }
+      } catch (error) {
+        if (!isUnsupportedFormat(error)) throw error;
+        console.warn(`${format.toUpperCase()} encoding is not available here; skipping ${format}.`);
+        unsupported.add(format);
+        continue;
+      }
+      sources[format] = variants;
+    }
+
+    manifest[`${year}/${filename}`] = {
+      width: metadata.width,
+      height: metadata.height,
+      fallback,
+      sources,
+    };
+  }
+
+  return manifest;
+}
@@ -58,6 +58,8 @@ export interface BlogPostingOptions {
 export interface WebSiteOptions {
   /** Site configuration */
   site: SiteConfig;
+  /** Whether the site has a search.njk template, so /search/ is rendered when search is enabled */
+  hasSearchPage?: boolean;
 }
 
 /**
@@ -233,7 +235,7 @@ export function generateBlogPostingSchema(options: BlogPostingOptions): SchemaOr
  * @see https://schema.org/WebSite
  */
 export function generateWebSiteSchema(options: WebSiteOptions): SchemaOrgThing {
-  const { site } = options;
+  const { site, hasSearchPage = false } = options;
 
   const webSite: SchemaOrgThing = {
     "@context": "https://schema.org",
@@ -246,16 +248,17 @@ export function generateWebSiteSchema(options: WebSiteOptions): SchemaOrgThing {
     webSite.description = site.description;
   }
 
-  // Add potential action for search functionality if applicable
-  // This can be customized if the site has a search feature
-  webSite.potentialAction = {
-    "@type": "SearchAction",
-    target: {
-      "@type": "EntryPoint",
-      urlTemplate: `${site.baseUrl}/search?q={search_term_string}`,
-    },
-    "query-input": "required name=search_term_string",
-  };
+  // Only advertise site search when the search page is actually generated
+  if (site.search?.enabled && hasSearchPage) {
+    webSite.potentialAction = {
+      "@type": "SearchAction",
+      target: {
+        "@type": "EntryPoint",
+        urlTemplate: `${site.baseUrl}/search/?q={search_term_string}`,
+      },
+      "query-input": "required name=search_term_string",
+    };
+  }
 
   return webSite;
 }
@@ -0,0 +1,186 @@
+/**
+ * Broken link checker
+ * Crawls the generated HTML and checks that internal href, src and srcset targets
+ * resolve to files the way `bunki serve` would serve them
+ */
+
+import path from "node:path";
+import { findFilesByPattern, resolveStaticFile } from "./file-utils";
+import { matchRedirect, parseRedirectsFile, type RedirectRule } from "./redirects";
+
+/** Opening tags; escaped markup in code samples has no literal "<" and is skipped */
+const TAG_REGEX = /<[a-z][^>]*>/gi;
+/** Attributes that point at other files */
+const LINK_ATTRIBUTE_REGEX = /\s(href|src|srcset)\s*=\s*(?:"([^"]*)"|'([^']*)')/gi;
+/** Schemes and prefixes that are never checked */
+const EXTERNAL_URL_REGEX = /^(?:[a-z][a-z\d+.-]*:|\/\/|#)/i;
+/** Base used to resolve relative URLs against a page path */
+const LOCAL_ORIGIN = "http://bunki.local";
+
+/**
+ * An internal link whose target does not exist
+ */
+export interface BrokenLink {
+  /** HTML file containing the link, relative to the output directory */
+  file: string;
+  /** 1-based line of the attribute */
+  line: number;
+  /** Attribute value as written */
+  url: string;
+}
+
+export interface CheckLinksOptions {
+  /** Site base URL; absolute links to it are checked like site-relative ones */
+  baseUrl?: string;
+}
+
+/**
+ * URL path of an HTML file, used to resolve relative links in it
+ * @param relativeFile - File path relative to the output directory
+ */
+function getPagePath(relativeFile: string): string {
+  return `/${relativeFile.split(path.sep).join("/")}`;
+}
+
+/**
+ * Decode the entities that appear in attribute values written by templates
+ * @param value - Raw attribute value
+ */
+function decodeAttribute(value: string): string {
+  return value
+    .replace(/&amp;/g, "&")
+    .replace(/&quot;/g, '"')
+    .replace(/&#0?39;|&apos;/g, "'");
+}
+
+/**
+ * Turn a link into a site path, or null if it points somewhere else
+ * @param url - Decoded attribute value
+ * @param pagePath - URL path of the page containing the link
+ * @param siteOrigin - Origin (and path prefix) of the site's base URL
+ */
+function toSitePath(url: string, pagePath: string, siteOrigin: URL | null): string | null {
+  const trimmed = url.trim();
+  if (trimmed === "") {
+    return null;
+  }
+
+  if (siteOrigin && trimmed.startsWith(siteOrigin.origin)) {
+    const target = new URL(trimmed);
+    const prefix = siteOrigin.pathname.replace(/\/$/, "");
+    if (target.origin !== siteOrigin.origin || !target.pathname.startsWith(`${prefix}/`)) {
+      return null;
+    }
+    return target.pathname.slice(prefix.length);
+  }
+
+  if (EXTERNAL_URL_REGEX.test(trimmed)) {
+    return null;
+  }
+
+  try {
+    return new URL(trimmed, `${LOCAL_ORIGIN}${pagePath}`).pathname;
+  } catch {
+    return trimmed;
+  }
+}
+
+/**
+ * Split an attribute into the URLs it contains (srcset lists several)
+ * @param name - Attribute name
+ * @param value - Decoded attribute value
+ */
+function getAttributeUrls(name: string, value: string): string[] {
+  if (name.toLowerCase() !== "srcset") {
+    return [value];
+  }
+  // A candidate's URL runs to the next whitespace, so commas inside it (the payload of
+  // a data: URI) do not split it; descriptors after the URL run to the next comma
+  const urls: string[] = [];
+  let rest = value;
+  while (true) {
+    rest = rest.replace(/^[\s,]+/, "");
+    const url = rest.match(/^\S+/)?.[0];
+    if (!url) break;
+    rest = rest.slice(url.length);
+    if (url.endsWith(",")) {
+      urls.push(url.replace(/,+$/, ""));
+      continue;
+    }
+    urls.push(url);
+    const comma = rest.indexOf(",");
+    rest = comma === -1 ? "" : rest.slice(comma + 1);
+  }
+  return urls;
+}
+
+/**
+ * Check every internal link in the generated site
+ * @param outputDir - Output directory to crawl
+ * @param options - Site base URL
+ * @returns Broken links sorted by file and line
+ */
+export async function checkLinks(
+  outputDir: string,
+  options: CheckLinksOptions = {},
+): Promise<BrokenLink[]> {
+  const rootDir = path.resolve(outputDir);
+  const siteOrigin = options.baseUrl ? new URL(options.baseUrl) : null;
+
+  let redirects: Map<string, RedirectRule> = new Map();
+  const redirectsFile = Bun.file(path.join(rootDir, "_redirects"));
+  if (await redirectsFile.exists()) {
+    redirects = parseRedirectsFile(await redirectsFile.text());
+  }
+
+  // Many pages share the same header and footer links
+  const resolved = new Map<string, boolean>();
+  const exists = async (sitePath: string): Promise<boolean> => {
+    let found = resolved.get(sitePath);
+    if (found === undefined) {
+      found =
+        matchRedirect(redirects, sitePath) !== null ||
+        (await resolveStaticFile(rootDir, sitePath)) !== null;
+      resolved.set(sitePath, found);
+    }
+    return found;
+  };
+
+  const files = (await findFilesByPattern("**/*.html", rootDir, false)).sort();
+  const broken: BrokenLink[] = [];
+
+  for (const file of files) {
+    const html = await Bun.file(path.join(rootDir, file)).text();
+    const pagePath = getPagePath(file);
+    let line = 1;
+    let counted = 0;
+
+    for (const tag of html.matchAll(TAG_REGEX)) {
+      for (const attribute of tag[0].matchAll(LINK_ATTRIBUTE_REGEX)) {
+        const [, name, doubleQuoted, singleQuoted] = attribute;
+        const value = decodeAttribute(doubleQuoted ?? singleQuoted);
+
+        for (const url of getAttributeUrls(name, value)) {
+          const sitePath = toSitePath(url, pagePath, siteOrigin);
+          if (sitePath === null || (await exists(sitePath))) continue;
+
+          // Count newlines up to the attribute name (after its leading whitespace)
+          const position = tag.index + attribute.index + 1;
+          line += html.slice(counted, position).split("\n").length - 1;
+          counted = position;
+          broken.push({ file, line, url });
+        }
+      }
+    }
+  }
+
+  return broken;
+}
+
+/**
+ * Format broken links as "file:line  url" lines
+ * @param broken - Broken links from checkLinks
+ */
+export function formatBrokenLinks(broken: readonly BrokenLink[]): string {
+  return broken.map((link) => `${link.file}:${link.line}  ${link.url}`).join("\n");
+}
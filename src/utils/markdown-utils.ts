@@ -3,6 +3,7 @@
  * Re-exports from modular components for backward compatibility
  */
 
+import path from "node:path";
 import matter from "gray-matter";
 import type {
   Business,
@@ -10,27 +11,43 @@ import type {
   Frontmatter,
   FrontmatterBusiness,
   FrontmatterBusinessInput,
+  FrontmatterSeriesInput,
+  Page,
   Post,
+  PostSeries,
 } from "../types";
-import { getPacificYear, toPacificTime } from "./date-utils";
+import { getSiteYear } from "./date-utils";
 import { getBaseFilename, readFileAsText } from "./file-utils";
-import { convertMarkdownToHtml, extractExcerpt, setNoFollowExceptions } from "./markdown/parser";
+import {
+  convertMarkdownToHtml,
+  extractExcerpt,
+  renderMarkdown,
+  setNoFollowExceptions,
+} from "./markdown/parser";
 import type { ValidationError } from "./markdown/validators";
 import {
   checkDeprecatedLocationField,
+  validateAliases,
   validateBusinessLocation,
+  validateSeries,
   validateTags,
 } from "./markdown/validators";
+import { normalizePermalink, validatePermalinkPattern } from "./permalink";
 
 export type { ValidationError as ParseError };
 // Re-export for backward compatibility
-export { convertMarkdownToHtml, extractExcerpt, setNoFollowExceptions };
+export { convertMarkdownToHtml, extractExcerpt, renderMarkdown, setNoFollowExceptions };
 
 export interface ParseMarkdownResult {
   post: Post | null;
   error: ValidationError | null;
 }
 
+export interface ParsePageResult {
+  page: Page | null;
+  error: ValidationError | null;
+}
+
 interface ParsedMarkdownContent {
   data: Frontmatter;
   content: string;
@@ -95,15 +112,31 @@ function buildBusinessSchema(business: FrontmatterBusinessInput | undefined): Bu
   };
 }
 
+function buildSeries(series: FrontmatterSeriesInput | undefined): PostSeries | null {
+  if (!series) {
+    return null;
+  }
+
+  if (typeof series === "string") {
+    return { name: series.trim() };
+  }
+
+  return {
+    name: series.name.trim(),
+    ...(series.order !== undefined && { order: series.order }),
+  };
+}
+
+function resolveAssetYear(filePath: string, postYear: number): string | undefined {
+  const yearFromPath = filePath.match(/\/(\d{4})\//)?.[1];
+  return String(postYear) !== "NaN" ? String(postYear) : yearFromPath;
+}
+
 function resolveCdnConfigWithYear(
   cdnConfig: CDNConfig | undefined,
-  filePath: string,
-  postYear: number,
+  assetYear: string | undefined,
 ): CDNConfig | undefined {
-  const yearFromPath = filePath.match(/\/(\d{4})\//)?.[1];
-  const resolvedYear = String(postYear) !== "NaN" ? String(postYear) : yearFromPath;
-
-  return cdnConfig && resolvedYear ? { ...cdnConfig, postYear: resolvedYear } : undefined;
+  return cdnConfig && assetYear ? { ...cdnConfig, postYear: assetYear } : undefined;
 }
 
 function buildPost(
@@ -111,17 +144,23 @@ function buildPost(
   content: string,
   data: Frontmatter,
   cdnConfig?: CDNConfig,
+  timeZone?: string,
 ): Post {
   const slug = getBaseFilename(filePath);
-  const pacificDate = toPacificTime(data.date as string);
-  const postYear = getPacificYear(data.date as string);
-  const cdnConfigWithYear = resolveCdnConfigWithYear(cdnConfig, filePath, postYear);
-  const sanitizedHtml = convertMarkdownToHtml(content, cdnConfigWithYear);
+  // Keep the real instant; consumers convert to the site timezone when displaying or grouping
+  const postDate = new Date(data.date as string);
+  const postYear = getSiteYear(postDate, timeZone);
+  const assetYear = resolveAssetYear(filePath, postYear);
+  const cdnConfigWithYear = resolveCdnConfigWithYear(cdnConfig, assetYear);
+  const { html: sanitizedHtml, toc } = renderMarkdown(content, cdnConfigWithYear, assetYear);
   const business = buildBusinessSchema(data.business);
+  const series = buildSeries(data.series);
+  const permalink = data.permalink === undefined ? null : normalizePermalink(data.permalink);
+  const aliases = (data.aliases ?? []).map((alias) => normalizePermalink(alias) ?? alias);
 
   return {
     title: data.title as string,
-    date: pacificDate.toISOString(),
+    date: postDate.toISOString(),
     tags: data.tags || [],
     tagSlugs: {},
     content,
@@ -132,6 +171,13 @@ function buildPost(
     ...(data.seoTitle && { seoTitle: data.seoTitle }),
     ...(data.category && { category: data.category }),
     ...(business && { business }),
+    ...(data.draft === true && { draft: true }),
+    ...(series && { series }),
+    ...(permalink && { permalink }),
+    ...(aliases.length > 0 && { aliases }),
+    ...(data.toc !== false && toc.length > 0 && { toc }),
+    ...(data.math === true && { math: true }),
+    sourcePath: filePath,
   };
 }
 
@@ -162,11 +208,13 @@ function isYamlParsingError(error: unknown): { message: string; suggestion?: str
  * Parse a markdown file with frontmatter validation
  * @param filePath - Path to markdown file
  * @param cdnConfig - Optional CDN configuration
+ * @param timeZone - Site timezone for the post date and URL year (default: America/Los_Angeles)
  * @returns ParseMarkdownResult with post data or error
  */
 export async function parseMarkdownFile(
   filePath: string,
   cdnConfig?: CDNConfig,
+  timeZone?: string,
 ): Promise<ParseMarkdownResult> {
   try {
     const fileContent = await readFileAsText(filePath);
@@ -213,7 +261,29 @@ export async function parseMarkdownFile(
       }
     }
 
-    return { post: buildPost(filePath, content, data, cdnConfig), error: null };
+    const seriesError = validateSeries(data.series, filePath);
+    if (seriesError) {
+      return { post: null, error: seriesError };
+    }
+
+    const aliasesError = validateAliases(data.aliases, filePath);
+    if (aliasesError) {
+      return { post: null, error: aliasesError };
+    }
+
+    if (data.permalink !== undefined) {
+      const permalinkError = validatePermalinkPattern(data.permalink, false);
+      if (permalinkError) {
+        return createParseError(
+          filePath,
+          "validation",
+          permalinkError,
+          "Use a site-relative path such as permalink: /2015/06/old-post-name/",
+        );
+      }
+    }
+
+    return { post: buildPost(filePath, content, data, cdnConfig, timeZone), error: null };
   } catch (error: unknown) {
     const yamlParsingError = isYamlParsingError(error);
     if (yamlParsingError) {
@@ -238,3 +308,111 @@ export async function parseMarkdownFile(
     };
   }
 }
+
+/**
+ * Resolve the URL of a standalone page
+ * @param relativePath - Markdown file path relative to the pages directory
+ * @param permalink - Optional `permalink` frontmatter
+ * @returns Site-relative URL (e.g., /about/ or /legal/privacy/), or null if the permalink is invalid
+ */
+export function resolvePagePermalink(relativePath: string, permalink?: unknown): string | null {
+  if (permalink !== undefined) {
+    return normalizePermalink(permalink);
+  }
+
+  // about.md → /about/, legal/index.md and legal/README.md → /legal/
+  const withoutExtension = relativePath
+    .split(path.sep)
+    .join("/")
+    .replace(/(^|\/)(index|readme)\.md$/i, "")
+    .replace(/\.md$/i, "");
+  return withoutExtension ? `/${withoutExtension}/` : "/";
+}
+
+/**
+ * Parse a standalone page from the pages/ collection
+ * @param filePath - Path to markdown file
+ * @param pagesDir - Pages directory (permalinks default to the path within it)
+ * @param cdnConfig - Optional CDN configuration
+ * @returns ParsePageResult with page data or error
+ */
+export async function parsePageFile(
+  filePath: string,
+  pagesDir: string,
+  cdnConfig?: CDNConfig,
+): Promise<ParsePageResult> {
+  try {
+    const fileContent = await readFileAsText(filePath);
+
+    if (fileContent === null) {
+      return {
+        page: null,
+        error: {
+          file: filePath,
+          type: "file_not_found",
+          message: "File not found or couldn't be read",
+        },
+      };
+    }
+
+    const { data, content } = parseFrontmatter(fileContent);
+
+    if (!data.title) {
+      return {
+        page: null,
+        error: {
+          file: filePath,
+          type: "missing_field",
+          message: "Missing required fields: title",
+          suggestion: "Add a title to the page frontmatter",
+        },
+      };
+    }
+
+    const url = resolvePagePermalink(path.relative(pagesDir, filePath), data.permalink);
+    if (!url) {
+      return {
+        page: null,
+        error: {
+          file: filePath,
+          type: "validation",
+          message: `Invalid permalink: ${JSON.stringify(data.permalink)}`,
+          suggestion: 'Use a site-relative path starting with "/", e.g. permalink: /now/',
+        },
+      };
+    }
+
+    const page: Page = {
+      title: data.title,
+      slug: getBaseFilename(filePath),
+      url,
+      content,
+      html: convertMarkdownToHtml(content, cdnConfig),
+      excerpt: data.excerpt || extractExcerpt(content),
+      ...(data.seoTitle && { seoTitle: data.seoTitle }),
+      ...(data.date && { date: new Date(data.date).toISOString() }),
+      ...(data.draft === true && { draft: true }),
+      ...(data.math === true && { math: true }),
+      sourcePath: filePath,
+    };
+
+    return { page, error: null };
+  } catch (error: unknown) {
+    const yamlParsingError = isYamlParsingError(error);
+    return {
+      page: null,
+      error: yamlParsingError
+        ? {
+            file: filePath,
+            type: "yaml",
+            message: yamlParsingError.message,
+            suggestion: yamlParsingError.suggestion,
+          }
+        : {
+            file: filePath,
+            type: "unknown",
+            message: error instanceof Error ? error.message : String(error),
+          },
+    };
+  }
+}
@@ -0,0 +1,174 @@
+/**
+ * Definition lists and ::: containers
+ */
+
+import type { MarkedExtension, RendererThis, TokenizerThis, Tokens } from "marked";
+import { CONTAINER_REGEX } from "./constants";
+
+/** A definition line (": text") */
+const DEFINITION_LINE = /^:[ \t]+/;
+/** Continuation of a definition on the next, indented line */
+const DEFINITION_CONTINUATION = /^(?: {2,}|\t)\S/;
+/** Lines that start another block and so cannot be a term */
+const NOT_A_TERM = /^(?:[#>|]|[-*+][ \t]|\d+[.)][ \t]|```|~~~|:::)/;
+
+interface ContainerToken {
+  type: "container";
+  raw: string;
+  kind: "details" | "aside";
+  summary: Tokens.Generic[];
+  tokens: Tokens.Generic[];
+}
+
+/**
+ * Read one "terms then definitions" group of a definition list
+ * @param lines - Source lines
+ * @param start - Index of the first term line
+ * @returns Terms, definitions and the index after the group, or null if no group starts here
+ */
+function readDefinitionGroup(
+  lines: string[],
+  start: number,
+): { terms: string[]; definitions: string[]; end: number } | null {
+  const terms: string[] = [];
+  let index = start;
+  while (
+    index < lines.length &&
+    lines[index].trim() !== "" &&
+    !DEFINITION_LINE.test(lines[index]) &&
+    !NOT_A_TERM.test(lines[index])
+  ) {
+    terms.push(lines[index].trim());
+    index++;
+  }
+  if (terms.length === 0 || index >= lines.length || !DEFINITION_LINE.test(lines[index])) {
+    return null;
+  }
+
+  const definitions: string[] = [];
+  while (index < lines.length && DEFINITION_LINE.test(lines[index])) {
+    let text = lines[index].replace(DEFINITION_LINE, "");
+    index++;
+    while (index < lines.length && DEFINITION_CONTINUATION.test(lines[index])) {
+      text += `\n${lines[index].trim()}`;
+      index++;
+    }
+    definitions.push(text);
+  }
+  return { terms, definitions, end: index };
+}
+
+/**
+ * Marked extension for definition lists:
+ *
+ *     Term
+ *     : Definition
+ */
+export function markedDefinitionLists(): MarkedExtension {
+  return {
+    extensions: [
+      {
+        name: "definitionList",
+        level: "block",
+        tokenizer(this: TokenizerThis, src: string) {
+          const lines = src.split("\n");
+          const tokens: Tokens.Generic[] = [];
+          let index = 0;
+
+          let group = readDefinitionGroup(lines, index);
+          while (group) {
+            for (const term of group.terms) {
+              tokens.push({
+                type: "definitionTerm",
+                raw: term,
+                tokens: this.lexer.inlineTokens(term),
+              });
+            }
+            for (const definition of group.definitions) {
+              tokens.push({
+                type: "definitionDescription",
+                raw: definition,
+                tokens: this.lexer.inlineTokens(definition),
+              });
+            }
+
+            // Groups may be separated by blank lines; trailing blank lines belong to the list
+            index = group.end;
+            while (index < lines.length && lines[index].trim() === "") {
+              index++;
+            }
+            group = readDefinitionGroup(lines, index);
+          }
+          if (tokens.length === 0) return undefined;
+
+          const raw = lines.slice(0, index).join("\n");
+          return {
+            type: "definitionList",
+            raw: index < lines.length ? `${raw}\n` : raw,
+            tokens,
+          };
+        },
+        renderer(this: RendererThis, token: Tokens.Generic) {
+          return `<dl>\n${this.parser.parse(token.tokens ?? [])}</dl>\n`;
+        },
+      },
+      {
+        name: "definitionTerm",
+        renderer(this: RendererThis, token: Tokens.Generic) {
+          return `<dt>${this.parser.parseInline(token.tokens ?? [])}</dt>\n`;
+        },
+      },
+      {
+        name: "definitionDescription",
+        renderer(this: RendererThis, token: Tokens.Generic) {
+          return `<dd>${this.parser.parseInline(token.tokens ?? [])}</dd>\n`;
+        },
+      },
+    ],
+  };
+}
+
+/**
+ * Marked extension for containers:
+ *
+ *     ::: details Show the full config
+ *     ...markdown...
+ *     :::
+ *
+ * `details` becomes <details> with a <summary> (default "Details"); `aside` becomes <aside>.
+ * Use more colons on the outer fence to nest containers.
+ */
+export function markedContainers(): MarkedExtension {
+  return {
+    extensions: [
+      {
+        name: "container",
+        level: "block",
+        start(src: string) {
+          return src.match(/^:{3,}/m)?.index;
+        },
+        tokenizer(this: TokenizerThis, src: string) {
+          const match = CONTAINER_REGEX.exec(src);
+          if (!match) return undefined;
+
+          const [raw, , kind, summary, body = ""] = match;
+          return {
+            type: "container",
+            raw,
+            kind,
+            summary: this.lexer.inlineTokens(summary?.trim() || "Details"),
+            tokens: this.lexer.blockTokens(body, []),
+          };
+        },
+        renderer(this: RendererThis, token: Tokens.Generic) {
+          const { kind, summary, tokens } = token as unknown as ContainerToken;
+          const body = this.parser.parse(tokens);
+          if (kind === "details") {
+            return `<details>\n<summary>${this.parser.parseInline(summary)}</summary>\n${body}</details>\n`;
+          }
+          return `<aside>\n${body}</aside>\n`;
+        },
+      },
+    ],
+  };
+}
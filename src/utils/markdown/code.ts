@@ -0,0 +1,195 @@
+/**
+ * Code blocks
+ * Highlights the configured highlight.js languages and renders fence extras:
+ * a file name title, highlighted line ranges and line numbers
+ */
+
+import hljs from "highlight.js/lib/core";
+import diff from "highlight.js/lib/languages/diff";
+import javascript from "highlight.js/lib/languages/javascript";
+import json from "highlight.js/lib/languages/json";
+import markdown from "highlight.js/lib/languages/markdown";
+import python from "highlight.js/lib/languages/python";
+import swift from "highlight.js/lib/languages/swift";
+import typescript from "highlight.js/lib/languages/typescript";
+import xml from "highlight.js/lib/languages/xml";
+import type { MarkedExtension, Tokens } from "marked";
+import { markedHighlight } from "marked-highlight";
+import { HIGHLIGHT } from "../../constants";
+import type { HighlightConfig } from "../../types";
+import { escapeXml } from "../xml-builder";
+import { CODE_LINE_NUMBERS_REGEX, CODE_LINE_RANGES_REGEX, CODE_TITLE_REGEX } from "./constants";
+
+// Languages bundled with bunki; anything else is loaded from highlight.js on demand
+hljs.registerLanguage("javascript", javascript);
+hljs.registerLanguage("typescript", typescript);
+hljs.registerLanguage("markdown", markdown);
+hljs.registerLanguage("xml", xml);
+hljs.registerLanguage("diff", diff);
+hljs.registerLanguage("python", python);
+hljs.registerLanguage("json", json);
+hljs.registerLanguage("swift", swift);
+
+/**
+ * Extras read from a code fence info string
+ */
+export interface CodeFenceMeta {
+  /** Language (first word of the info string) */
+  lang: string;
+  /** File name shown above the block */
+  title?: string;
+  /** 1-based line numbers to highlight */
+  highlightLines: Set<number>;
+  /** True when the fence asks for line numbers */
+  lineNumbers: boolean;
+}
+
+/**
+ * Names and aliases of the languages that get highlighted
+ * @param names - Registered language names
+ */
+function collectAliases(names: readonly string[]): Set<string> {
+  const enabled = new Set<string>();
+  for (const name of names) {
+    const language = hljs.getLanguage(name);
+    if (!language) continue;
+    enabled.add(name.toLowerCase());
+    for (const alias of language.aliases ?? []) {
+      enabled.add(alias.toLowerCase());
+    }
+  }
+  return enabled;
+}
+
+let enabledLanguages = collectAliases(HIGHLIGHT.DEFAULT_LANGUAGES);
+let lineNumbersByDefault = false;
+
+/**
+ * Choose which languages are highlighted and whether code blocks are numbered
+ * @param options - Language names (highlight.js file names, e.g. "bash", "go") and line numbers
+ */
+export async function setHighlightOptions(options: HighlightConfig = {}): Promise<void> {
+  const names = options.languages ?? HIGHLIGHT.DEFAULT_LANGUAGES;
+  for (const name of names) {
+    if (hljs.getLanguage(name)) continue;
+
+    try {
+      if (!/^[a-z0-9-]+$/i.test(name)) {
+        throw new Error("invalid name");
+      }
+      const module = await import(`highlight.js/lib/languages/${name}`);
+      hljs.registerLanguage(name, module.default);
+    } catch {
+      console.warn(`Unknown highlight.js language "${name}"; its code blocks stay plain text`);
+    }
+  }
+
+  enabledLanguages = collectAliases(names);
+  lineNumbersByDefault = options.lineNumbers ?? false;
+}
+
+/**
+ * Parse a line range list such as "1,3-5"
+ * @param ranges - Comma-separated line numbers and ranges
+ * @param lineCount - Lines in the code block; ranges are clamped to it and reversed ranges ignored
+ * @returns Line numbers
+ */
+function parseLineRanges(ranges: string, lineCount: number): Set<number> {
+  const lines = new Set<number>();
+  for (const part of ranges.split(",")) {
+    const [start, end = start] = part.split("-").map((value) => Number.parseInt(value, 10));
+    if (Number.isNaN(start) || Number.isNaN(end) || start > end) continue;
+    for (let line = Math.max(start, 1); line <= Math.min(end, lineCount); line++) {
+      lines.add(line);
+    }
+  }
+  return lines;
+}
+
+/**
+ * Read the language, title, highlighted lines and line numbers flag from a fence info string
+ * @param info - Info string (e.g. `ts title="app.ts" {3-5} showLineNumbers`)
+ * @param lineCount - Lines in the code block
+ */
+export function parseCodeFenceMeta(info: string, lineCount: number): CodeFenceMeta {
+  const [lang = "", ...rest] = info.trim().split(/\s+/);
+  let meta = rest.join(" ");
+
+  const titleMatch = CODE_TITLE_REGEX.exec(meta);
+  if (titleMatch) {
+    meta = meta.replace(titleMatch[0], " ");
+  }
+  const rangesMatch = CODE_LINE_RANGES_REGEX.exec(meta);
+
+  return {
+    lang,
+    title: titleMatch ? (titleMatch[1] ?? titleMatch[2]) : undefined,
+    highlightLines: rangesMatch ? parseLineRanges(rangesMatch[1], lineCount) : new Set(),
+    lineNumbers: CODE_LINE_NUMBERS_REGEX.test(meta),
+  };
+}
+
+/**
+ * Split highlighted HTML into lines, closing and reopening spans that cross line breaks
+ * @param html - Highlighted code without a trailing newline
+ */
+function splitHighlightedLines(html: string): string[] {
+  const open: string[] = [];
+  return html.split("\n").map((line) => {
+    const reopened = open.join("");
+    for (const [tag] of line.matchAll(/<span[^>]*>|<\/span>/g)) {
+      if (tag === "</span>") {
+        open.pop();
+      } else {
+        open.push(tag);
+      }
+    }
+    return `${reopened}${line}${"</span>".repeat(open.length)}`;
+  });
+}
+
+/**
+ * Marked extensions that highlight code and render fences with a title,
+ * highlighted lines or line numbers
+ */
+export function markedCodeBlocks(): MarkedExtension[] {
+  return [
+    markedHighlight({
+      emptyLangClass: "hljs",
+      langPrefix: "hljs language-",
+      highlight(code, lang) {
+        return enabledLanguages.has(lang.toLowerCase())
+          ? hljs.highlight(code, { language: lang }).value
+          : code;
+      },
+    }),
+    {
+      renderer: {
+        code(token: Tokens.Code) {
+          const code = (token.escaped ? token.text : escapeXml(token.text)).replace(/\n$/, "");
+          const meta = parseCodeFenceMeta(token.lang ?? "", code.split("\n").length);
+          const numbered = meta.lineNumbers || lineNumbersByDefault;
+          if (!meta.title && meta.highlightLines.size === 0 && !numbered) {
+            // Plain fences keep marked-highlight's output
+            return false;
+          }
+
+          const lines = splitHighlightedLines(code).map((line, index) => {
+            const className = meta.highlightLines.has(index + 1) ? "line highlighted" : "line";
+            return `<span class="${className}">${line}</span>`;
+          });
+          const classAttr = meta.lang
+            ? ` class="hljs language-${escapeXml(meta.lang)}"`
+            : ' class="hljs"';
+          const pre =
+            `<pre${numbered ? ' class="line-numbers"' : ""}>` +
+            `<code${classAttr}>${lines.join("\n")}\n</code></pre>`;
+
+          return meta.title
+            ? `<div class="code-block"><div class="code-title">${escapeXml(meta.title)}</div>${pre}</div>\n`
+            : `${pre}\n`;
+        },
+      },
+    },
+  ];
+}
@@ -14,6 +14,31 @@ export const YOUTUBE_EMBED_REGEX =
   /<a href="(https?:\/\/(www\.)?(youtube\.com\/watch\?v=|youtu\.be\/)([\w-]+)[^"]*)"[^>]*>(.*?)<\/a>/g;
 export const EXTERNAL_LINK_REGEX = /<a href="(https?:\/\/|\/\/)([^"]+)"/g;
 
+// Shortcodes: {{< name key="value" >}} and paired {{< name >}}...{{< /name >}}
+export const SHORTCODE_REGEX =
+  /^\{\{<\s*([a-z][\w-]*)((?:\s+[\w-]+=(?:"[^"]*"|'[^']*'|[^\s"'>]+))*)\s*>\}\}/;
+export const SHORTCODE_ARG_REGEX = /([\w-]+)=(?:"([^"]*)"|'([^']*)'|([^\s"'>]+))/g;
+
+// Footnotes: [^label] references and "[^label]: text" definitions with indented continuation lines
+export const FOOTNOTE_REFERENCE_REGEX = /^\[\^([\w-]+)\]/;
+export const FOOTNOTE_DEFINITION_REGEX =
+  /^\[\^([\w-]+)\]:[ \t]*([^\n]*(?:\n+(?: {4}|\t)[^\n]*)*)(?:\n+|$)/;
+
+// Containers: "::: details Summary" or "::: aside" up to a closing fence with the same number of colons
+export const CONTAINER_REGEX =
+  /^(:{3,})[ \t]*(details|aside)(?:[ \t]+([^\n]*))?\n(?:([\s\S]*?)\n)?\1[ \t]*(?:\n+|$)/;
+
+// Code fence extras: ```ts title="app.ts" {3-5} showLineNumbers
+export const CODE_TITLE_REGEX = /(?:^|\s)title=(?:"([^"]*)"|'([^']*)')/;
+export const CODE_LINE_RANGES_REGEX = /(?:^|\s)\{([\d\s,-]+)\}(?=\s|$)/;
+export const CODE_LINE_NUMBERS_REGEX = /(?:^|\s)showLineNumbers(?=\s|$)/;
+
+// Math: "$$...$$" display blocks and "$...$" inline math (no space just inside the dollars,
+// no digit right after the closing one, so "$5 and $10" stays text)
+export const MATH_BLOCK_REGEX = /^\$\$([\s\S]+?)\$\$[ \t]*(?:\n+|$)/;
+export const MATH_DISPLAY_REGEX = /^\$\$([^$]+?)\$\$/;
+export const MATH_INLINE_REGEX = /^\$(?=\S)((?:\\.|[^$\\\n])*?(?:\\.|[^\s$\\]))\$(?!\d)/;
+
 // Schema.org Place types for business location validation (Set for O(1) lookup)
 export const SCHEMA_ORG_PLACE_TYPES = new Set([
   "Accommodation",
@@ -0,0 +1,140 @@
+/**
+ * Footnotes
+ * Renders [^label] references as numbered links and collects their definitions
+ * into a back-linked footnote section at the end of the document
+ */
+
+import type { MarkedExtension, RendererThis, Token, TokenizerThis, Tokens } from "marked";
+import { FOOTNOTE_DEFINITION_REGEX, FOOTNOTE_REFERENCE_REGEX } from "./constants";
+
+interface FootnoteDefinitionToken {
+  type: "footnoteDefinition";
+  raw: string;
+  label: string;
+  tokens: Token[];
+}
+
+interface FootnoteReferenceToken {
+  type: "footnoteReference";
+  raw: string;
+  label: string;
+}
+
+/** A referenced footnote, in the order it was first referenced */
+interface Footnote {
+  label: string;
+  number: number;
+  /** Number of references so far, used to give each reference its own id */
+  references: number;
+}
+
+/**
+ * Remove one level of indentation from footnote continuation lines
+ * @param text - Definition text after the label
+ */
+function dedent(text: string): string {
+  return text.replace(/\n(?: {1,4}|\t)/g, "\n");
+}
+
+/**
+ * Add the back-links inside the last paragraph of a footnote, GitHub style
+ * @param html - Rendered definition
+ * @param backrefs - Back-link markup
+ */
+function appendBackrefs(html: string, backrefs: string): string {
+  const trimmed = html.trimEnd();
+  return trimmed.endsWith("</p>")
+    ? `${trimmed.slice(0, -"</p>".length)} ${backrefs}</p>`
+    : `${trimmed}${backrefs}`;
+}
+
+/**
+ * Marked extension for footnotes. Each Marked instance keeps its own numbering,
+ * which is reset at the start of every parse.
+ */
+export function markedFootnotes(): MarkedExtension {
+  let definitions = new Map<string, string>();
+  let definedLabels = new Set<string>();
+  let footnotes = new Map<string, Footnote>();
+
+  return {
+    hooks: {
+      preprocess(markdown) {
+        definitions = new Map();
+        definedLabels = new Set();
+        footnotes = new Map();
+        return markdown;
+      },
+      postprocess(html) {
+        if (footnotes.size === 0) {
+          return html;
+        }
+
+        const items = [...footnotes.values()].map(({ label, number, references }) => {
+          const backrefs = Array.from({ length: references }, (_, index) => {
+            const id = index === 0 ? `fnref-${label}` : `fnref-${label}-${index + 1}`;
+            return `<a href="#${id}" class="footnote-backref" aria-label="Back to reference ${number}">↩</a>`;
+          }).join(" ");
+          return `<li id="fn-${label}">${appendBackrefs(definitions.get(label) ?? "", backrefs)}</li>`;
+        });
+        return `${html}<section class="footnotes">\n<ol>\n${items.join("\n")}\n</ol>\n</section>\n`;
+      },
+    },
+    extensions: [
+      {
+        name: "footnoteDefinition",
+        level: "block",
+        start(src: string) {
+          return src.match(/^\[\^/m)?.index;
+        },
+        tokenizer(this: TokenizerThis, src: string) {
+          const match = FOOTNOTE_DEFINITION_REGEX.exec(src);
+          if (!match) return undefined;
+
+          const [raw, label, text] = match;
+          definedLabels.add(label);
+          return {
+            type: "footnoteDefinition",
+            raw,
+            label,
+            tokens: this.lexer.blockTokens(dedent(text).trim(), []),
+          };
+        },
+        renderer(this: RendererThis, token: Tokens.Generic) {
+          const { label, tokens } = token as unknown as FootnoteDefinitionToken;
+          // The first definition of a label wins, as with link reference definitions
+          if (!definitions.has(label)) {
+            definitions.set(label, this.parser.parse(tokens));
+          }
+          return "";
+        },
+      },
+      {
+        name: "footnoteReference",
+        level: "inline",
+        start(src: string) {
+          return src.match(/\[\^/)?.index;
+        },
+        tokenizer(src: string) {
+          const match = FOOTNOTE_REFERENCE_REGEX.exec(src);
+          // Block definitions are lexed before inline content, so unknown labels stay plain text
+          if (!match || !definedLabels.has(match[1])) return undefined;
+          return { type: "footnoteReference", raw: match[0], label: match[1] };
+        },
+        renderer(token: Tokens.Generic) {
+          const { label } = token as unknown as FootnoteReferenceToken;
+          let footnote = footnotes.get(label);
+          if (!footnote) {
+            footnote = { label, number: footnotes.size + 1, references: 0 };
+            footnotes.set(label, footnote);
+          }
+          footnote.references += 1;
+
+          const id =
+            footnote.references === 1 ? `fnref-${label}` : `fnref-${label}-${footnote.references}`;
+          return `<sup class="footnote-ref"><a href="#fn-${label}" id="${id}">${footnote.number}</a></sup>`;
+        },
+      },
+    ],
+  };
+}
@@ -0,0 +1,114 @@
+/**
+ * Heading ids, anchor links and table of contents
+ * Gives h2–h4 stable slugged ids and collects them into a nested table of contents
+ */
+
+import type { MarkedExtension, Tokens } from "marked";
+import slugify from "slugify";
+import type { TocEntry } from "../../types";
+import { escapeXml } from "../xml-builder";
+
+/** Shallowest heading level that gets an id and a table of contents entry */
+const MIN_LEVEL = 2;
+/** Deepest heading level that gets an id and a table of contents entry */
+const MAX_LEVEL = 4;
+/** Entities marked emits in heading text, decoded for plain-text toc entries */
+const ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  "#39": "'",
+};
+
+/**
+ * Headings collected while rendering one document
+ */
+export interface HeadingState {
+  /** Number of times each id has been used, for de-duplication */
+  ids: Map<string, number>;
+  /** Nested table of contents */
+  toc: TocEntry[];
+}
+
+// Whether headings get a "#" link to themselves
+let headingAnchors = false;
+
+/**
+ * Turn heading anchor links on or off
+ * @param enabled - Append a "#" link to h2–h4 headings
+ */
+export function setHeadingAnchors(enabled: boolean) {
+  headingAnchors = enabled;
+}
+
+/**
+ * Start collecting headings for one document
+ */
+export function createHeadingState(): HeadingState {
+  return { ids: new Map(), toc: [] };
+}
+
+/**
+ * Build a unique id for a heading, GitHub style ("setup", "setup-1", "setup-2")
+ * @param text - Plain heading text
+ * @param ids - Ids used so far in the document
+ * @returns Slugged id
+ */
+export function createHeadingId(text: string, ids: Map<string, number>): string {
+  const base = slugify(text, { lower: true, strict: true }) || "section";
+  let id = base;
+  let count = ids.get(base) ?? 0;
+  while (ids.has(id)) {
+    count += 1;
+    id = `${base}-${count}`;
+  }
+  ids.set(base, count);
+  ids.set(id, 0);
+  return id;
+}
+
+/**
+ * Add a heading to the table of contents under the nearest shallower heading
+ * @param toc - Top-level entries
+ * @param entry - Heading to add
+ */
+function addTocEntry(toc: TocEntry[], entry: TocEntry): void {
+  let siblings = toc;
+  let parent = siblings.at(-1);
+  while (parent && parent.level < entry.level) {
+    siblings = parent.children;
+    parent = siblings.at(-1);
+  }
+  siblings.push(entry);
+}
+
+/**
+ * Marked extension that renders h2–h4 with ids (and anchors when enabled) and fills the state's toc
+ * @param state - Collects ids and table of contents entries
+ */
+export function markedHeadings(state: HeadingState): MarkedExtension {
+  return {
+    renderer: {
+      heading(token: Tokens.Heading) {
+        if (token.depth < MIN_LEVEL || token.depth > MAX_LEVEL) {
+          return false;
+        }
+
+        const html = this.parser.parseInline(token.tokens);
+        const text = this.parser
+          .parseInline(token.tokens, this.parser.textRenderer)
+          .replace(/<[^>]*>/g, "")
+          .replace(/&(amp|lt|gt|quot|#39);/g, (_match, entity: string) => ENTITIES[entity])
+          .trim();
+        const id = createHeadingId(text, state.ids);
+        addTocEntry(state.toc, { id, text, level: token.depth, children: [] });
+
+        const anchor = headingAnchors
+          ? `<a class="heading-anchor" href="#${id}" aria-label="Link to ${escapeXml(text)}">#</a>`
+          : "";
+        return `<h${token.depth} id="${id}">${html}${anchor}</h${token.depth}>\n`;
+      },
+    },
+  };
+}
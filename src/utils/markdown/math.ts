@@ -0,0 +1,133 @@
+/**
+ * Math
+ * Renders $inline$ and $$display$$ LaTeX to HTML and MathML at build time with KaTeX,
+ * so pages need the KaTeX stylesheet but no client-side JavaScript
+ */
+
+import katex from "katex";
+import type { MarkedExtension, Tokens } from "marked";
+import { escapeXml } from "../xml-builder";
+import { MATH_BLOCK_REGEX, MATH_DISPLAY_REGEX, MATH_INLINE_REGEX } from "./constants";
+
+interface MathToken {
+  type: "math" | "mathBlock";
+  raw: string;
+  text: string;
+  displayMode: boolean;
+}
+
+/** MathML elements KaTeX emits alongside its HTML */
+export const MATH_TAGS = [
+  "math",
+  "semantics",
+  "annotation",
+  "mrow",
+  "mi",
+  "mn",
+  "mo",
+  "ms",
+  "mtext",
+  "mspace",
+  "msup",
+  "msub",
+  "msubsup",
+  "mfrac",
+  "msqrt",
+  "mroot",
+  "mover",
+  "munder",
+  "munderover",
+  "mtable",
+  "mtr",
+  "mtd",
+  "mstyle",
+  "mpadded",
+  "mphantom",
+  "menclose",
+  "line",
+];
+
+/** Attributes KaTeX sets on its MathML and SVG elements */
+export const MATH_ATTRIBUTES: Record<string, string[]> = {
+  math: ["xmlns", "display"],
+  annotation: ["encoding"],
+  mi: ["mathvariant"],
+  mo: ["fence", "stretchy", "minsize", "maxsize", "mathvariant", "lspace", "rspace"],
+  mfrac: ["linethickness"],
+  mspace: ["width"],
+  mtable: ["rowspacing", "columnalign", "columnspacing", "columnlines"],
+  mtd: ["columnalign"],
+  mstyle: ["scriptlevel", "displaystyle", "mathcolor"],
+  mover: ["accent"],
+  munder: ["accentunder"],
+  mpadded: ["width", "height", "depth", "lspace", "voffset"],
+  menclose: ["notation"],
+  line: ["x1", "y1", "x2", "y2", "stroke-width"],
+};
+
+/**
+ * Render LaTeX with KaTeX
+ * @param tex - LaTeX source
+ * @param displayMode - Render as a centered block
+ * @returns HTML and MathML markup, or the escaped source if it does not parse
+ */
+export function renderMath(tex: string, displayMode: boolean): string {
+  try {
+    return katex.renderToString(tex, {
+      displayMode,
+      output: "htmlAndMathml",
+      throwOnError: true,
+      trust: false,
+    });
+  } catch (error) {
+    console.warn(`Invalid math "${tex}":`, error instanceof Error ? error.message : String(error));
+    return `<code class="math-error">${escapeXml(tex)}</code>`;
+  }
+}
+
+/**
+ * Marked extension for math. A $$...$$ block on its own renders as display math;
+ * $$...$$ inside a paragraph renders in display mode inline and $...$ as inline math.
+ */
+export function markedMath(): MarkedExtension {
+  function render(token: Tokens.Generic): string {
+    const { text, displayMode, type } = token as unknown as MathToken;
+    const html = renderMath(text.trim(), displayMode);
+    return type === "mathBlock" ? `${html}\n` : html;
+  }
+
+  return {
+    extensions: [
+      {
+        name: "mathBlock",
+        level: "block",
+        start(src: string) {
+          return src.match(/^\$\$/m)?.index;
+        },
+        tokenizer(src: string) {
+          const match = MATH_BLOCK_REGEX.exec(src);
+          if (!match) return undefined;
+          return { type: "mathBlock", raw: match[0], text: match[1], displayMode: true };
+        },
+        renderer: render,
+      },
+      {
+        name: "math",
+        level: "inline",
+        start(src: string) {
+          return src.match(/\$/)?.index;
+        },
+        tokenizer(src: string) {
+          const display = MATH_DISPLAY_REGEX.exec(src);
+          if (display) {
+            return { type: "math", raw: display[0], text: display[1], displayMode: true };
+          }
+          const inline = MATH_INLINE_REGEX.exec(src);
+          if (!inline) return undefined;
+          return { type: "math", raw: inline[0], text: inline[1], displayMode: false };
+        },
+        renderer: render,
+      },
+    ],
+  };
+}
@@ -2,20 +2,22 @@
  * Core markdown parsing and transformation logic
  */
 
-import hljs from "highlight.js/lib/core";
-import diff from "highlight.js/lib/languages/diff";
-import javascript from "highlight.js/lib/languages/javascript";
-import json from "highlight.js/lib/languages/json";
-import markdown from "highlight.js/lib/languages/markdown";
-import python from "highlight.js/lib/languages/python";
-import swift from "highlight.js/lib/languages/swift";
-import typescript from "highlight.js/lib/languages/typescript";
-import xml from "highlight.js/lib/languages/xml";
 import { Marked } from "marked";
 import markedAlert from "marked-alert";
-import { markedHighlight } from "marked-highlight";
 import sanitizeHtml from "sanitize-html";
-import type { CDNConfig } from "../../types";
+import { IMAGES } from "../../constants";
+import type {
+  BunkiPlugin,
+  CDNConfig,
+  ImageManifest,
+  ImageVariant,
+  ResponsiveImage,
+  TocEntry,
+} from "../../types";
+import { runExtendHook } from "../plugins";
+import { escapeXml } from "../xml-builder";
+import { markedContainers, markedDefinitionLists } from "./blocks";
+import { markedCodeBlocks } from "./code";
 import {
   ALERT_ICONS,
   EXTERNAL_LINK_REGEX,
@@ -27,16 +29,10 @@ import {
   SAME_DIR_LINK_REGEX,
   YOUTUBE_EMBED_REGEX,
 } from "./constants";
-
-// Register highlight.js languages
-hljs.registerLanguage("javascript", javascript);
-hljs.registerLanguage("typescript", typescript);
-hljs.registerLanguage("markdown", markdown);
-hljs.registerLanguage("xml", xml);
-hljs.registerLanguage("diff", diff);
-hljs.registerLanguage("python", python);
-hljs.registerLanguage("json", json);
-hljs.registerLanguage("swift", swift);
+import { markedFootnotes } from "./footnotes";
+import { createHeadingState, type HeadingState, markedHeadings } from "./headings";
+import { MATH_ATTRIBUTES, MATH_TAGS, markedMath } from "./math";
+import { createShortcodeBatch, markedShortcodes, restoreShortcodes } from "./shortcodes";
 
 // Global nofollow exceptions list
 let noFollowExceptions: Set<string> = new Set();
@@ -51,6 +47,51 @@ export function setNoFollowExceptions(exceptions: string[]) {
   );
 }
 
+// Plugins whose extendMarked hook runs on every Marked instance
+let markdownPlugins: readonly BunkiPlugin[] = [];
+
+/**
+ * Set the plugins that extend each Marked instance
+ * @param plugins - Plugins from config.plugins
+ */
+export function setMarkdownPlugins(plugins: readonly BunkiPlugin[]) {
+  markdownPlugins = plugins;
+}
+
+// Responsive image manifest produced by the image pipeline (null disables <picture> output)
+let imageManifest: ImageManifest | null = null;
+let imageSizes: string = IMAGES.DEFAULT_SIZES;
+
+/**
+ * Set the responsive image manifest used when rendering content images
+ * @param manifest - Manifest keyed by "{year}/{filename}", or null to render plain <img> tags
+ * @param sizes - sizes attribute emitted with each srcset
+ */
+export function setImageManifest(
+  manifest: ImageManifest | null,
+  sizes: string = IMAGES.DEFAULT_SIZES,
+) {
+  imageManifest = manifest;
+  imageSizes = sizes;
+}
+
+/**
+ * Build a CDN URL for a year-scoped content asset
+ * @param config - CDN configuration with baseUrl and pathPattern
+ * @param year - Asset year
+ * @param filename - Asset file name
+ * @returns Absolute CDN URL
+ */
+function formatCdnAssetUrl(config: CDNConfig, year: string, filename: string): string {
+  const path = config.pathPattern
+    .replace("{year}", year)
+    .replace("{slug}", "") // No slug for content assets
+    .replace("{filename}", filename)
+    .replace(/\/+/g, "/") // Remove double slashes
+    .replace(/^\//, ""); // Remove leading slash
+  return `${config.baseUrl}/${path}`;
+}
+
 /**
  * Transform relative image path to CDN URL
  * Supports two patterns:
@@ -75,27 +116,13 @@ function transformImagePath(relativePath: string, config: CDNConfig): string | n
   // Try new pattern (parent dir): ../_assets/{filename}
   const assetsDirMatch = relativePath.match(IMAGE_PATH_ASSETS_DIR);
   if (assetsDirMatch && config.postYear) {
-    const [, filename] = assetsDirMatch;
-    const path = config.pathPattern
-      .replace("{year}", config.postYear)
-      .replace("{slug}", "") // No slug in new pattern
-      .replace("{filename}", filename)
-      .replace(/\/+/g, "/") // Remove double slashes
-      .replace(/^\//, ""); // Remove leading slash
-    return `${config.baseUrl}/${path}`;
+    return formatCdnAssetUrl(config, config.postYear, assetsDirMatch[1]);
   }
 
   // Try new pattern (same dir): ./_assets/{filename}
   const assetsSameDirMatch = relativePath.match(IMAGE_PATH_ASSETS_SAME_DIR);
   if (assetsSameDirMatch && config.postYear) {
-    const [, filename] = assetsSameDirMatch;
-    const path = config.pathPattern
-      .replace("{year}", config.postYear)
-      .replace("{slug}", "") // No slug in new pattern
-      .replace("{filename}", filename)
-      .replace(/\/+/g, "/") // Remove double slashes
-      .replace(/^\//, ""); // Remove leading slash
-    return `${config.baseUrl}/${path}`;
+    return formatCdnAssetUrl(config, config.postYear, assetsSameDirMatch[1]);
   }
 
   // Try cross-year pattern: ../2023/_assets/{filename}
@@ -103,36 +130,81 @@ function transformImagePath(relativePath: string, config: CDNConfig): string | n
   const crossYearMatch = relativePath.match(IMAGE_PATH_CROSS_YEAR_ASSETS);
   if (crossYearMatch) {
     const [, year, filename] = crossYearMatch;
-    const path = config.pathPattern
-      .replace("{year}", year)
-      .replace("{slug}", "") // No slug in this pattern
-      .replace("{filename}", filename)
-      .replace(/\/+/g, "/") // Remove double slashes
-      .replace(/^\//, ""); // Remove leading slash
-    return `${config.baseUrl}/${path}`;
+    return formatCdnAssetUrl(config, year, filename);
   }
 
   return null;
 }
 
+/**
+ * Resolve a relative content image path to its manifest key
+ * @param relativePath - Image href from markdown
+ * @param postYear - Year of the post the image appears in
+ * @returns "{year}/{filename}" or null if the path is not a content asset
+ */
+function resolveAssetKey(relativePath: string, postYear?: string): string | null {
+  const crossYearMatch = relativePath.match(IMAGE_PATH_CROSS_YEAR_ASSETS);
+  if (crossYearMatch) {
+    return `${crossYearMatch[1]}/${crossYearMatch[2]}`;
+  }
+
+  const match =
+    relativePath.match(IMAGE_PATH_ASSETS_SAME_DIR) ?? relativePath.match(IMAGE_PATH_ASSETS_DIR);
+  return match && postYear ? `${postYear}/${match[1]}` : null;
+}
+
+/**
+ * Render a content image as <picture> with srcset and intrinsic dimensions
+ * @param key - Manifest key ("{year}/{filename}")
+ * @param image - Manifest entry
+ * @param alt - Alternative text
+ * @param title - Optional title
+ * @param cdnConfig - CDN configuration; local /{year}/ URLs are used when disabled
+ * @returns HTML markup
+ */
+function renderPicture(
+  key: string,
+  image: ResponsiveImage,
+  alt: string,
+  title: string | null | undefined,
+  cdnConfig?: CDNConfig,
+): string {
+  const year = key.slice(0, key.indexOf("/"));
+  const toUrl = (filename: string) =>
+    cdnConfig?.enabled ? formatCdnAssetUrl(cdnConfig, year, filename) : `/${year}/${filename}`;
+  const toSrcset = (variants: ImageVariant[]) =>
+    variants.map((variant) => `${toUrl(variant.filename)} ${variant.width}w`).join(", ");
+
+  const sources = IMAGES.DEFAULT_FORMATS.filter((format) => image.sources[format]?.length).map(
+    (format) =>
+      `<source type="image/${format}" srcset="${toSrcset(image.sources[format] ?? [])}" sizes="${imageSizes}">`,
+  );
+  const original = image.fallback[image.fallback.length - 1];
+  const titleAttr = title ? ` title="${escapeXml(title)}"` : "";
+
+  return (
+    `<picture>${sources.join("")}` +
+    `<img src="${toUrl(original.filename)}" srcset="${toSrcset(image.fallback)}" sizes="${imageSizes}" ` +
+    `alt="${escapeXml(alt)}"${titleAttr} width="${image.width}" height="${image.height}">` +
+    `</picture>`
+  );
+}
+
 /**
  * Creates an isolated Marked instance with custom configuration.
  * V17 best practice: Use instance-scoped configuration to avoid global mutations.
  * @param cdnConfig - Optional CDN configuration for image URL transformation
+ * @param postYear - Year used to resolve ./_assets/ images (defaults to cdnConfig.postYear)
+ * @param headings - Collects heading ids and the table of contents for this document
  * @returns Configured Marked instance
  */
-export function createMarked(cdnConfig?: CDNConfig): Marked {
-  // Create isolated Marked instance with syntax highlighting extension
-  const marked = new Marked(
-    markedHighlight({
-      emptyLangClass: "hljs",
-      langPrefix: "hljs language-",
-      highlight(code, lang, _info) {
-        const language = hljs.getLanguage(lang) ? lang : "json";
-        return hljs.highlight(code, { language }).value;
-      },
-    }),
-  );
+export function createMarked(
+  cdnConfig?: CDNConfig,
+  postYear: string | undefined = cdnConfig?.postYear,
+  headings: HeadingState = createHeadingState(),
+): Marked {
+  // Create isolated Marked instance with syntax highlighting and code fence extras
+  const marked = new Marked(...markedCodeBlocks());
 
   // Configure GitHub-flavored markdown and line breaks
   marked.setOptions({
@@ -199,6 +271,14 @@ export function createMarked(cdnConfig?: CDNConfig): Marked {
         }
       }
 
+      // Remember which content images have responsive variants before hrefs are rewritten
+      if (token.type === "image" && imageManifest) {
+        const key = resolveAssetKey(token.href || "", postYear);
+        if (key && imageManifest[key]) {
+          (token as { assetKey?: string }).assetKey = key;
+        }
+      }
+
       // Transform relative image paths to CDN URLs
       if (token.type === "image" && cdnConfig?.enabled) {
         const href = token.href || "";
@@ -218,6 +298,16 @@ export function createMarked(cdnConfig?: CDNConfig): Marked {
         // CDN URLs (https://...) and other paths pass through unchanged
       }
     },
+    renderer: {
+      image(token) {
+        const key = (token as { assetKey?: string }).assetKey;
+        const image = key ? imageManifest?.[key] : undefined;
+        if (!key || !image) {
+          return false;
+        }
+        return renderPicture(key, image, token.text, token.title, cdnConfig);
+      },
+    },
     hooks: {
       preprocess(markdown) {
         return markdown;
@@ -279,80 +369,157 @@ export function createMarked(cdnConfig?: CDNConfig): Marked {
     },
   });
 
+  // Footnotes, definition lists and ::: containers. Registered after the hooks above so
+  // the footnote section is appended before external links are processed.
+  marked.use(markedFootnotes(), markedDefinitionLists(), markedContainers());
+
+  // $inline$ and $$display$$ math rendered with KaTeX
+  marked.use(markedMath());
+
+  // Slugged ids (and optional anchors) for h2–h4, collected into a table of contents
+  marked.use(markedHeadings(headings));
+
+  // Plugin extensions run last so they can override the built-in renderers
+  runExtendHook(markdownPlugins, "extendMarked", marked);
+
   return marked;
 }
 
+// Allow-list applied to rendered markdown; shortcode output extends it (see shortcodes.ts)
+const SANITIZE_OPTIONS: sanitizeHtml.IOptions = {
+  allowedTags: sanitizeHtml.defaults.allowedTags.concat([
+    "img",
+    "h1",
+    "h2",
+    "span",
+    "iframe",
+    "div",
+    "video",
+    "source",
+    "svg",
+    "path",
+    "picture",
+    "details",
+    "summary",
+    ...MATH_TAGS,
+  ]),
+  allowedAttributes: {
+    ...sanitizeHtml.defaults.allowedAttributes,
+    a: ["href", "name", "target", "rel", "title", "aria-label", "id"],
+    li: ["id"],
+    h2: ["id"],
+    h3: ["id"],
+    h4: ["id"],
+    img: ["src", "srcset", "sizes", "alt", "title", "loading", "width", "height"],
+    code: ["class"],
+    pre: ["class"],
+    span: ["class", "style", "aria-hidden", "title"],
+    iframe: ["src", "frameborder", "allow", "allowfullscreen", "loading"],
+    div: ["class"],
+    video: ["src", "controls", "width", "height", "autoplay", "loop", "muted", "preload", "poster"],
+    source: ["src", "srcset", "sizes", "type"],
+    // Attribute names are lowercased while parsing; browsers restore the SVG casing
+    svg: [
+      "class",
+      "viewbox",
+      "width",
+      "height",
+      "aria-hidden",
+      "fill",
+      "xmlns",
+      "preserveaspectratio",
+      "style",
+    ],
+    path: ["d", "fill", "fill-rule", "stroke", "stroke-width"],
+    ...MATH_ATTRIBUTES,
+  },
+  allowedClasses: {
+    code: ["*"],
+    pre: ["*"],
+    span: ["*"],
+    div: [
+      "video-container",
+      "code-block",
+      "code-title",
+      "markdown-alert",
+      "markdown-alert-note",
+      "markdown-alert-tip",
+      "markdown-alert-important",
+      "markdown-alert-warning",
+      "markdown-alert-caution",
+    ],
+    p: ["markdown-alert-title"],
+    a: ["heading-anchor", "footnote-backref"],
+    sup: ["footnote-ref"],
+    section: ["footnotes"],
+  },
+  selfClosing: sanitizeHtml.defaults.selfClosing.concat(["source"]),
+  nonTextTags: ["style", "script", "textarea", "option", "noscript"],
+};
+
+/**
+ * Rendered markdown and the headings found in it
+ */
+export interface RenderedMarkdown {
+  /** Sanitized HTML */
+  html: string;
+  /** Nested table of contents built from h2–h4 headings */
+  toc: TocEntry[];
+}
+
 /**
  * Convert markdown to sanitized HTML
  * @param markdownContent - Raw markdown string
  * @param cdnConfig - Optional CDN configuration
+ * @param postYear - Year used to resolve ./_assets/ images (defaults to cdnConfig.postYear)
  * @returns Sanitized HTML string
  */
-export function convertMarkdownToHtml(markdownContent: string, cdnConfig?: CDNConfig): string {
+export function convertMarkdownToHtml(
+  markdownContent: string,
+  cdnConfig?: CDNConfig,
+  postYear?: string,
+): string {
+  return renderMarkdown(markdownContent, cdnConfig, postYear).html;
+}
+
+/**
+ * Convert markdown to sanitized HTML and collect its table of contents
+ * @param markdownContent - Raw markdown string
+ * @param cdnConfig - Optional CDN configuration
+ * @param postYear - Year used to resolve ./_assets/ images (defaults to cdnConfig.postYear)
+ * @returns Sanitized HTML and table of contents
+ */
+export function renderMarkdown(
+  markdownContent: string,
+  cdnConfig?: CDNConfig,
+  postYear?: string,
+): RenderedMarkdown {
   // Create marked instance with CDN config if provided
-  const marked = createMarked(cdnConfig);
+  const year = postYear ?? cdnConfig?.postYear;
+  const headings = createHeadingState();
+  const marked = createMarked(cdnConfig, year, headings);
+
+  // Shortcodes render to placeholders so their markup can skip the post allow-list
+  const shortcodes = createShortcodeBatch();
+  marked.use(
+    markedShortcodes(shortcodes, {
+      postYear: year,
+      resolveAsset: (relativePath) =>
+        (cdnConfig?.enabled &&
+          transformImagePath(relativePath, { ...cdnConfig, postYear: year })) ||
+        relativePath,
+    }),
+  );
 
   // Use async: false for explicit type safety (we don't have async walkTokens)
   const html = marked.parse(markdownContent, { async: false }) as string;
 
-  let sanitized = sanitizeHtml(html, {
-    allowedTags: sanitizeHtml.defaults.allowedTags.concat([
-      "img",
-      "h1",
-      "h2",
-      "span",
-      "iframe",
-      "div",
-      "video",
-      "source",
-      "svg",
-      "path",
-    ]),
-    allowedAttributes: {
-      ...sanitizeHtml.defaults.allowedAttributes,
-      a: ["href", "name", "target", "rel", "title"],
-      img: ["src", "alt", "title", "loading"],
-      code: ["class"],
-      pre: ["class"],
-      span: ["class", "style"],
-      iframe: ["src", "frameborder", "allow", "allowfullscreen", "loading"],
-      div: ["class"],
-      video: [
-        "src",
-        "controls",
-        "width",
-        "height",
-        "autoplay",
-        "loop",
-        "muted",
-        "preload",
-        "poster",
-      ],
-      source: ["src", "type"],
-      svg: ["class", "viewBox", "width", "height", "aria-hidden", "fill", "xmlns"],
-      path: ["d", "fill", "fill-rule", "stroke", "stroke-width"],
-    },
-    allowedClasses: {
-      code: ["*"],
-      pre: ["*"],
-      span: ["*"],
-      div: [
-        "video-container",
-        "markdown-alert",
-        "markdown-alert-note",
-        "markdown-alert-tip",
-        "markdown-alert-important",
-        "markdown-alert-warning",
-        "markdown-alert-caution",
-      ],
-      p: ["markdown-alert-title"],
-    },
-    nonTextTags: ["style", "script", "textarea", "option", "noscript"],
-  });
+  let sanitized = sanitizeHtml(html, SANITIZE_OPTIONS);
+  sanitized = restoreShortcodes(sanitized, shortcodes, SANITIZE_OPTIONS);
 
   // Extra hardening: strip javascript:, vbscript: textual occurrences to satisfy security tests
   sanitized = sanitized.replace(/javascript:/gi, "").replace(/vbscript:/gi, "");
-  return sanitized;
+  return { html: sanitized, toc: headings.toc };
 }
 
 /**
@@ -366,6 +533,11 @@ export function extractExcerpt(content: string, maxLength = 200): string {
   const plainText = content
     .replace(/^#.*$/gm, "") // Remove headings
     .replace(/```[\s\S]*?```/g, "") // Remove code blocks
+    .replace(/\{\{<[\s\S]*?>\}\}/g, "") // Remove shortcodes
+    .replace(/^\[\^[\w-]+\]:.*$/gm, "") // Remove footnote definitions
+    .replace(/\[\^[\w-]+\]/g, "") // Remove footnote references
+    .replace(/^:{3,}.*$/gm, "") // Remove container fences
+    .replace(/\$\$[\s\S]*?\$\$/g, "") // Remove display math
     .replace(/\[([^\]]+)\]\([^)]+\)/g, "$1") // Remove links, keep text
     .replace(/[*_]{1,2}([^*_]+)[*_]{1,2}/g, "$1") // Remove bold/italic
     .replace(/\n+/g, " ") // Replace newlines with spaces
@@ -0,0 +1,352 @@
+/**
+ * Markdown shortcodes
+ * Renders {{< name key="value" >}} with Nunjucks templates from templates/shortcodes/ or the built-ins.
+ * Output is swapped in after the post is sanitized and passes through its own, wider allow-list.
+ */
+
+import path from "node:path";
+import { Glob } from "bun";
+import type { MarkedExtension, RendererThis, Token, TokenizerThis, Tokens } from "marked";
+import nunjucks from "nunjucks";
+import sanitizeHtml from "sanitize-html";
+import { SHORTCODES } from "../../constants";
+import { escapeXml } from "../xml-builder";
+import { SHORTCODE_ARG_REGEX, SHORTCODE_REGEX } from "./constants";
+
+/**
+ * Built-in shortcode templates.
+ * A template with the same name in templates/shortcodes/ replaces the built-in.
+ */
+export const BUILTIN_SHORTCODES: Readonly<Record<string, string>> = {
+  figure:
+    '<figure class="shortcode-figure">' +
+    '<img src="{{ asset(src) }}" alt="{{ alt or caption or \'\' }}"' +
+    '{% if width %} width="{{ width }}"{% endif %}{% if height %} height="{{ height }}"{% endif %} loading="lazy">' +
+    "{% if caption %}<figcaption>{{ caption }}</figcaption>{% endif %}" +
+    "</figure>",
+  youtube:
+    '<div class="video-container shortcode-youtube">' +
+    '<iframe src="https://www.youtube-nocookie.com/embed/{{ id | urlencode }}{% if start %}?start={{ start | int }}{% endif %}"' +
+    ' title="{{ title or \'YouTube video\' }}" frameborder="0"' +
+    ' allow="accelerometer; autoplay; clipboard-write; encrypted-media; gyroscope; picture-in-picture"' +
+    ' allowfullscreen loading="lazy"></iframe>' +
+    "</div>",
+  map:
+    "{% set query = q or (lat ~ ',' ~ lng) %}" +
+    '<div class="shortcode-map">' +
+    '<iframe src="https://maps.google.com/maps?q={{ query | urlencode }}&z={{ zoom | default(14) | int }}&output=embed"' +
+    ' title="{{ title or (\'Map of \' ~ query) }}" loading="lazy" referrerpolicy="no-referrer-when-downgrade"></iframe>' +
+    "</div>",
+  gallery:
+    '<div class="shortcode-gallery">' +
+    "{% for image in listImages(dir) %}" +
+    '<figure><a href="{{ image.src }}"><img src="{{ image.src }}" alt="{{ image.alt }}" loading="lazy"></a></figure>' +
+    "{% endfor %}" +
+    "</div>",
+};
+
+/**
+ * Site-wide shortcode settings
+ */
+export interface ShortcodeOptions {
+  /** Site templates directory; shortcodes are loaded from its shortcodes/ folder */
+  templatesDir?: string;
+  /** Content directory, used by listImages() to find gallery images */
+  contentDir?: string;
+  /** Extra hosts shortcode output may embed in an iframe */
+  iframeHosts?: string[];
+}
+
+/**
+ * Per-document rendering context
+ */
+export interface ShortcodeContext {
+  /** Year folder of the post being rendered */
+  postYear?: string;
+  /** Resolve a ./_assets/ path the same way markdown images are resolved */
+  resolveAsset: (relativePath: string) => string;
+}
+
+/**
+ * Shortcode output collected while rendering one document
+ */
+export interface ShortcodeBatch {
+  /** Random id that makes placeholders unguessable from post content */
+  id: string;
+  /** Rendered shortcodes, indexed by placeholder number */
+  html: string[];
+}
+
+interface ShortcodeToken {
+  type: "shortcode" | "shortcodeBlock";
+  raw: string;
+  name: string;
+  args: Record<string, string>;
+  tokens?: Token[];
+}
+
+/** An image listed by listImages() */
+interface GalleryImage {
+  src: string;
+  alt: string;
+  filename: string;
+}
+
+let shortcodeEnv = new nunjucks.Environment(null, { autoescape: true });
+let siteShortcodes = new Set<string>();
+let shortcodeContentDir: string | null = null;
+let iframeHosts: string[] = [...SHORTCODES.IFRAME_HOSTS];
+
+/**
+ * Configure where shortcode templates and gallery images are loaded from
+ * @param options - Templates directory, content directory and extra iframe hosts
+ */
+export function setShortcodeOptions(options: ShortcodeOptions = {}) {
+  const dir = options.templatesDir
+    ? path.join(options.templatesDir, SHORTCODES.TEMPLATES_DIR)
+    : null;
+
+  siteShortcodes = new Set();
+  if (dir) {
+    try {
+      for (const file of new Glob("*.njk").scanSync({ cwd: dir })) {
+        siteShortcodes.add(file.slice(0, -".njk".length));
+      }
+    } catch {
+      // No templates/shortcodes/ directory: only built-ins are available
+    }
+  }
+
+  shortcodeEnv = new nunjucks.Environment(
+    dir && siteShortcodes.size > 0 ? new nunjucks.FileSystemLoader(dir) : null,
+    { autoescape: true },
+  );
+  shortcodeContentDir = options.contentDir ?? null;
+  iframeHosts = [...SHORTCODES.IFRAME_HOSTS, ...(options.iframeHosts ?? [])];
+}
+
+/**
+ * Parse shortcode arguments
+ * @param raw - Argument string (e.g. ` dir="_assets/kyoto" columns=3`)
+ * @returns Arguments keyed by name
+ */
+export function parseShortcodeArgs(raw: string): Record<string, string> {
+  const args: Record<string, string> = {};
+  for (const [, key, doubleQuoted, singleQuoted, bare] of raw.matchAll(SHORTCODE_ARG_REGEX)) {
+    args[key] = doubleQuoted ?? singleQuoted ?? bare;
+  }
+  return args;
+}
+
+/**
+ * List images in a folder of the current post's year, for gallery-style shortcodes
+ * @param dir - Folder relative to content/{year}/ (e.g. "_assets/kyoto")
+ * @param context - Rendering context
+ * @returns Images sorted by file name
+ */
+function listImages(dir: string, context: ShortcodeContext): GalleryImage[] {
+  if (!shortcodeContentDir || !context.postYear || typeof dir !== "string") {
+    console.warn(`Shortcode images for "${dir}" are only available in dated posts`);
+    return [];
+  }
+
+  const yearDir = path.resolve(shortcodeContentDir, context.postYear);
+  const folder = path.resolve(yearDir, dir);
+  if (!folder.startsWith(`${yearDir}${path.sep}`)) {
+    console.warn(`Shortcode image folder "${dir}" must be inside content/${context.postYear}/`);
+    return [];
+  }
+
+  const extensions: readonly string[] = SHORTCODES.GALLERY_EXTENSIONS;
+  let filenames: string[];
+  try {
+    filenames = [...new Glob("*").scanSync({ cwd: folder })]
+      .filter((file) => extensions.includes(path.extname(file).toLowerCase()))
+      .sort();
+  } catch {
+    console.warn(`Shortcode image folder not found: content/${context.postYear}/${dir}`);
+    return [];
+  }
+
+  const relativeDir = path.relative(yearDir, folder).split(path.sep).join("/");
+  return filenames.map((filename) => ({
+    src: context.resolveAsset(`./${relativeDir}/${filename}`),
+    alt: path.basename(filename, path.extname(filename)).replace(/[-_]+/g, " "),
+    filename,
+  }));
+}
+
+/**
+ * Render one shortcode
+ * @param name - Shortcode name
+ * @param args - Parsed arguments
+ * @param context - Rendering context
+ * @param inner - Rendered HTML between paired tags
+ * @returns Rendered HTML, or null if the shortcode is unknown or its template failed
+ */
+export function renderShortcode(
+  name: string,
+  args: Record<string, string>,
+  context: ShortcodeContext,
+  inner?: string,
+): string | null {
+  const templateContext = {
+    ...args,
+    inner: inner === undefined ? undefined : new nunjucks.runtime.SafeString(inner),
+    year: context.postYear,
+    asset: context.resolveAsset,
+    listImages: (dir: string) => listImages(dir, context),
+  };
+
+  try {
+    if (siteShortcodes.has(name)) {
+      return shortcodeEnv.render(`${name}.njk`, templateContext).trim();
+    }
+    if (Object.hasOwn(BUILTIN_SHORTCODES, name)) {
+      return shortcodeEnv.renderString(BUILTIN_SHORTCODES[name], templateContext);
+    }
+    console.warn(`Unknown shortcode "${name}"`);
+  } catch (error) {
+    console.warn(`Error rendering shortcode "${name}":`, error);
+  }
+  return null;
+}
+
+/**
+ * Start collecting shortcode output for one document
+ */
+export function createShortcodeBatch(): ShortcodeBatch {
+  return { id: crypto.randomUUID().replaceAll("-", ""), html: [] };
+}
+
+/**
+ * Marked extension that renders shortcodes into placeholders.
+ * A shortcode alone in its own block renders without a wrapping paragraph.
+ * @param batch - Collects rendered output for restoreShortcodes
+ * @param context - Rendering context
+ */
+export function markedShortcodes(
+  batch: ShortcodeBatch,
+  context: ShortcodeContext,
+): MarkedExtension {
+  function render(this: RendererThis, token: Tokens.Generic): string {
+    const { name, args, raw, tokens } = token as unknown as ShortcodeToken;
+    const inner = tokens ? this.parser.parse(tokens) : undefined;
+    const html = renderShortcode(name, args, context, inner);
+    if (html === null) {
+      return escapeXml(raw.trim());
+    }
+    return `bunki-shortcode-${batch.id}-${batch.html.push(html) - 1}`;
+  }
+
+  return {
+    extensions: [
+      {
+        name: "shortcodeBlock",
+        level: "block",
+        tokenizer(this: TokenizerThis, src: string) {
+          const open = SHORTCODE_REGEX.exec(src);
+          if (!open) return undefined;
+
+          const [openTag, name, rawArgs] = open;
+          const close = new RegExp(`^([\\s\\S]*?)\\{\\{<\\s*\\/${name}\\s*>\\}\\}`).exec(
+            src.slice(openTag.length),
+          );
+          const end = openTag.length + (close ? close[0].length : 0);
+          const trailing = /^[^\S\n]*(?:\n+|$)/.exec(src.slice(end));
+          if (!trailing) return undefined;
+
+          return {
+            type: "shortcodeBlock",
+            raw: src.slice(0, end + trailing[0].length),
+            name,
+            args: parseShortcodeArgs(rawArgs),
+            tokens: close ? this.lexer.blockTokens(close[1].trim(), []) : undefined,
+          };
+        },
+        renderer(token) {
+          return `${render.call(this, token)}\n`;
+        },
+      },
+      {
+        name: "shortcode",
+        level: "inline",
+        start(src: string) {
+          const index = src.indexOf("{{<");
+          return index === -1 ? undefined : index;
+        },
+        tokenizer(src: string) {
+          const match = SHORTCODE_REGEX.exec(src);
+          if (!match) return undefined;
+          return {
+            type: "shortcode",
+            raw: match[0],
+            name: match[1],
+            args: parseShortcodeArgs(match[2]),
+          };
+        },
+        renderer: render,
+      },
+    ],
+  };
+}
+
+/**
+ * Allow-list for shortcode output: the post allow-list plus figures and embeds from known hosts
+ * @param base - Sanitizer options used for the rest of the post
+ */
+function getShortcodeSanitizeOptions(base: sanitizeHtml.IOptions): sanitizeHtml.IOptions {
+  return {
+    ...base,
+    allowedTags: [...(base.allowedTags || []), "figure", "figcaption"],
+    allowedAttributes: {
+      ...base.allowedAttributes,
+      iframe: [
+        "src",
+        "title",
+        "width",
+        "height",
+        "frameborder",
+        "allow",
+        "allowfullscreen",
+        "loading",
+        "referrerpolicy",
+      ],
+    },
+    allowedClasses: {
+      ...base.allowedClasses,
+      "*": ["shortcode-*", "video-container"],
+    },
+    allowedIframeHostnames: iframeHosts,
+  };
+}
+
+/**
+ * Replace placeholders in sanitized HTML with sanitized shortcode output
+ * @param html - Sanitized document HTML
+ * @param batch - Shortcode output collected during rendering
+ * @param baseOptions - Sanitizer options used for the rest of the post
+ * @returns HTML with shortcodes in place
+ */
+export function restoreShortcodes(
+  html: string,
+  batch: ShortcodeBatch,
+  baseOptions: sanitizeHtml.IOptions,
+): string {
+  if (batch.html.length === 0) {
+    return html;
+  }
+
+  const options = getShortcodeSanitizeOptions(baseOptions);
+  const placeholder = new RegExp(`bunki-shortcode-${batch.id}-(\\d+)`, "g");
+
+  // A paired shortcode's inner HTML holds placeholders for the shortcodes nested in it.
+  // Those render first, so they always have a lower index and the recursion ends.
+  function expand(index: number): string {
+    return (batch.html[index] ?? "").replace(placeholder, (match, nested) =>
+      Number(nested) < index ? expand(Number(nested)) : match,
+    );
+  }
+
+  return html.replace(placeholder, (_match, index) => sanitizeHtml(expand(Number(index)), options));
+}
@@ -3,6 +3,7 @@
  */
 
 import type { Frontmatter, FrontmatterBusinessInput } from "../../types";
+import { normalizePermalink } from "../permalink";
 import { SCHEMA_ORG_PLACE_TYPES } from "./constants";
 
 export interface ValidationError {
@@ -117,6 +118,76 @@ export function validateTags(
   return null;
 }
 
+/**
+ * Validate series frontmatter
+ * @param series - Series name or { name, order } object
+ * @param filePath - File path for error reporting
+ * @returns ValidationError if invalid, null otherwise
+ */
+export function validateSeries(
+  series: Frontmatter["series"] | null | undefined,
+  filePath: string,
+): ValidationError | null {
+  if (series === undefined || series === null) return null;
+
+  const name = typeof series === "string" ? series : series.name;
+  if (typeof name !== "string" || name.trim() === "") {
+    return {
+      file: filePath,
+      type: "validation",
+      message: "Series must have a name",
+      suggestion: 'Use series: "Japan 2025" or series: { name: "Japan 2025", order: 2 }',
+    };
+  }
+
+  if (typeof series === "object" && series.order !== undefined) {
+    if (typeof series.order !== "number" || !Number.isFinite(series.order)) {
+      return {
+        file: filePath,
+        type: "validation",
+        message: `Series order must be a number. Found: ${JSON.stringify(series.order)}`,
+        suggestion: "Use a number, e.g. order: 2",
+      };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Validate aliases frontmatter (old URLs that should redirect to the post)
+ * @param aliases - Array of site-relative URLs
+ * @param filePath - File path for error reporting
+ * @returns ValidationError if invalid, null otherwise
+ */
+export function validateAliases(
+  aliases: Frontmatter["aliases"] | null | undefined,
+  filePath: string,
+): ValidationError | null {
+  if (aliases === undefined || aliases === null) return null;
+
+  if (!Array.isArray(aliases)) {
+    return {
+      file: filePath,
+      type: "validation",
+      message: "Aliases must be a list of URLs",
+      suggestion: 'Use aliases: ["/2019/old-slug/"]',
+    };
+  }
+
+  const invalid = aliases.filter((alias) => normalizePermalink(alias) === null);
+  if (invalid.length > 0) {
+    return {
+      file: filePath,
+      type: "validation",
+      message: `Aliases must be site-relative paths. Found: ${invalid.map((a) => JSON.stringify(a)).join(", ")}`,
+      suggestion: 'Start each alias with "/", e.g. "/2019/old-slug/"',
+    };
+  }
+
+  return null;
+}
+
 /**
  * Check for deprecated 'location' field (should use 'business' instead)
  * @param data - Frontmatter data
@@ -0,0 +1,113 @@
+/**
+ * Output manifest
+ * Records every file a build produces so the next build can delete outputs that are
+ * no longer produced (pages of deleted posts, emptied tag directories, dropped feeds)
+ */
+
+import { readdir, rmdir } from "node:fs/promises";
+import path from "node:path";
+import { deleteFile } from "./file-utils";
+
+/** Bump when the manifest format changes */
+export const OUTPUT_MANIFEST_VERSION = 1;
+
+export interface OutputManifest {
+  /** Version of the manifest format */
+  version: number;
+  /** Absolute output directory the files were written to */
+  outputDir: string;
+  /** Output files, relative to the output directory */
+  files: string[];
+}
+
+/**
+ * Load the files the previous build produced
+ * @param manifestPath - Manifest file path
+ * @param outputDir - Absolute output directory of this build
+ * @returns Relative output paths (empty when the manifest is missing, outdated or for another directory)
+ */
+export async function loadOutputManifest(
+  manifestPath: string,
+  outputDir: string,
+): Promise<string[]> {
+  const file = Bun.file(manifestPath);
+  if (!(await file.exists())) {
+    return [];
+  }
+
+  try {
+    const manifest = (await file.json()) as OutputManifest;
+    if (manifest.version !== OUTPUT_MANIFEST_VERSION || manifest.outputDir !== outputDir) {
+      return [];
+    }
+    return manifest.files;
+  } catch (error) {
+    console.warn("Error loading output manifest, skipping cleanup:", error);
+    return [];
+  }
+}
+
+/**
+ * Save the files this build produced, in sorted order
+ * @param manifestPath - Manifest file path
+ * @param outputDir - Absolute output directory
+ * @param files - Relative output paths
+ */
+export async function saveOutputManifest(
+  manifestPath: string,
+  outputDir: string,
+  files: Iterable<string>,
+): Promise<void> {
+  const manifest: OutputManifest = {
+    version: OUTPUT_MANIFEST_VERSION,
+    outputDir,
+    files: [...new Set(files)].sort(),
+  };
+  await Bun.write(manifestPath, JSON.stringify(manifest, null, 2));
+}
+
+/**
+ * Files the previous build produced that this build did not
+ * @param previous - Files from the previous manifest
+ * @param current - Files produced by this build
+ * @returns Stale relative paths, sorted
+ */
+export function getStaleOutputs(
+  previous: readonly string[],
+  current: ReadonlySet<string>,
+): string[] {
+  return previous.filter((file) => !current.has(file)).sort();
+}
+
+/**
+ * Delete stale output files and any directories they leave empty
+ * @param outputDir - Absolute output directory
+ * @param stale - Relative paths from getStaleOutputs
+ */
+export async function pruneOutputs(outputDir: string, stale: readonly string[]): Promise<void> {
+  const root = path.resolve(outputDir);
+  const parents = new Set<string>();
+
+  for (const file of stale) {
+    const filePath = path.resolve(root, file);
+    // Never follow a hand-edited manifest outside the output directory
+    if (!filePath.startsWith(`${root}${path.sep}`)) continue;
+
+    await deleteFile(filePath);
+    parents.add(path.dirname(filePath));
+  }
+
+  // Deepest directories first, so emptied parents are removed too
+  const dirs = [...parents].sort((a, b) => b.length - a.length);
+  for (let dir of dirs) {
+    while (dir.startsWith(`${root}${path.sep}`)) {
+      try {
+        if ((await readdir(dir)).length > 0) break;
+        await rmdir(dir);
+      } catch {
+        break;
+      }
+      dir = path.dirname(dir);
+    }
+  }
+}
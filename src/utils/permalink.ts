@@ -0,0 +1,95 @@
+/**
+ * Permalink utilities
+ * Resolves post URLs from patterns like /{year}/{month}/{slug}/
+ */
+
+import slugify from "slugify";
+import { PERMALINK } from "../constants";
+import type { Post } from "../types";
+import { toSiteTime } from "./date-utils";
+
+const TOKEN_REGEX = /\{([^}]*)\}/g;
+const KNOWN_TOKENS: ReadonlySet<string> = new Set(PERMALINK.TOKENS);
+
+/**
+ * Normalize a site-relative permalink
+ * @param permalink - Permalink from config or frontmatter
+ * @returns Permalink with a trailing slash (unless it ends in .html), or null if invalid
+ */
+export function normalizePermalink(permalink: unknown): string | null {
+  if (typeof permalink !== "string") return null;
+  const trimmed = permalink.trim();
+  if (!trimmed.startsWith("/") || trimmed.split("/").includes("..")) return null;
+  return trimmed.endsWith("/") || trimmed.endsWith(".html") ? trimmed : `${trimmed}/`;
+}
+
+/**
+ * Validate a permalink pattern
+ * @param pattern - Pattern such as /{year}/{month}/{slug}/
+ * @param requireSlug - Whether the pattern must contain {slug} (true for site-wide patterns)
+ * @returns Error message, or null if the pattern is valid
+ */
+export function validatePermalinkPattern(pattern: unknown, requireSlug = true): string | null {
+  if (normalizePermalink(pattern) === null) {
+    return `Invalid permalink ${JSON.stringify(pattern)}: must be a site-relative path starting with "/"`;
+  }
+
+  const tokens = [...(pattern as string).matchAll(TOKEN_REGEX)].map(([, token]) => token);
+  const unknown = tokens.filter((token) => !KNOWN_TOKENS.has(token));
+  if (unknown.length > 0) {
+    return `Unknown permalink token(s) ${unknown.map((t) => `{${t}}`).join(", ")}; use ${PERMALINK.TOKENS.map((t) => `{${t}}`).join(", ")}`;
+  }
+
+  if (requireSlug && !tokens.includes("slug")) {
+    return `Permalink pattern ${JSON.stringify(pattern)} must contain {slug} so every post gets a unique URL`;
+  }
+
+  return null;
+}
+
+/**
+ * Build a post URL from a permalink pattern
+ * Date tokens use the site timezone, matching year archives.
+ *
+ * @param pattern - Valid permalink pattern
+ * @param post - Post providing the date, slug and category
+ * @param timeZone - Site timezone
+ * @returns Site-relative URL
+ */
+export function formatPermalink(
+  pattern: string,
+  post: Pick<Post, "date" | "slug" | "category">,
+  timeZone?: string,
+): string {
+  const date = toSiteTime(post.date, timeZone);
+  const values: Record<string, string> = {
+    year: String(date.getFullYear()),
+    month: String(date.getMonth() + 1).padStart(2, "0"),
+    day: String(date.getDate()).padStart(2, "0"),
+    slug: post.slug,
+    category: post.category
+      ? slugify(post.category, { lower: true, strict: true })
+      : PERMALINK.DEFAULT_CATEGORY,
+  };
+
+  const url = pattern.replace(TOKEN_REGEX, (match, token: string) => values[token] ?? match);
+  return normalizePermalink(url) ?? url;
+}
+
+/**
+ * Point internal links at the final post URLs
+ * Relative markdown links are rewritten to the default /{year}/{slug}/ shape at
+ * parse time, before every post's permalink is known; this maps them afterwards.
+ *
+ * @param html - Rendered HTML
+ * @param urlMap - Default post URL → final post URL
+ * @returns HTML with rewritten hrefs
+ */
+export function rewriteInternalLinks(html: string, urlMap: ReadonlyMap<string, string>): string {
+  if (urlMap.size === 0) return html;
+
+  return html.replace(/href="(\/[^"#]*)(#[^"]*)?"/g, (match, url: string, anchor = "") => {
+    const target = urlMap.get(url);
+    return target ? `href="${target}${anchor}"` : match;
+  });
+}
@@ -0,0 +1,181 @@
+/**
+ * Plugin hook runner
+ * Calls plugin hooks in registration order and attributes failures to the plugin that threw
+ */
+
+import type {
+  BuildCompleteContext,
+  BunkiPlugin,
+  Post,
+  RenderedPage,
+  Site,
+  SiteConfig,
+} from "../types";
+
+export type PluginHook = Exclude<keyof BunkiPlugin, "name">;
+
+/**
+ * Error thrown when a plugin hook fails
+ */
+export class PluginError extends Error {
+  /** Name of the plugin that threw */
+  readonly pluginName: string;
+  /** Hook that was running */
+  readonly hook: PluginHook;
+
+  constructor(pluginName: string, hook: PluginHook, cause: unknown) {
+    const reason = cause instanceof Error ? cause.message : String(cause);
+    super(`Plugin "${pluginName}" failed in ${hook}: ${reason}`, { cause });
+    this.name = "PluginError";
+    this.pluginName = pluginName;
+    this.hook = hook;
+  }
+}
+
+/**
+ * Check that every configured plugin has a name
+ * @param plugins - Plugins from config.plugins
+ * @returns Error message, or null if all plugins are valid
+ */
+export function validatePlugins(plugins: readonly BunkiPlugin[]): string | null {
+  const index = plugins.findIndex(
+    (plugin) => !plugin || typeof plugin.name !== "string" || plugin.name.trim() === "",
+  );
+  return index === -1 ? null : `plugins[${index}] must be an object with a non-empty "name"`;
+}
+
+/**
+ * Run one plugin hook, wrapping any failure in a PluginError
+ */
+async function callHook<T>(
+  plugin: BunkiPlugin,
+  hook: PluginHook,
+  call: () => T | Promise<T>,
+): Promise<T> {
+  try {
+    return await call();
+  } catch (error) {
+    throw error instanceof PluginError ? error : new PluginError(plugin.name, hook, error);
+  }
+}
+
+/**
+ * Run a synchronous extension hook (extendMarked, extendTemplateEngine) for every plugin
+ * @param plugins - Registered plugins
+ * @param hook - Hook name
+ * @param target - Object being extended
+ */
+export function runExtendHook<K extends "extendMarked" | "extendTemplateEngine">(
+  plugins: readonly BunkiPlugin[],
+  hook: K,
+  target: Parameters<NonNullable<BunkiPlugin[K]>>[0],
+): void {
+  for (const plugin of plugins) {
+    const extend = plugin[hook] as ((value: typeof target) => void) | undefined;
+    if (!extend) continue;
+
+    try {
+      extend.call(plugin, target);
+    } catch (error) {
+      throw new PluginError(plugin.name, hook, error);
+    }
+  }
+}
+
+/**
+ * Apply onConfig hooks
+ * @param plugins - Registered plugins
+ * @param config - Loaded configuration
+ * @returns Configuration after every plugin has had a turn
+ */
+export async function applyConfigHooks(
+  plugins: readonly BunkiPlugin[],
+  config: SiteConfig,
+): Promise<SiteConfig> {
+  let current = config;
+  for (const plugin of plugins) {
+    if (!plugin.onConfig) continue;
+    current = (await callHook(plugin, "onConfig", () => plugin.onConfig?.(current))) ?? current;
+  }
+  return current;
+}
+
+/**
+ * Apply onPostParsed hooks to one post
+ * @param plugins - Registered plugins
+ * @param post - Parsed post
+ * @param config - Site configuration
+ * @returns Post after every plugin has had a turn
+ */
+export async function applyPostHooks(
+  plugins: readonly BunkiPlugin[],
+  post: Post,
+  config: SiteConfig,
+): Promise<Post> {
+  let current = post;
+  for (const plugin of plugins) {
+    if (!plugin.onPostParsed) continue;
+    current =
+      (await callHook(plugin, "onPostParsed", () => plugin.onPostParsed?.(current, config))) ??
+      current;
+  }
+  return current;
+}
+
+/**
+ * Apply onSiteModel hooks
+ * @param plugins - Registered plugins
+ * @param site - Site model
+ * @param config - Site configuration
+ * @returns Site model after every plugin has had a turn
+ */
+export async function applySiteModelHooks(
+  plugins: readonly BunkiPlugin[],
+  site: Site,
+  config: SiteConfig,
+): Promise<Site> {
+  let current = site;
+  for (const plugin of plugins) {
+    if (!plugin.onSiteModel) continue;
+    current =
+      (await callHook(plugin, "onSiteModel", () => plugin.onSiteModel?.(current, config))) ??
+      current;
+  }
+  return current;
+}
+
+/**
+ * Apply onPageRendered hooks to one page
+ * @param plugins - Registered plugins
+ * @param page - Output path and rendered HTML
+ * @returns HTML after every plugin has had a turn
+ */
+export async function applyPageRenderedHooks(
+  plugins: readonly BunkiPlugin[],
+  page: RenderedPage,
+): Promise<string> {
+  let html = page.html;
+  for (const plugin of plugins) {
+    if (!plugin.onPageRendered) continue;
+    html =
+      (await callHook(plugin, "onPageRendered", () =>
+        plugin.onPageRendered?.({ path: page.path, html }),
+      )) ?? html;
+  }
+  return html;
+}
+
+/**
+ * Run onBuildComplete hooks
+ * @param plugins - Registered plugins
+ * @param context - Final site, config and output directory
+ */
+export async function runBuildCompleteHooks(
+  plugins: readonly BunkiPlugin[],
+  context: BuildCompleteContext,
+): Promise<void> {
+  for (const plugin of plugins) {
+    if (!plugin.onBuildComplete) continue;
+    await callHook(plugin, "onBuildComplete", () => plugin.onBuildComplete?.(context));
+  }
+}
@@ -0,0 +1,135 @@
+/**
+ * Redirect utilities
+ * Turns post aliases into redirect stub pages and a host `_redirects` file
+ */
+
+import type { Redirect, Site, SiteConfig } from "../types";
+import { escapeXml } from "./xml-builder";
+
+/** Redirect status codes honoured by `bunki serve` */
+const REDIRECT_STATUSES = new Set([301, 302, 303, 307, 308]);
+
+/**
+ * A `_redirects` rule that `bunki serve` can answer
+ */
+export interface RedirectRule {
+  /** Site-relative target URL (or absolute URL) */
+  to: string;
+  /** HTTP status code */
+  status: number;
+}
+
+/**
+ * Collect redirects from post aliases.
+ * Aliases that point at a real post or page URL are skipped so a stub never
+ * replaces content; an alias claimed by two posts goes to the first (newest).
+ *
+ * @param site - Site data
+ * @returns Redirects sorted by source URL
+ */
+export function collectRedirects(site: Site): Redirect[] {
+  const realUrls = new Set([...site.posts, ...site.pages].map((item) => item.url));
+  const redirects = new Map<string, Redirect>();
+
+  for (const post of site.posts) {
+    for (const alias of post.aliases ?? []) {
+      if (alias === post.url) continue;
+
+      if (realUrls.has(alias)) {
+        console.warn(`Skipping alias ${alias} of ${post.url}: another post or page uses that URL`);
+        continue;
+      }
+
+      const existing = redirects.get(alias);
+      if (existing) {
+        console.warn(`Skipping alias ${alias} of ${post.url}: already redirects to ${existing.to}`);
+        continue;
+      }
+
+      redirects.set(alias, { from: alias, to: post.url });
+    }
+  }
+
+  return [...redirects.values()].sort((a, b) => a.from.localeCompare(b.from));
+}
+
+/**
+ * Build the HTML stub written at an alias URL
+ * Works on any static host: browsers follow the meta refresh and search engines
+ * consolidate on the canonical link.
+ *
+ * @param redirect - Redirect to render
+ * @param config - Site configuration
+ * @returns Redirect page HTML
+ */
+export function buildRedirectPage(redirect: Redirect, config: SiteConfig): string {
+  const target = escapeXml(redirect.to);
+  const canonical = escapeXml(`${config.baseUrl}${redirect.to}`);
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <title>Redirecting…</title>
+  <link rel="canonical" href="${canonical}">
+  <meta name="robots" content="noindex">
+  <meta http-equiv="refresh" content="0; url=${target}">
+</head>
+<body>
+  <p>This page has moved to <a href="${target}">${canonical}</a>.</p>
+</body>
+</html>
+`;
+}
+
+/**
+ * Build a `_redirects` file (Netlify / Cloudflare Pages syntax)
+ * @param redirects - Redirects to include
+ * @returns One `from to 301` rule per line
+ */
+export function buildRedirectsFile(redirects: readonly Redirect[]): string {
+  return redirects.map(({ from, to }) => `${from} ${to} 301\n`).join("");
+}
+
+/**
+ * Parse the exact-path rules of a `_redirects` file.
+ * Splats, placeholders, query matching and rewrites (status 200) are ignored.
+ *
+ * @param content - `_redirects` file content
+ * @returns Source path → rule
+ */
+export function parseRedirectsFile(content: string): Map<string, RedirectRule> {
+  const rules = new Map<string, RedirectRule>();
+
+  for (const line of content.split("\n")) {
+    const [from, to, statusField = "301"] = line.trim().split(/\s+/);
+    if (!from || !to || from.startsWith("#")) continue;
+    if (from.includes("*") || from.includes(":")) continue;
+
+    const status = Number.parseInt(statusField, 10);
+    if (!REDIRECT_STATUSES.has(status)) continue;
+
+    // The first matching rule wins, as on Netlify and Cloudflare Pages
+    if (!rules.has(from)) {
+      rules.set(from, { to, status });
+    }
+  }
+
+  return rules;
+}
+
+/**
+ * Find the redirect rule for a request path
+ * Matches with and without a trailing slash, as static hosts do.
+ *
+ * @param rules - Parsed `_redirects` rules
+ * @param pathname - Request path
+ * @returns Matching rule, or null
+ */
+export function matchRedirect(
+  rules: ReadonlyMap<string, RedirectRule>,
+  pathname: string,
+): RedirectRule | null {
+  const alternate = pathname.endsWith("/") ? pathname.slice(0, -1) : `${pathname}/`;
+  return rules.get(pathname) ?? rules.get(alternate) ?? null;
+}
@@ -0,0 +1,154 @@
+/**
+ * Related posts scoring
+ * Links posts to each other by shared tags, category and business proximity
+ */
+
+import { RELATED_POSTS } from "../constants";
+import type { Business, Post, RelatedPost } from "../types";
+
+const EARTH_RADIUS_KM = 6371;
+
+/**
+ * Great-circle distance between two businesses
+ * @param a - First business
+ * @param b - Second business
+ * @returns Distance in kilometres
+ */
+export function getDistanceKm(a: Business, b: Business): number {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  const dLat = toRadians(b.lat - a.lat);
+  const dLng = toRadians(b.lng - a.lng);
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(a.lat)) * Math.cos(toRadians(b.lat)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(h));
+}
+
+/**
+ * Score how related two posts are
+ * @param a - First post
+ * @param b - Second post
+ * @returns Non-negative score (0 means unrelated)
+ */
+export function scoreRelatedness(a: Post, b: Post): number {
+  return scoreWithTagSet(a, getTagSet(a), b);
+}
+
+/**
+ * Lowercased tags of a post
+ * @param post - Post
+ */
+function getTagSet(post: Post): Set<string> {
+  return new Set(post.tags.map((tag) => tag.toLowerCase()));
+}
+
+/**
+ * Score how related two posts are, given the first post's lowercased tags
+ * @param a - First post
+ * @param tagsA - Lowercased tags of the first post
+ * @param b - Second post
+ * @returns Non-negative score (0 means unrelated)
+ */
+function scoreWithTagSet(a: Post, tagsA: ReadonlySet<string>, b: Post): number {
+  let sharedTags = 0;
+  for (const tag of b.tags) {
+    if (tagsA.has(tag.toLowerCase())) sharedTags++;
+  }
+  let score = sharedTags * RELATED_POSTS.TAG_WEIGHT;
+
+  if (a.category && b.category && a.category.toLowerCase() === b.category.toLowerCase()) {
+    score += RELATED_POSTS.CATEGORY_WEIGHT;
+  }
+
+  if (a.business && b.business) {
+    const distance = getDistanceKm(a.business, b.business);
+    if (distance < RELATED_POSTS.PROXIMITY_RADIUS_KM) {
+      score += RELATED_POSTS.PROXIMITY_WEIGHT * (1 - distance / RELATED_POSTS.PROXIMITY_RADIUS_KM);
+    }
+  }
+
+  return score;
+}
+
+/**
+ * Reduce a post to the fields templates need for a "see also" link
+ * @param post - Post to summarize
+ * @returns Related post summary
+ */
+function toRelatedPost(post: Post): RelatedPost {
+  return {
+    title: post.title,
+    url: post.url,
+    date: post.date,
+    excerpt: post.excerpt,
+    tags: post.tags,
+    ...(post.image ? { image: post.image } : {}),
+  };
+}
+
+/**
+ * Find the most related posts for every post.
+ * Ties are broken by newer date, so results are stable across builds.
+ * Each post is only scored against posts sharing a tag or category, or with a
+ * business (which may be nearby), found through inverted indexes.
+ *
+ * @param posts - All published posts
+ * @param count - Maximum related posts per post
+ * @returns Related posts, index-aligned with the input
+ */
+export function findRelatedPosts(posts: readonly Post[], count: number): RelatedPost[][] {
+  if (count <= 0) {
+    return posts.map(() => []);
+  }
+
+  const tagSets = posts.map(getTagSet);
+  const times = posts.map((post) => new Date(post.date).getTime());
+  const postsByTag = new Map<string, number[]>();
+  const postsByCategory = new Map<string, number[]>();
+  const postsWithBusiness: number[] = [];
+  const addTo = (index: Map<string, number[]>, key: string, postIndex: number) => {
+    const list = index.get(key);
+    if (list) {
+      list.push(postIndex);
+    } else {
+      index.set(key, [postIndex]);
+    }
+  };
+
+  posts.forEach((post, index) => {
+    for (const tag of tagSets[index]) addTo(postsByTag, tag, index);
+    if (post.category) addTo(postsByCategory, post.category.toLowerCase(), index);
+    if (post.business) postsWithBusiness.push(index);
+  });
+
+  return posts.map((post, index) => {
+    const candidates = new Set<number>();
+    for (const tag of tagSets[index]) {
+      for (const candidate of postsByTag.get(tag) ?? []) candidates.add(candidate);
+    }
+    if (post.category) {
+      for (const candidate of postsByCategory.get(post.category.toLowerCase()) ?? []) {
+        candidates.add(candidate);
+      }
+    }
+    if (post.business) {
+      for (const candidate of postsWithBusiness) candidates.add(candidate);
+    }
+    candidates.delete(index);
+
+    return [...candidates]
+      .map((candidate) => ({
+        candidate,
+        score: scoreWithTagSet(post, tagSets[index], posts[candidate]),
+      }))
+      .filter(({ score }) => score > 0)
+      .sort(
+        (a, b) =>
+          b.score - a.score ||
+          times[b.candidate] - times[a.candidate] ||
+          posts[a.candidate].url.localeCompare(posts[b.candidate].url),
+      )
+      .slice(0, count)
+      .map(({ candidate }) => toRelatedPost(posts[candidate]));
+  });
+}
@@ -0,0 +1,288 @@
+/**
+ * Render planning for incremental builds
+ * Maps posts and templates to the output files they feed, so an incremental build
+ * re-renders only the outputs affected by what changed
+ */
+
+import path from "node:path";
+import { hash } from "bun";
+import { PAGINATION } from "../constants";
+import { getEnabledFeeds, getTagFeedPath, getYearFeedPath } from "../generators/feeds";
+import {
+  getIndexPagePath,
+  getOutputPath,
+  getTagPagePath,
+  getYearPagePath,
+} from "../generators/pages";
+import type { Page, Post, Site, SiteConfig } from "../types";
+import { findFilesByPattern } from "./file-utils";
+import { getTotalPages } from "./pagination";
+
+/** `{% extends %}`, `{% include %}`, `{% import %}` and `{% from %}` with a literal name */
+const TEMPLATE_REFERENCE_REGEX = /\{%-?\s*(?:extends|include|import|from)\s+["']([^"']+)["']/g;
+
+/**
+ * A Nunjucks template and the templates it pulls in
+ */
+export interface TemplateFile {
+  /** Absolute file path */
+  path: string;
+  /** Names of templates referenced with extends, include, import or from */
+  dependencies: string[];
+}
+
+/**
+ * Find every template and its direct dependencies.
+ * Names resolve like the Nunjucks loader: the first directory containing a name wins.
+ * @param dirs - Template search paths in loader order
+ * @returns Template name (e.g. "partials/header.njk") → file and dependencies
+ */
+export async function scanTemplates(dirs: readonly string[]): Promise<Map<string, TemplateFile>> {
+  const templates = new Map<string, TemplateFile>();
+
+  for (const dir of dirs) {
+    const files = (await findFilesByPattern("**/*.njk", dir, false)).sort();
+    for (const file of files) {
+      const name = file.split(path.sep).join("/");
+      if (templates.has(name)) continue;
+
+      const filePath = path.join(dir, file);
+      const source = await Bun.file(filePath).text();
+      const dependencies = [...source.matchAll(TEMPLATE_REFERENCE_REGEX)].map((match) => match[1]);
+      templates.set(name, { path: filePath, dependencies });
+    }
+  }
+
+  return templates;
+}
+
+/**
+ * Expand changed templates to every template that extends, includes or imports them
+ * @param changed - Names of changed templates
+ * @param templates - Templates from scanTemplates
+ * @returns Changed templates plus all templates that depend on them, directly or not
+ */
+export function getAffectedTemplates(
+  changed: Iterable<string>,
+  templates: ReadonlyMap<string, TemplateFile>,
+): Set<string> {
+  const affected = new Set(changed);
+
+  let grew = affected.size > 0;
+  while (grew) {
+    grew = false;
+    for (const [name, template] of templates) {
+      if (!affected.has(name) && template.dependencies.some((dep) => affected.has(dep))) {
+        affected.add(name);
+        grew = true;
+      }
+    }
+  }
+
+  return affected;
+}
+
+/**
+ * Page number on which an item appears in a paginated listing
+ * @param index - 0-based position in the listing
+ */
+function getPageNumber(index: number): number {
+  return Math.floor(index / PAGINATION.DEFAULT_PAGE_SIZE) + 1;
+}
+
+/**
+ * Feed files that list posts
+ * @param config - Site configuration
+ */
+function getFeedOutputs(config: SiteConfig): string[] {
+  const feeds = getEnabledFeeds(config);
+  return [
+    "sitemap.xml",
+    ...(feeds.rss ? ["feed.xml"] : []),
+    ...(feeds.atom ? ["atom.xml"] : []),
+    ...(feeds.json ? ["feed.json"] : []),
+    ...(config.search?.enabled ? ["search.json"] : []),
+  ];
+}
+
+/**
+ * Redirect stubs for a post's aliases and the `_redirects` file listing them.
+ * They depend only on the post URL and its aliases, not on the post's content.
+ * @param post - Post from the site model
+ * @returns Output paths relative to the output directory
+ */
+export function getRedirectOutputs(post: Post): string[] {
+  const aliases = post.aliases ?? [];
+  return aliases.length > 0 ? [...aliases.map(getOutputPath), "_redirects"] : [];
+}
+
+/**
+ * Output files a post contributes to: its own page, alias stubs and `_redirects`, the index,
+ * tag, year and series pages listing it, the map, and the feeds that include it
+ * @param post - Post from the site model
+ * @param site - Site model
+ * @param config - Site configuration
+ * @returns Output paths relative to the output directory
+ */
+export function getPostOutputs(post: Post, site: Site, config: SiteConfig): string[] {
+  const feeds = getEnabledFeeds(config);
+  const outputs = [getOutputPath(post.url), ...getRedirectOutputs(post)];
+
+  const index = site.posts.indexOf(post);
+  if (index !== -1) {
+    outputs.push(getIndexPagePath(getPageNumber(index)));
+  }
+
+  outputs.push("tags/index.html");
+  for (const tagName of post.tags) {
+    const tag = site.tags[tagName];
+    if (!tag) continue;
+    const tagIndex = tag.posts.indexOf(post);
+    if (tagIndex !== -1) {
+      outputs.push(getTagPagePath(tag.slug, getPageNumber(tagIndex)));
+    }
+    if (feeds.tags) {
+      outputs.push(getTagFeedPath(tag.slug).slice(1));
+    }
+  }
+
+  for (const [year, posts] of Object.entries(site.postsByYear)) {
+    const yearIndex = posts.indexOf(post);
+    if (yearIndex === -1) continue;
+    outputs.push(getYearPagePath(year, getPageNumber(yearIndex)));
+    if (feeds.years) {
+      outputs.push(getYearFeedPath(year).slice(1));
+    }
+  }
+
+  if (post.series?.slug) {
+    outputs.push(`series/${post.series.slug}/index.html`);
+  }
+
+  outputs.push("map/index.html", ...getFeedOutputs(config));
+  return outputs;
+}
+
+/**
+ * Outputs that list posts and change whenever posts are added, removed, reordered or retagged
+ * @param site - Site model
+ * @param config - Site configuration
+ */
+export function getListingOutputs(site: Site, config: SiteConfig): string[] {
+  const feeds = getEnabledFeeds(config);
+  const outputs: string[] = ["tags/index.html", "map/index.html", ...getFeedOutputs(config)];
+
+  for (
+    let page = 1;
+    page <= getTotalPages(site.posts.length, PAGINATION.DEFAULT_PAGE_SIZE);
+    page++
+  ) {
+    outputs.push(getIndexPagePath(page));
+  }
+  for (const tag of Object.values(site.tags)) {
+    for (let page = 1; page <= getTotalPages(tag.count, PAGINATION.DEFAULT_PAGE_SIZE); page++) {
+      outputs.push(getTagPagePath(tag.slug, page));
+    }
+    if (feeds.tags) {
+      outputs.push(getTagFeedPath(tag.slug).slice(1));
+    }
+  }
+  for (const [year, posts] of Object.entries(site.postsByYear)) {
+    for (let page = 1; page <= getTotalPages(posts.length, PAGINATION.DEFAULT_PAGE_SIZE); page++) {
+      outputs.push(getYearPagePath(year, page));
+    }
+    if (feeds.years) {
+      outputs.push(getYearFeedPath(year).slice(1));
+    }
+  }
+  for (const series of Object.values(site.series)) {
+    outputs.push(`series/${series.slug}/index.html`);
+  }
+
+  return outputs;
+}
+
+/**
+ * Every rendered output and the template it is rendered from (null for feeds and
+ * redirect stubs, which use no template)
+ * @param site - Site model
+ * @param config - Site configuration
+ * @returns Output path → template name
+ */
+export function getSiteOutputs(site: Site, config: SiteConfig): Map<string, string | null> {
+  const outputs = new Map<string, string | null>();
+
+  for (const output of getListingOutputs(site, config)) {
+    outputs.set(output, output.endsWith(".html") ? getListingTemplate(output) : null);
+  }
+  for (const post of site.posts) {
+    outputs.set(getOutputPath(post.url), "post.njk");
+    for (const alias of post.aliases ?? []) {
+      outputs.set(getOutputPath(alias), null);
+    }
+  }
+  if (site.posts.some((post) => (post.aliases ?? []).length > 0)) {
+    outputs.set("_redirects", null);
+  }
+  for (const page of site.pages) {
+    outputs.set(getOutputPath(page.url), "page.njk");
+  }
+
+  outputs.set("404.html", "404.njk");
+  outputs.set("privacy/index.html", "privacy.njk");
+  if (config.search?.enabled) {
+    outputs.set("search/index.html", "search.njk");
+  }
+
+  return outputs;
+}
+
+/**
+ * Template used to render a listing page
+ * @param output - Listing output path from getListingOutputs
+ */
+function getListingTemplate(output: string): string {
+  if (output === "tags/index.html") return "tags.njk";
+  if (output === "map/index.html") return "map.njk";
+  if (output.startsWith("tags/")) return "tag.njk";
+  if (output.startsWith("series/")) return "series.njk";
+  if (/^\d{4}\//.test(output)) return "archive.njk";
+  return "index.njk";
+}
+
+/**
+ * Hash of everything a post's page is rendered from (including related posts and series links)
+ * @param post - Post from the site model
+ */
+export function hashPost(post: Post): string {
+  return hash(JSON.stringify(post)).toString(36);
+}
+
+/**
+ * Hash of a standalone page's data
+ * @param page - Page from the site model
+ */
+export function hashPage(page: Page): string {
+  return hash(JSON.stringify(page)).toString(36);
+}
+
+/**
+ * Hash of the site's shape: post order, tags and their counts, years and series.
+ * When it changes, every listing output is re-rendered.
+ * @param site - Site model
+ */
+export function hashSiteStructure(site: Site): string {
+  return hash(
+    JSON.stringify({
+      posts: site.posts.map((post) => post.url),
+      tags: Object.values(site.tags).map(({ name, slug, count, description }) => [
+        name,
+        slug,
+        count,
+        description,
+      ]),
+      years: Object.entries(site.postsByYear).map(([year, posts]) => [year, posts.length]),
+      series: Object.values(site.series).map(({ slug, name, posts }) => [slug, name, posts.length]),
+    }),
+  ).toString(36);
+}
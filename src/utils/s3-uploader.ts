@@ -1,13 +1,38 @@
 import path from "node:path";
 import { S3Client } from "bun";
-import type { ImageUploader, S3Config, SiteConfig, Uploader } from "../types";
+import { DEPLOY } from "../constants";
+import type {
+  DeployOptions,
+  DeployResult,
+  ImageUploader,
+  S3Config,
+  SiteConfig,
+  Uploader,
+} from "../types";
+import {
+  isObjectUnchanged,
+  loadDeployManifest,
+  normalizePrefix,
+  saveDeployManifest,
+  scanDeployObjects,
+} from "./deploy";
+import { isDirectory } from "./file-utils";
 
 interface S3FileLike {
   write(file: Bun.BunFile): Promise<number>;
 }
 
+interface S3ListPage {
+  contents?: { key: string }[];
+  isTruncated?: boolean;
+  nextContinuationToken?: string;
+}
+
 interface S3ClientLike {
   file(key: string): S3FileLike;
+  presign(key: string, options: { method: "PUT"; expiresIn: number }): string;
+  list(input: { prefix?: string; continuationToken?: string }): Promise<S3ListPage>;
+  delete(key: string): Promise<void>;
 }
 
 /**
@@ -28,6 +53,9 @@ export class S3Uploader implements Uploader, ImageUploader {
         file: () => ({
           write: async () => 0,
         }),
+        presign: () => "",
+        list: async () => ({ contents: [] }),
+        delete: async () => {},
       };
     } else {
       // Create a new S3Client with the provided configuration
@@ -45,35 +73,148 @@ export class S3Uploader implements Uploader, ImageUploader {
     }
   }
 
-  async upload(sourcePath: string, config: SiteConfig): Promise<void> {
-    console.log(
-      `[S3] Uploading site ${sourcePath} to S3 bucket ${this.s3Config.bucket}/${config.domain}...`,
+  /**
+   * Sync a built site to the bucket.
+   * Objects whose hash, Content-Type and Cache-Control match the local manifest are skipped.
+   *
+   * @param sourcePath - Built site directory
+   * @param config - Site configuration (deploy.prefix and deploy.cacheControl are applied)
+   * @param options - Delete and dry-run switches
+   * @returns Uploaded, skipped and deleted objects
+   */
+  async upload(
+    sourcePath: string,
+    config: SiteConfig,
+    options: DeployOptions = {},
+  ): Promise<DeployResult> {
+    if (!(await isDirectory(sourcePath))) {
+      throw new Error(`Deploy source directory not found: ${sourcePath}`);
+    }
+
+    const prefix = normalizePrefix(config.deploy?.prefix);
+    const target = prefix ? `${this.s3Config.bucket}/${prefix}` : this.s3Config.bucket;
+    const dryRun = options.dryRun === true || process.env.BUNKI_DRY_RUN === "true";
+    const manifestPath = options.manifestPath ?? path.join(process.cwd(), DEPLOY.MANIFEST_FILE);
+
+    console.log(`[S3] Deploying ${sourcePath} to ${target}${dryRun ? " (dry run)" : ""}...`);
+
+    const manifest = await loadDeployManifest(manifestPath, target);
+    const local = await scanDeployObjects(sourcePath, prefix, config.deploy?.cacheControl);
+    const changedKeys = Object.keys(local).filter(
+      (key) => !isObjectUnchanged(manifest.objects[key], local[key]),
     );
 
-    try {
-      // This is a simplified implementation - a full implementation would
-      // recursively upload all files from the source path
-      const glob = new Bun.Glob("*");
-      const files: string[] = [];
+    const uploaded: string[] = [];
+    const failed: string[] = [];
+    await this.executeWithConcurrency(
+      changedKeys.map((key) => async () => {
+        const { filePath, ...object } = local[key];
+        try {
+          if (!dryRun) {
+            await this.putObject(key, filePath, object.contentType, object.cacheControl);
+            manifest.objects[key] = object;
+          }
+          uploaded.push(key);
+        } catch (error) {
+          failed.push(key);
+          console.error(`[S3] Error uploading ${key}:`, error);
+        }
+      }),
+      DEPLOY.CONCURRENCY,
+    );
 
-      for await (const file of glob.scan({
-        cwd: sourcePath,
-        absolute: false,
-      })) {
-        files.push(file);
-      }
+    const deleted: string[] = [];
+    if (options.delete) {
+      const staleKeys = (await this.listKeys(prefix)).filter((key) => !(key in local));
+      await this.executeWithConcurrency(
+        staleKeys.map((key) => async () => {
+          try {
+            if (!dryRun) {
+              await this.client.delete(key);
+              delete manifest.objects[key];
+            }
+            deleted.push(key);
+          } catch (error) {
+            failed.push(key);
+            console.error(`[S3] Error deleting ${key}:`, error);
+          }
+        }),
+        DEPLOY.CONCURRENCY,
+      );
+    }
 
-      console.log(`Found ${files.length} files to upload`);
+    // Save progress even when some objects failed so the next run only retries those
+    if (!dryRun) {
+      await saveDeployManifest(manifestPath, manifest);
+    }
 
-      // Recursive file upload would go here...
+    const result: DeployResult = {
+      uploaded: uploaded.sort(),
+      skipped: Object.keys(local).length - changedKeys.length,
+      deleted: deleted.sort(),
+    };
+    console.log(
+      `[S3] ${dryRun ? "Would upload" : "Uploaded"} ${result.uploaded.length}, ` +
+        `skipped ${result.skipped} unchanged, ` +
+        `${dryRun ? "would delete" : "deleted"} ${result.deleted.length}`,
+    );
 
-      console.log(`[S3] Upload to ${config.domain} complete!`);
-    } catch (error) {
-      console.error(`Error uploading site to S3:`, error);
-      throw error;
+    if (failed.length > 0) {
+      throw new Error(`Deploy failed for ${failed.length} objects: ${failed.sort().join(", ")}`);
+    }
+    return result;
+  }
+
+  /**
+   * Upload one object with explicit Content-Type and Cache-Control headers.
+   * Bun's S3 writer cannot set Cache-Control, so the upload goes through a presigned PUT.
+   *
+   * @param key - Object key
+   * @param filePath - Local file
+   * @param contentType - Content-Type header
+   * @param cacheControl - Cache-Control header
+   */
+  private async putObject(
+    key: string,
+    filePath: string,
+    contentType: string,
+    cacheControl: string,
+  ): Promise<void> {
+    const url = this.client.presign(key, {
+      method: "PUT",
+      expiresIn: DEPLOY.PRESIGN_EXPIRES_SECONDS,
+    });
+    const response = await fetch(url, {
+      method: "PUT",
+      body: Bun.file(filePath),
+      headers: { "Content-Type": contentType, "Cache-Control": cacheControl },
+    });
+    if (!response.ok) {
+      throw new Error(`PUT ${key} failed with HTTP ${response.status}`);
     }
   }
 
+  /**
+   * List every object key under a prefix, following continuation tokens
+   * @param prefix - Normalized key prefix ("" for the whole bucket)
+   * @returns Object keys
+   */
+  private async listKeys(prefix: string): Promise<string[]> {
+    const keys: string[] = [];
+    let continuationToken: string | undefined;
+
+    do {
+      const page = await this.client.list({
+        ...(prefix ? { prefix: `${prefix}/` } : {}),
+        ...(continuationToken ? { continuationToken } : {}),
+      });
+      keys.push(...(page.contents ?? []).map((object) => object.key));
+      continuationToken = page.isTruncated ? page.nextContinuationToken : undefined;
+    } while (continuationToken);
+
+    return keys;
+  }
+
   /**
    * Get the public URL for a file in S3
    * @param s3Path Path to the file within the bucket
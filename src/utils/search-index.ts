@@ -0,0 +1,155 @@
+/**
+ * Search index utilities
+ * Builds the compact JSON index consumed by the client-side search page
+ */
+
+import type { Post } from "../types";
+
+/**
+ * A single searchable document in search.json
+ */
+export interface SearchDocument {
+  /** Post title */
+  title: string;
+  /** Post excerpt shown in results */
+  excerpt: string;
+  /** Post tags */
+  tags: string[];
+  /** Site-relative post URL */
+  url: string;
+  /** Publication date (ISO string) */
+  date: string;
+  /** Unique stemmed tokens from the post body */
+  tokens: string[];
+}
+
+/**
+ * Shape of search.json
+ */
+export interface SearchIndex {
+  /** Index format version, bumped when the document shape or stemming changes */
+  version: number;
+  /** Words left out of the index; the search box drops them from queries too */
+  stopWords: string[];
+  /** One document per published post, newest first */
+  documents: SearchDocument[];
+}
+
+export const SEARCH_INDEX_VERSION = 2;
+
+// Common English words that carry no search value
+const STOP_WORDS = new Set([
+  "a",
+  "an",
+  "and",
+  "are",
+  "as",
+  "at",
+  "be",
+  "but",
+  "by",
+  "for",
+  "from",
+  "has",
+  "have",
+  "in",
+  "is",
+  "it",
+  "its",
+  "of",
+  "on",
+  "or",
+  "that",
+  "the",
+  "this",
+  "to",
+  "was",
+  "were",
+  "will",
+  "with",
+]);
+
+// Suffix rules applied in order; the first match wins. Kept deliberately small
+// because the search fragment applies the same rules to queries in the browser.
+const SUFFIX_RULES: ReadonlyArray<readonly [RegExp, string]> = [
+  [/ies$/, "y"],
+  [/sses$/, "ss"],
+  [/([^s])s$/, "$1"],
+  [/ing$/, ""],
+  [/ed$/, ""],
+  [/ly$/, ""],
+];
+
+const MIN_STEM_LENGTH = 3;
+
+/**
+ * Reduce a lowercase word to its search stem
+ * @param word - Lowercase word
+ * @returns Stemmed word (unchanged if stripping would leave fewer than 3 characters)
+ */
+export function stemWord(word: string): string {
+  for (const [pattern, replacement] of SUFFIX_RULES) {
+    if (pattern.test(word)) {
+      const stem = word.replace(pattern, replacement);
+      return stem.length >= MIN_STEM_LENGTH ? stem : word;
+    }
+  }
+  return word;
+}
+
+/**
+ * Split text into unique stemmed search tokens
+ * @param text - Plain text
+ * @returns Unique tokens in first-seen order
+ */
+export function tokenize(text: string): string[] {
+  const tokens = new Set<string>();
+
+  for (const word of text.toLowerCase().split(/[^\p{L}\p{N}]+/u)) {
+    if (word.length < 2 || STOP_WORDS.has(word)) continue;
+    tokens.add(stemWord(word));
+  }
+
+  return [...tokens];
+}
+
+/**
+ * Strip tags and decode the handful of entities the markdown renderer emits
+ * @param html - Rendered post HTML
+ * @returns Plain text
+ */
+function htmlToText(html: string): string {
+  return html
+    .replace(/<(script|style)[^>]*>[\s\S]*?<\/\1>/gi, " ")
+    .replace(/<[^>]+>/g, " ")
+    .replace(/&(amp|lt|gt|quot|#39|apos|nbsp);/g, " ");
+}
+
+/**
+ * Build a search document for a post
+ * @param post - Published post
+ * @returns Search document with stemmed body tokens
+ */
+export function createSearchDocument(post: Post): SearchDocument {
+  return {
+    title: post.title,
+    excerpt: post.excerpt,
+    tags: post.tags,
+    url: post.url,
+    date: post.date,
+    tokens: tokenize(`${post.title} ${post.tags.join(" ")} ${htmlToText(post.html)}`),
+  };
+}
+
+/**
+ * Build the full search index for a list of posts
+ * @param posts - Published posts
+ * @returns Search index ready to serialize
+ */
+export function buildSearchIndex(posts: readonly Post[]): SearchIndex {
+  return {
+    version: SEARCH_INDEX_VERSION,
+    stopWords: [...STOP_WORDS],
+    documents: posts.map(createSearchDocument),
+  };
+}
@@ -0,0 +1,84 @@
+/**
+ * File watching for development rebuilds
+ * Debounces bursts of filesystem events into a single rebuild callback
+ */
+
+import path from "node:path";
+import chokidar from "chokidar";
+import { isDirectory, isFile } from "./file-utils";
+
+export interface WatchPathsOptions {
+  /** Directories (watched recursively) and individual files to watch */
+  paths: string[];
+  /** Called with the changed absolute paths once events settle */
+  onChange: (changedPaths: string[]) => void | Promise<void>;
+  /** Quiet period before onChange fires (default: 100ms) */
+  debounceMs?: number;
+}
+
+/**
+ * Watch directories and files, invoking onChange after changes settle.
+ * Changes that arrive while onChange is still running are queued for one more run,
+ * so a slow rebuild never overlaps with the next one.
+ *
+ * @param options - Paths to watch and change handler
+ * @returns Function that stops watching and releases the watched file handles
+ */
+export async function watchPaths(options: WatchPathsOptions): Promise<() => Promise<void>> {
+  const { paths, onChange, debounceMs = 100 } = options;
+  const pending = new Set<string>();
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let running = false;
+  let closed = false;
+
+  const flush = async (): Promise<void> => {
+    timer = null;
+    if (running || pending.size === 0) return;
+
+    running = true;
+    const changed = [...pending];
+    pending.clear();
+
+    try {
+      await onChange(changed);
+    } catch (error) {
+      console.error("❌ Rebuild failed:", error);
+    } finally {
+      running = false;
+      if (pending.size > 0) schedule();
+    }
+  };
+
+  const schedule = (): void => {
+    if (closed) return;
+    if (timer) clearTimeout(timer);
+    timer = setTimeout(flush, debounceMs);
+  };
+
+  // Missing paths are skipped rather than polled for until they appear.
+  // Editors that save by replacing a file are handled by chokidar's atomic write detection.
+  const existing: string[] = [];
+  for (const watchPath of paths) {
+    const resolved = path.resolve(watchPath);
+    if ((await isDirectory(resolved)) || (await isFile(resolved))) {
+      existing.push(resolved);
+    }
+  }
+  if (existing.length === 0) {
+    return async () => {};
+  }
+
+  const watcher = chokidar.watch(existing, { ignoreInitial: true });
+  watcher.on("all", (_event, changedPath) => {
+    pending.add(path.resolve(changedPath));
+    schedule();
+  });
+  watcher.on("error", (error) => console.error("❌ Watcher error:", error));
+  await new Promise<void>((resolve) => watcher.once("ready", resolve));
+
+  return async () => {
+    closed = true;
+    if (timer) clearTimeout(timer);
+    await watcher.close();
+  };
+}
@@ -7,20 +7,28 @@ import { existsSync } from "node:fs";
 import path from "node:path";
 import nunjucks from "nunjucks";
 import { DATE } from "../constants";
-import { toPacificTime } from "./date-utils";
+import type { BunkiPlugin } from "../types";
+import { toSiteTime } from "./date-utils";
+import { runExtendHook } from "./plugins";
 
 // In the built bundle (dist/cli.js), import.meta.dir is the dist/ directory and
 // fragments live at dist/fragments/. When running tests directly from source,
 // import.meta.dir is src/utils/ so we fall back to src/fragments/.
 const _distFragments = path.join(import.meta.dir, "fragments");
 const _srcFragments = path.join(import.meta.dir, "../fragments");
-const BUNKI_FRAGMENTS_DIR = existsSync(_distFragments) ? _distFragments : _srcFragments;
+export const BUNKI_FRAGMENTS_DIR = existsSync(_distFragments) ? _distFragments : _srcFragments;
+
+/** Environment set up by the last createTemplateEngine call */
+let currentEnvironment: nunjucks.Environment | null = null;
 
 /**
  * Create and configure Nunjucks template engine with custom filters
  *
  * @param templatesDir - Directory containing template files
  * @param watch - Enable template watching for development (default: false)
+ * @param timeZone - Site timezone for the date filter (default: America/Los_Angeles)
+ * @param plugins - Plugins whose extendTemplateEngine hook adds filters and globals
+ * @param fragmentsDir - Directory of Bunki's built-in fragments (default: next to this module)
  * @returns Configured Nunjucks environment
  *
  * @example
@@ -32,21 +40,44 @@ const BUNKI_FRAGMENTS_DIR = existsSync(_distFragments) ? _distFragments : _srcFr
 export function createTemplateEngine(
   templatesDir: string,
   watch: boolean = false,
+  timeZone: string = DATE.DEFAULT_TIMEZONE,
+  plugins: readonly BunkiPlugin[] = [],
+  fragmentsDir: string = BUNKI_FRAGMENTS_DIR,
 ): nunjucks.Environment {
-  const env = nunjucks.configure([templatesDir, BUNKI_FRAGMENTS_DIR], {
+  const env = nunjucks.configure([templatesDir, fragmentsDir], {
     autoescape: true,
     watch,
   });
 
-  // Add date filter for Pacific timezone formatting
-  env.addFilter("date", formatDate);
+  // Add date filter formatting in the site timezone
+  env.addFilter("date", (date: string | Date, format?: string) =>
+    formatDate(date, format, timeZone),
+  );
 
   // Add titlecase filter with tech acronym awareness
   env.addFilter("titlecase", titleCase);
 
+  runExtendHook(plugins, "extendTemplateEngine", env);
+
+  currentEnvironment = env;
   return env;
 }
 
+/**
+ * Check whether a template exists in the site's templates or Bunki's fragments
+ * @param name - Template name, e.g. "search.njk"
+ * @returns False when the template engine has not been set up
+ */
+export function hasTemplate(name: string): boolean {
+  if (!currentEnvironment) return false;
+  try {
+    currentEnvironment.getTemplate(name);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
 /**
  * Title case filter with tech acronym awareness
  * Converts hyphenated slugs to display titles, uppercasing known acronyms
@@ -88,14 +119,15 @@ function titleCase(str: string): string {
 
 /**
  * Format date filter for Nunjucks templates
- * Converts dates to Pacific timezone and formats according to specified pattern
+ * Converts dates to the site timezone and formats according to specified pattern
  *
  * @param date - Date string or Date object
  * @param format - Format string (YYYY, MMMM D, YYYY, MMMM D, YYYY h:mm A, or default)
+ * @param timeZone - Site timezone
  * @returns Formatted date string
  */
-function formatDate(date: string | Date, format?: string): string {
-  const d = toPacificTime(date);
+function formatDate(date: string | Date, format: string | undefined, timeZone: string): string {
+  const d = toSiteTime(date, timeZone);
   const month = DATE.MONTHS[d.getMonth()];
 
   switch (format) {
@@ -112,8 +144,6 @@ function formatDate(date: string | Date, format?: string): string {
     }
 
     default:
-      return d.toLocaleDateString("en-US", {
-        timeZone: "America/Los_Angeles",
-      });
+      return d.toLocaleDateString("en-US", { timeZone });
   }
 }
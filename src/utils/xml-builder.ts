@@ -125,3 +125,57 @@ export function buildRSSItem(params: RSSItemParams): string {
 
   return itemXml;
 }
+
+/**
+ * Fields of a single Atom feed entry
+ */
+export interface AtomEntryParams {
+  title: string;
+  link: string;
+  /** Publication date (RFC 3339) */
+  published: string;
+  summary: string;
+  content: string;
+  tags?: string[];
+  author?: { name: string; email?: string };
+  image?: string | null;
+}
+
+/**
+ * Build Atom entry with all metadata
+ * @param params - Atom entry parameters
+ * @returns Atom entry XML string
+ */
+export function buildAtomEntry(params: AtomEntryParams): string {
+  const { title, link, published, summary, content, tags, author, image } = params;
+
+  let entryXml = `  <entry>
+    <title type="html">${escapeXml(title)}</title>
+    <link href="${escapeXml(link)}" rel="alternate" type="text/html" />
+    <id>${escapeXml(link)}</id>
+    <published>${published}</published>
+    <updated>${published}</updated>`;
+
+  if (author) {
+    entryXml += `\n    <author>\n      <name>${escapeXml(author.name)}</name>`;
+    if (author.email) {
+      entryXml += `\n      <email>${escapeXml(author.email)}</email>`;
+    }
+    entryXml += `\n    </author>`;
+  }
+
+  for (const tag of tags ?? []) {
+    entryXml += `\n    <category term="${escapeXml(tag)}" />`;
+  }
+
+  entryXml += `\n    <summary type="html">${escapeXml(summary)}</summary>`;
+  entryXml += `\n    <content type="html">${escapeXml(content)}</content>`;
+
+  if (image) {
+    entryXml += `\n    <media:thumbnail url="${escapeXml(image)}" />`;
+  }
+
+  entryXml += `\n  </entry>`;
+
+  return entryXml;
+}
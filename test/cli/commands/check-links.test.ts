@@ -0,0 +1,86 @@
+import { describe, expect, test } from "bun:test";
+import path from "node:path";
+import { Command } from "commander";
+import {
+  handleCheckLinksCommand,
+  registerCheckLinksCommand,
+} from "../../../src/cli/commands/check-links";
+import type { SiteConfig } from "../../../src/types";
+import type { BrokenLink } from "../../../src/utils/link-checker";
+
+const config: SiteConfig = {
+  title: "Test",
+  description: "Test",
+  baseUrl: "https://example.com",
+  domain: "example",
+};
+
+function createDeps(broken: BrokenLink[]) {
+  const calls: {
+    outputDir?: string;
+    baseUrl?: string;
+    exitCode?: number;
+    logs: string[];
+    errors: unknown[][];
+  } = { logs: [], errors: [] };
+
+  const deps = {
+    loadConfig: async () => config,
+    checkLinks: async (outputDir: string, options?: { baseUrl?: string }) => {
+      calls.outputDir = outputDir;
+      calls.baseUrl = options?.baseUrl;
+      return broken;
+    },
+    logger: {
+      log: (message: string) => calls.logs.push(message),
+      error: (...args: unknown[]) => calls.errors.push(args),
+    },
+    exit: (code: number) => {
+      calls.exitCode = code;
+    },
+  };
+
+  return { calls, deps };
+}
+
+describe("CLI Check Links Command (handler)", () => {
+  test("passes when every link resolves", async () => {
+    const { calls, deps } = createDeps([]);
+
+    await handleCheckLinksCommand({ config: "bunki.config.ts", output: "dist" }, deps);
+
+    expect(calls.outputDir).toBe(path.resolve("dist"));
+    expect(calls.baseUrl).toBe("https://example.com");
+    expect(calls.logs).toContain("No broken links found.");
+    expect(calls.exitCode).toBeUndefined();
+  });
+
+  test("lists broken links and exits non-zero", async () => {
+    const { calls, deps } = createDeps([
+      { file: "index.html", line: 12, url: "/2015/missing/" },
+      { file: "2025/kyoto/index.html", line: 3, url: "photo.jpg" },
+    ]);
+
+    await handleCheckLinksCommand({ config: "bunki.config.ts", output: "dist" }, deps);
+
+    expect(calls.errors).toEqual([
+      [
+        "Found 2 broken link(s):\nindex.html:12  /2015/missing/\n2025/kyoto/index.html:3  photo.jpg",
+      ],
+    ]);
+    expect(calls.exitCode).toBe(1);
+  });
+});
+
+describe("CLI Check Links Command (registration)", () => {
+  test("registers check-links with its options", () => {
+    const program = new Command();
+    registerCheckLinksCommand(program);
+
+    const command = program.commands.find((c) => c.name() === "check-links");
+    expect(command?.description()).toBe(
+      "Report internal links in the generated site that point to missing files",
+    );
+    expect(command?.options.map((o) => o.long)).toEqual(["--config", "--output"]);
+  });
+});
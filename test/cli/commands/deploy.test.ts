@@ -0,0 +1,108 @@
+import { describe, expect, test } from "bun:test";
+import path from "node:path";
+import { Command } from "commander";
+import { handleDeployCommand, registerDeployCommand } from "../../../src/cli/commands/deploy";
+import type { DeployOptions, S3Config, SiteConfig } from "../../../src/types";
+import type { createUploader } from "../../../src/utils/s3-uploader";
+
+const s3: S3Config = {
+  accessKeyId: "key",
+  secretAccessKey: "secret",
+  bucket: "images-bucket",
+  publicUrl: "https://img.example.com",
+};
+
+const baseConfig: SiteConfig = {
+  title: "Test",
+  description: "Test",
+  baseUrl: "https://example.com",
+  domain: "example",
+  s3,
+};
+
+function createDeps(config: SiteConfig) {
+  const calls: {
+    s3Config?: S3Config;
+    sourcePath?: string;
+    options?: DeployOptions;
+    exitCode?: number;
+    errors: unknown[];
+  } = { errors: [] };
+
+  const deps = {
+    loadConfig: async () => config,
+    createUploader: ((s3Config: S3Config) => {
+      calls.s3Config = s3Config;
+      return {
+        upload: async (sourcePath: string, _config: SiteConfig, options?: DeployOptions) => {
+          calls.sourcePath = sourcePath;
+          calls.options = options;
+          return { uploaded: [], skipped: 0, deleted: [] };
+        },
+        uploadImages: async () => ({}),
+      };
+    }) as typeof createUploader,
+    logger: { log: () => {}, error: (...args: unknown[]) => calls.errors.push(args) },
+    exit: (code: number) => {
+      calls.exitCode = code;
+    },
+  };
+
+  return { calls, deps };
+}
+
+describe("CLI Deploy Command (handler)", () => {
+  test("deploys the output directory with the top-level s3 config", async () => {
+    const { calls, deps } = createDeps(baseConfig);
+
+    await handleDeployCommand({ config: "bunki.config.ts", output: "dist" }, deps);
+
+    expect(calls.s3Config?.bucket).toBe("images-bucket");
+    expect(calls.sourcePath).toBe(path.resolve("dist"));
+    expect(calls.options).toEqual({ delete: undefined, dryRun: undefined });
+    expect(calls.exitCode).toBeUndefined();
+  });
+
+  test("prefers deploy.s3 and forwards --delete and --dry-run", async () => {
+    const { calls, deps } = createDeps({
+      ...baseConfig,
+      deploy: { s3: { ...s3, bucket: "site-bucket", publicUrl: "" } },
+      publicUrl: "https://example.com",
+    });
+
+    await handleDeployCommand(
+      { config: "bunki.config.ts", output: "dist", delete: true, dryRun: true },
+      deps,
+    );
+
+    expect(calls.s3Config?.bucket).toBe("site-bucket");
+    expect(calls.s3Config?.publicUrl).toBe("https://example.com");
+    expect(calls.options).toEqual({ delete: true, dryRun: true });
+  });
+
+  test("exits with an error when no bucket is configured", async () => {
+    const { calls, deps } = createDeps({ ...baseConfig, s3: undefined });
+
+    await handleDeployCommand({ config: "bunki.config.ts", output: "dist" }, deps);
+
+    expect(calls.exitCode).toBe(1);
+    expect(calls.sourcePath).toBeUndefined();
+    expect(String(calls.errors[0])).toInclude("Missing S3 configuration");
+  });
+});
+
+describe("CLI Deploy Command (registration)", () => {
+  test("registers deploy with its options", () => {
+    const program = new Command();
+    registerDeployCommand(program);
+
+    const command = program.commands.find((c) => c.name() === "deploy");
+    expect(command?.description()).toBe("Sync the generated site to S3-compatible storage");
+    expect(command?.options.map((o) => o.long)).toEqual([
+      "--config",
+      "--output",
+      "--delete",
+      "--dry-run",
+    ]);
+  });
+});
@@ -0,0 +1,95 @@
+import { describe, expect, test } from "bun:test";
+import path from "node:path";
+import { Command } from "commander";
+import { handleServeCommand, registerServeCommand } from "../../../src/cli/commands/serve";
+import type { SiteGenerator } from "../../../src/site-generator";
+import type { SiteConfig } from "../../../src/types";
+import type { WatchPathsOptions } from "../../../src/utils/site-watcher";
+
+const config: SiteConfig = {
+  title: "Test",
+  description: "Test",
+  baseUrl: "https://example.com",
+  domain: "example",
+};
+
+function createDeps() {
+  const calls: {
+    configs: SiteConfig[];
+    builds: number;
+    watches: WatchPathsOptions[];
+    stopped: number;
+    reloads: number;
+  } = { configs: [config], builds: 0, watches: [], stopped: 0, reloads: 0 };
+
+  const deps = {
+    startServer: async () => ({}) as ReturnType<typeof Bun.serve>,
+    loadConfig: async () => calls.configs[calls.configs.length - 1],
+    createGenerator: () =>
+      ({
+        enableIncrementalMode: () => {},
+        initialize: async () => {},
+        generate: async () => {
+          calls.builds++;
+        },
+      }) as unknown as SiteGenerator,
+    watchPaths: async (options: WatchPathsOptions) => {
+      calls.watches.push(options);
+      return async () => {
+        calls.stopped++;
+      };
+    },
+    notifyLiveReload: () => {
+      calls.reloads++;
+    },
+    logger: { log: () => {}, error: () => {} },
+    exit: () => {},
+  };
+
+  return { calls, deps };
+}
+
+describe("CLI Serve Command (handler)", () => {
+  test("watch mode rebuilds and reloads on change", async () => {
+    const { calls, deps } = createDeps();
+
+    await handleServeCommand({ output: "dist", port: "3000", watch: true }, deps);
+    expect(calls.builds).toBe(1);
+    expect(calls.watches).toHaveLength(1);
+
+    await calls.watches[0].onChange([path.resolve("content/2025/post.md")]);
+
+    expect(calls.builds).toBe(2);
+    expect(calls.reloads).toBe(1);
+    expect(calls.watches).toHaveLength(1);
+    expect(calls.stopped).toBe(0);
+  });
+
+  test("a config change replaces the watcher with one on the new paths", async () => {
+    const { calls, deps } = createDeps();
+
+    await handleServeCommand(
+      { output: "dist", port: "3000", watch: true, config: "bunki.config.ts" },
+      deps,
+    );
+    calls.configs.push({ ...config, templatesDir: "theme" });
+    await calls.watches[0].onChange([path.resolve("bunki.config.ts")]);
+
+    expect(calls.stopped).toBe(1);
+    expect(calls.watches).toHaveLength(2);
+    expect(calls.watches[0].paths).toContain(path.resolve("templates"));
+    expect(calls.watches[1].paths).toContain(path.resolve("theme"));
+    expect(calls.watches[1].paths).not.toContain(path.resolve("templates"));
+  });
+});
+
+describe("CLI Serve Command (registration)", () => {
+  test("registers serve with its watch options", () => {
+    const program = new Command();
+    registerServeCommand(program);
+
+    const command = program.commands.find((c) => c.name() === "serve");
+    expect(command).toBeDefined();
+    expect(command?.options.map((option) => option.long)).toContain("--watch");
+  });
+});
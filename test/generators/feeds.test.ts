@@ -0,0 +1,192 @@
+import { describe, expect, test } from "bun:test";
+import {
+  generateAtomFeed,
+  generateJSONFeed,
+  generateRSSFeed,
+  generateTagRSSFeed,
+  generateYearRSSFeed,
+  getEnabledFeeds,
+  getTagFeedPath,
+  getYearFeedPath,
+} from "../../src/generators/feeds";
+import type { Post, Site, SiteConfig, TagData } from "../../src/types";
+
+const config: SiteConfig = {
+  title: "Test Blog",
+  description: "Posts & notes",
+  baseUrl: "https://example.com",
+  domain: "example",
+  authorName: "Jane Doe",
+  authorEmail: "jane@example.com",
+  copyright: "Copyright © 2025 Test Blog",
+};
+
+function createPost(overrides: Partial<Post> = {}): Post {
+  return {
+    title: "Hello World",
+    date: "2025-01-15T10:00:00Z",
+    tags: ["news"],
+    tagSlugs: { news: "news" },
+    content: "",
+    slug: "hello-world",
+    excerpt: "First post",
+    html: "<p>Hello</p>",
+    url: "/2025/hello-world/",
+    image: "/images/hello.jpg",
+    ...overrides,
+  };
+}
+
+function createSite(posts: Post[]): Site {
+  return { name: "test", posts, tags: {}, postsByYear: {}, series: {}, pages: [] };
+}
+
+describe("Feed Generators", () => {
+  describe("getEnabledFeeds", () => {
+    test("should enable site and tag RSS by default", () => {
+      expect(getEnabledFeeds(config)).toEqual({
+        rss: true,
+        atom: false,
+        json: false,
+        tags: true,
+        years: false,
+      });
+    });
+
+    test("should respect configured switches", () => {
+      const feeds = { rss: false, atom: true, json: true, tags: false, years: true };
+      expect(getEnabledFeeds({ ...config, feeds })).toEqual(feeds);
+    });
+  });
+
+  describe("generateAtomFeed", () => {
+    test("should include feed metadata and self link", () => {
+      const xml = generateAtomFeed(createSite([createPost()]), config);
+
+      expect(xml).toStartWith('<?xml version="1.0" encoding="UTF-8"?>');
+      expect(xml).toInclude('<feed xmlns="http://www.w3.org/2005/Atom"');
+      expect(xml).toInclude('xml:lang="en-US"');
+      expect(xml).toInclude("<title>Test Blog</title>");
+      expect(xml).toInclude("<subtitle>Posts &amp; notes</subtitle>");
+      expect(xml).toInclude(
+        '<link href="https://example.com/atom.xml" rel="self" type="application/atom+xml" />',
+      );
+      expect(xml).toInclude("<id>https://example.com/</id>");
+      expect(xml).toInclude("<updated>2025-01-15T10:00:00.000Z</updated>");
+      expect(xml).toInclude("<rights>Copyright © 2025 Test Blog</rights>");
+      expect(xml).toInclude("<name>Jane Doe</name>");
+    });
+
+    test("should build entries with absolute URLs and images", () => {
+      const xml = generateAtomFeed(createSite([createPost()]), config);
+
+      expect(xml).toInclude("<id>https://example.com/2025/hello-world/</id>");
+      expect(xml).toInclude('<media:thumbnail url="https://example.com/images/hello.jpg" />');
+      expect(xml).toInclude('<category term="news" />');
+    });
+
+    test("should select the same posts as the RSS feed", () => {
+      const posts = Array.from({ length: 45 }, (_, i) =>
+        createPost({ url: `/2025/post-${i}/`, title: `Post ${i}` }),
+      );
+      const site = createSite(posts);
+
+      const atomCount = generateAtomFeed(site, config).split("<entry>").length - 1;
+      const rssCount = generateRSSFeed(site, config).split("<item>").length - 1;
+
+      expect(atomCount).toBe(rssCount);
+      expect(atomCount).toBe(40);
+    });
+  });
+
+  describe("generateJSONFeed", () => {
+    test("should produce a JSON Feed 1.1 document", () => {
+      const feed = JSON.parse(generateJSONFeed(createSite([createPost()]), config));
+
+      expect(feed.version).toBe("https://jsonfeed.org/version/1.1");
+      expect(feed.title).toBe("Test Blog");
+      expect(feed.home_page_url).toBe("https://example.com/");
+      expect(feed.feed_url).toBe("https://example.com/feed.json");
+      expect(feed.language).toBe("en-US");
+      expect(feed.authors).toEqual([{ name: "Jane Doe" }]);
+    });
+
+    test("should map posts to items", () => {
+      const feed = JSON.parse(generateJSONFeed(createSite([createPost()]), config));
+
+      expect(feed.items).toEqual([
+        {
+          id: "https://example.com/2025/hello-world/",
+          url: "https://example.com/2025/hello-world/",
+          title: "Hello World",
+          content_html: "<p>Hello</p>",
+          summary: "First post",
+          image: "https://example.com/images/hello.jpg",
+          date_published: "2025-01-15T10:00:00.000Z",
+          authors: [{ name: "Jane Doe" }],
+          tags: ["news"],
+        },
+      ]);
+    });
+
+    test("should omit image and authors when unavailable", () => {
+      const feed = JSON.parse(
+        generateJSONFeed(createSite([createPost({ image: undefined })]), {
+          ...config,
+          authorName: undefined,
+        }),
+      );
+
+      expect(feed.authors).toBeUndefined();
+      expect(feed.items[0].image).toBeUndefined();
+      expect(feed.items[0].authors).toBeUndefined();
+    });
+  });
+
+  describe("generateTagRSSFeed", () => {
+    const tag: TagData = {
+      name: "travel",
+      slug: "travel",
+      count: 1,
+      posts: [createPost({ tags: ["travel"] })],
+      description: "Trips & itineraries",
+    };
+
+    test("should use the tag description for the channel", () => {
+      const xml = generateTagRSSFeed(tag, config);
+
+      expect(xml).toInclude("<title><![CDATA[travel | Test Blog]]></title>");
+      expect(xml).toInclude("<description><![CDATA[Trips & itineraries]]></description>");
+      expect(xml).toInclude("<link>https://example.com/tags/travel/</link>");
+      expect(xml).toInclude(
+        '<atom:link href="https://example.com/tags/travel/feed.xml" rel="self" type="application/rss+xml" />',
+      );
+      expect(xml).toInclude("<link>https://example.com/2025/hello-world/</link>");
+    });
+
+    test("should fall back to a generated description", () => {
+      const xml = generateTagRSSFeed({ ...tag, description: undefined }, config);
+
+      expect(xml).toInclude(
+        "<description><![CDATA[Posts tagged with travel on Test Blog]]></description>",
+      );
+    });
+  });
+
+  describe("generateYearRSSFeed", () => {
+    test("should build a channel for the year archive", () => {
+      const xml = generateYearRSSFeed("2025", [createPost()], config);
+
+      expect(xml).toInclude("<title><![CDATA[Posts from 2025 | Test Blog]]></title>");
+      expect(xml).toInclude("<link>https://example.com/2025/</link>");
+      expect(xml).toInclude('<atom:link href="https://example.com/2025/feed.xml"');
+    });
+  });
+
+  describe("feed paths", () => {
+    test("should place tag and year feeds next to their archives", () => {
+      expect(getTagFeedPath("web-development")).toBe("/tags/web-development/feed.xml");
+      expect(getYearFeedPath("2024")).toBe("/2024/feed.xml");
+    });
+  });
+});
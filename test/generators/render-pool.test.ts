@@ -0,0 +1,128 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { rm } from "node:fs/promises";
+import path from "node:path";
+import { generatePostPages } from "../../src/generators/pages";
+import { renderPostPagesInWorkers } from "../../src/generators/render-pool";
+import { createSiteModel } from "../../src/site-model";
+import type { Post, SiteConfig } from "../../src/types";
+import { findFilesByPattern } from "../../src/utils/file-utils";
+import { createTemplateEngine } from "../../src/utils/template-engine";
+
+const TMP = path.join(import.meta.dir, "tmp-render-pool");
+const TEMPLATES = path.join(TMP, "templates");
+
+const config: SiteConfig = {
+  title: "Workers",
+  description: "Workers",
+  baseUrl: "https://example.com",
+  domain: "example.com",
+  timezone: "Europe/Berlin",
+};
+
+function makePost(i: number): Post {
+  const day = String((i % 28) + 1).padStart(2, "0");
+  const slug = `post-${i}`;
+  return {
+    title: `Post ${i} & friends`,
+    date: `2024-${String((i % 12) + 1).padStart(2, "0")}-${day}T23:30:00Z`,
+    tags: [i % 2 ? "web-dev" : "css"],
+    tagSlugs: {},
+    content: `Body ${i}`,
+    slug,
+    url: `/2024/${slug}/`,
+    excerpt: `Excerpt ${i}`,
+    html: `<p>Body <em>${i}</em></p>`,
+  };
+}
+
+const site = createSiteModel(
+  Array.from({ length: 35 }, (_, i) => makePost(i)),
+  config,
+);
+
+async function readOutputs(dir: string): Promise<Record<string, string>> {
+  const files: Record<string, string> = {};
+  for (const file of (await findFilesByPattern("**/*", dir, false)).sort()) {
+    files[file] = await Bun.file(path.join(dir, file)).text();
+  }
+  return files;
+}
+
+beforeAll(async () => {
+  await Bun.write(
+    path.join(TEMPLATES, "base.njk"),
+    "<html><title>{{ site.title }}</title>{% block body %}{% endblock %}</html>",
+  );
+  await Bun.write(
+    path.join(TEMPLATES, "post.njk"),
+    '{% extends "base.njk" %}{% block body %}<h1>{{ post.title }}</h1>' +
+      '<time>{{ post.date | date("MMMM D, YYYY h:mm A") }}</time>' +
+      "{% for tag in post.tags %}<a>{{ tag | titlecase }}</a>{% endfor %}" +
+      "{% for related in post.relatedPosts %}<li>{{ related.title }}</li>{% endfor %}" +
+      "{{ post.html | safe }}{% endblock %}",
+  );
+  createTemplateEngine(TEMPLATES, false, config.timezone);
+});
+
+afterAll(async () => {
+  await rm(TMP, { recursive: true, force: true });
+});
+
+describe("generatePostPages with workers", () => {
+  test("writes the same bytes as the main thread", async () => {
+    const mainDir = path.join(TMP, "main");
+    const workerDir = path.join(TMP, "workers");
+
+    await generatePostPages(site, config, mainDir);
+    await generatePostPages(site, config, workerDir, { concurrency: 3, templatesDir: TEMPLATES });
+
+    const mainOutputs = await readOutputs(mainDir);
+    expect(Object.keys(mainOutputs)).toHaveLength(35);
+    expect(await readOutputs(workerDir)).toEqual(mainOutputs);
+  });
+});
+
+describe("renderPostPagesInWorkers", () => {
+  test("renders only the given posts and returns the written files", async () => {
+    const outputDir = path.join(TMP, "subset");
+    const files = await renderPostPagesInWorkers(site, [0, 5, 20], config, outputDir, {
+      concurrency: 2,
+      templatesDir: TEMPLATES,
+    });
+
+    const expected = [0, 5, 20].map((i) => path.join(site.posts[i].url.slice(1), "index.html"));
+    expect(files.sort()).toEqual(expected.sort());
+    expect((await findFilesByPattern("**/*.html", outputDir, false)).sort()).toEqual(
+      expected.sort(),
+    );
+  });
+
+  test("renders templates that import Bunki's fragments", async () => {
+    const fragmentTemplates = path.join(TMP, "fragments");
+    const outputDir = path.join(TMP, "fragments-out");
+    await Bun.write(
+      path.join(fragmentTemplates, "post.njk"),
+      '{% from "share-buttons.njk" import share_buttons %}{{ share_buttons(post, site) }}',
+    );
+
+    await renderPostPagesInWorkers(site, [0], config, outputDir, {
+      concurrency: 1,
+      templatesDir: fragmentTemplates,
+    });
+
+    const html = await Bun.file(path.join(outputDir, site.posts[0].url, "index.html")).text();
+    expect(html).toContain("Share:");
+  });
+
+  test("rejects when a template fails to render", async () => {
+    const brokenTemplates = path.join(TMP, "broken");
+    await Bun.write(path.join(brokenTemplates, "post.njk"), "{{ post.title | nosuchfilter }}");
+
+    await expect(
+      renderPostPagesInWorkers(site, [0, 1], config, path.join(TMP, "broken-out"), {
+        concurrency: 2,
+        templatesDir: brokenTemplates,
+      }),
+    ).rejects.toThrow("Error rendering post pages");
+  });
+});
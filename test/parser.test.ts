@@ -1,8 +1,14 @@
 import { afterAll, describe, expect, test } from "bun:test";
 import { mkdir, rm } from "node:fs/promises";
 import path from "node:path";
-import { parseMarkdownDirectory, parseMarkdownFiles } from "../src/parser";
-import { parseMarkdownFile } from "../src/utils/markdown-utils";
+import {
+  filterPublishedPosts,
+  parseMarkdownDirectory,
+  parseMarkdownFiles,
+  parsePagesDirectory,
+} from "../src/parser";
+import type { Post } from "../src/types";
+import { type ParseError, parseMarkdownFile } from "../src/utils/markdown-utils";
 
 const TMP_PARSER = path.join(import.meta.dir, "tmp-parser-tests");
 
@@ -108,6 +114,15 @@ describe("parseMarkdownFiles", () => {
     expect(results[0].post.title).toBe("Good");
   });
 
+  test("collects the errors of files that fail to parse", async () => {
+    const dir = path.join(TMP_PARSER, "partial-errors");
+    const bad = await writeMd(dir, "bad.md", `---\ntitle: Bad\n---\nNo date`);
+
+    const errors: ParseError[] = [];
+    await parseMarkdownFiles([bad], undefined, undefined, errors);
+    expect(errors.map((error) => error.file)).toEqual([bad]);
+  });
+
   test("returns empty array for empty input", async () => {
     const results = await parseMarkdownFiles([]);
     expect(results).toHaveLength(0);
@@ -164,9 +179,11 @@ describe("parseMarkdownDirectory - error reporting (non-strict)", () => {
       `---\ntitle: Bad: Unquoted: Colon\ndate 2025-bad\n---\nBroken`,
     );
 
-    const posts = await parseMarkdownDirectory(dir, false);
+    const errors: ParseError[] = [];
+    const posts = await parseMarkdownDirectory(dir, false, undefined, {}, undefined, errors);
     // At least the valid post should be returned
     expect(posts.some((p) => p.title === "Valid")).toBe(true);
+    expect(errors.map((error) => path.basename(error.file))).toEqual(["bad-yaml.md"]);
   });
 
   test("returns only valid posts when some files have missing fields", async () => {
@@ -188,3 +205,118 @@ describe("parseMarkdownDirectory - error reporting (non-strict)", () => {
     expect(posts[0].title).toBe("Valid Post");
   });
 });
+
+describe("drafts and scheduled posts", () => {
+  const dir = path.join(TMP_PARSER, "publishing");
+
+  async function writePublishingFixtures(): Promise<void> {
+    await writeMd(dir, "live.md", `---\ntitle: Live\ndate: 2024-01-01T00:00:00Z\n---\n\nLive.`);
+    await writeMd(
+      dir,
+      "draft.md",
+      `---\ntitle: Draft\ndate: 2024-02-01T00:00:00Z\ndraft: true\n---\n\nDraft.`,
+    );
+    await writeMd(dir, "future.md", `---\ntitle: Future\ndate: 2999-01-01T00:00:00Z\n---\n\nSoon.`);
+  }
+
+  test("parseMarkdownFile marks draft posts", async () => {
+    await writePublishingFixtures();
+    const result = await parseMarkdownFile(path.join(dir, "draft.md"));
+    expect(result.post?.draft).toBe(true);
+  });
+
+  test("parseMarkdownDirectory excludes drafts and future posts by default", async () => {
+    await writePublishingFixtures();
+    const posts = await parseMarkdownDirectory(dir);
+    expect(posts.map((p) => p.title)).toEqual(["Live"]);
+  });
+
+  test("parseMarkdownDirectory includes them when requested", async () => {
+    await writePublishingFixtures();
+    const posts = await parseMarkdownDirectory(dir, false, undefined, {
+      includeDrafts: true,
+      includeFuture: true,
+    });
+    expect(posts.map((p) => p.title)).toEqual(["Future", "Draft", "Live"]);
+    expect(posts[0].future).toBe(true);
+    expect(posts[1].draft).toBe(true);
+    expect(posts[2].draft).toBeUndefined();
+  });
+});
+
+describe("filterPublishedPosts", () => {
+  const post = (title: string, date: string, draft?: boolean): Post => ({
+    title,
+    date,
+    tags: [],
+    tagSlugs: {},
+    content: "",
+    slug: title.toLowerCase(),
+    url: `/2025/${title.toLowerCase()}/`,
+    excerpt: "",
+    html: "",
+    ...(draft && { draft }),
+  });
+  const now = new Date("2025-06-01T00:00:00Z").getTime();
+
+  test("re-evaluates scheduled posts against the build time", () => {
+    const scheduled = post("Scheduled", "2025-07-01T00:00:00Z");
+
+    expect(filterPublishedPosts([scheduled], { now })).toEqual([]);
+    expect(
+      filterPublishedPosts([scheduled], { now: new Date("2025-08-01T00:00:00Z").getTime() }),
+    ).toEqual([scheduled]);
+  });
+
+  test("does not mutate included future posts", () => {
+    const scheduled = post("Scheduled", "2025-07-01T00:00:00Z");
+    const [included] = filterPublishedPosts([scheduled], { now, includeFuture: true });
+
+    expect(included.future).toBe(true);
+    expect(scheduled.future).toBeUndefined();
+  });
+
+  test("keeps drafts only with includeDrafts", () => {
+    const draft = post("Draft", "2025-01-01T00:00:00Z", true);
+
+    expect(filterPublishedPosts([draft], { now })).toEqual([]);
+    expect(filterPublishedPosts([draft], { now, includeDrafts: true })).toEqual([draft]);
+  });
+});
+
+describe("parsePagesDirectory", () => {
+  test("parses pages sorted by URL", async () => {
+    const pages = await parsePagesDirectory(path.join(FIXTURES_DIR, "pages"));
+
+    expect(pages.map((page) => page.url)).toEqual(["/about/", "/now/"]);
+    expect(pages[1].seoTitle).toBe("Now");
+  });
+
+  test("returns no pages when the directory does not exist", async () => {
+    expect(await parsePagesDirectory(path.join(TMP_PARSER, "missing-pages"))).toEqual([]);
+  });
+
+  test("throws when two pages resolve to the same URL", async () => {
+    const dir = path.join(TMP_PARSER, "pages-conflict");
+    await writeMd(dir, "about.md", `---\ntitle: About\n---\n\nOne.`);
+    await writeMd(dir, "me.md", `---\ntitle: Me\npermalink: /about/\n---\n\nTwo.`);
+
+    await expect(parsePagesDirectory(dir)).rejects.toThrow("page error");
+  });
+
+  test("throws when a page would replace the homepage", async () => {
+    const dir = path.join(TMP_PARSER, "pages-home");
+    await writeMd(dir, "index.md", `---\ntitle: Home\n---\n\nHome.`);
+
+    await expect(parsePagesDirectory(dir)).rejects.toThrow("page error");
+  });
+
+  test("skips invalid pages unless strict mode is enabled", async () => {
+    const dir = path.join(TMP_PARSER, "pages-invalid");
+    await writeMd(dir, "contact.md", `---\ntitle: Contact\n---\n\nHi.`);
+    await writeMd(dir, "untitled.md", `---\npermalink: /untitled/\n---\n\nNo title.`);
+
+    expect((await parsePagesDirectory(dir)).map((page) => page.url)).toEqual(["/contact/"]);
+    await expect(parsePagesDirectory(dir, true)).rejects.toThrow("page error");
+  });
+});
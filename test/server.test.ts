@@ -2,7 +2,12 @@ import { afterAll, beforeAll, beforeEach, describe, expect, test } from "bun:tes
 import fs from "node:fs";
 import path from "node:path";
 import { fileURLToPath } from "node:url";
-import { startServer } from "../src/server";
+import {
+  injectLiveReloadScript,
+  LIVE_RELOAD_PATH,
+  notifyLiveReload,
+  startServer,
+} from "../src/server";
 
 // Resolve directory path in a way that satisfies TypeScript
 const __filename = fileURLToPath(import.meta.url);
@@ -572,3 +577,105 @@ describe("Server Bun.file() Integration Tests", () => {
     server20.stop?.();
   });
 });
+
+describe("Server Live Reload Tests", () => {
+  afterAll(async () => {
+    for (const file of ["live.html", "static.html", "index.html"]) {
+      await fs.promises.rm(path.join(TEST_OUTPUT_DIR, file), { force: true });
+    }
+  });
+
+  test("should inject the live reload client into HTML when enabled", async () => {
+    await fs.promises.mkdir(TEST_OUTPUT_DIR, { recursive: true });
+    await createTestFile(
+      path.join(TEST_OUTPUT_DIR, "live.html"),
+      "<html><body><p>Live</p></body></html>",
+    );
+
+    const server = await startServer(TEST_OUTPUT_DIR, TEST_PORT + 30, { liveReload: true });
+    await new Promise((resolve) => setTimeout(resolve, 100));
+
+    const response = await makeRequest(`http://localhost:${TEST_PORT + 30}/live.html`);
+    const content = await response.text();
+
+    expect(response.headers.get("content-type")).toInclude("text/html");
+    expect(content).toInclude(LIVE_RELOAD_PATH);
+    expect(content.indexOf("<script>")).toBeLessThan(content.indexOf("</body>"));
+
+    server.stop?.();
+  });
+
+  test("should not inject the client when live reload is disabled", async () => {
+    await fs.promises.mkdir(TEST_OUTPUT_DIR, { recursive: true });
+    await createTestFile(
+      path.join(TEST_OUTPUT_DIR, "static.html"),
+      "<html><body><p>Static</p></body></html>",
+    );
+
+    const server = await startServer(TEST_OUTPUT_DIR, TEST_PORT + 31);
+    await new Promise((resolve) => setTimeout(resolve, 100));
+
+    const response = await makeRequest(`http://localhost:${TEST_PORT + 31}/static.html`);
+    expect(await response.text()).not.toInclude(LIVE_RELOAD_PATH);
+
+    server.stop?.();
+  });
+
+  test("should push reload messages to connected browsers", async () => {
+    await fs.promises.mkdir(TEST_OUTPUT_DIR, { recursive: true });
+    await createTestFile(path.join(TEST_OUTPUT_DIR, "index.html"), "<html><body></body></html>");
+
+    const server = await startServer(TEST_OUTPUT_DIR, TEST_PORT + 32, { liveReload: true });
+    const ws = new WebSocket(`ws://localhost:${TEST_PORT + 32}${LIVE_RELOAD_PATH}`);
+    await new Promise((resolve) => ws.addEventListener("open", resolve));
+
+    const message = new Promise<string>((resolve) =>
+      ws.addEventListener("message", (event) => resolve(String(event.data))),
+    );
+    notifyLiveReload(server);
+
+    expect(await message).toBe("reload");
+
+    ws.close();
+    server.stop?.();
+  });
+
+  test("should append the client to HTML without a body tag", () => {
+    expect(injectLiveReloadScript("<p>fragment</p>")).toStartWith("<p>fragment</p><script>");
+  });
+});
+
+describe("Server Redirect Tests", () => {
+  afterAll(async () => {
+    await fs.promises.rm(path.join(TEST_OUTPUT_DIR, "_redirects"), { force: true });
+    await fs.promises.rm(path.join(TEST_OUTPUT_DIR, "old-post"), { recursive: true, force: true });
+  });
+
+  test("should answer _redirects rules with real redirects before serving stubs", async () => {
+    await fs.promises.mkdir(path.join(TEST_OUTPUT_DIR, "old-post"), { recursive: true });
+    await createTestFile(
+      path.join(TEST_OUTPUT_DIR, "old-post", "index.html"),
+      '<html><head><meta http-equiv="refresh" content="0; url=/2025/new-post/"></head></html>',
+    );
+    await createTestFile(
+      path.join(TEST_OUTPUT_DIR, "_redirects"),
+      "/old-post/ /2025/new-post/ 301\n/moved /elsewhere/ 302\n",
+    );
+
+    const server = await startServer(TEST_OUTPUT_DIR, TEST_PORT + 33);
+
+    const permanent = await fetch(`http://localhost:${TEST_PORT + 33}/old-post`, {
+      redirect: "manual",
+    });
+    expect(permanent.status).toBe(301);
+    expect(permanent.headers.get("Location")).toBe("/2025/new-post/");
+
+    const temporary = await fetch(`http://localhost:${TEST_PORT + 33}/moved/`, {
+      redirect: "manual",
+    });
+    expect(temporary.status).toBe(302);
+    expect(temporary.headers.get("Location")).toBe("/elsewhere/");
+
+    server.stop?.();
+  });
+});
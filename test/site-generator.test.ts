@@ -1,17 +1,22 @@
 import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { rm } from "node:fs/promises";
 import path from "node:path";
 import { Glob } from "bun";
+import nunjucks from "nunjucks";
 import { loadConfig } from "../src/config";
 import { SiteGenerator } from "../src/site-generator";
-import type { Post } from "../src/types";
+import type { BunkiPlugin, GeneratorOptions, Post, SiteConfig } from "../src/types";
 import { type BuildCache, createEmptyCache, updateCacheEntry } from "../src/utils/build-cache";
-import { ensureDir, findFilesByPattern } from "../src/utils/file-utils";
+import type { BuildReport } from "../src/utils/build-report";
+import { ensureDir, findFilesByPattern, isDirectory } from "../src/utils/file-utils";
+import { setMarkdownPlugins } from "../src/utils/markdown/parser";
 
 const FIXTURES_DIR = path.join(import.meta.dir, "../fixtures");
 // Use a temporary directory within test/ to ensure it's ignored by git
 const OUTPUT_DIR = path.join(import.meta.dir, "test-output");
 const CONTENT_DIR = path.join(FIXTURES_DIR, "content");
 const TEMPLATES_DIR = path.join(FIXTURES_DIR, "templates");
+const PAGES_DIR = path.join(FIXTURES_DIR, "pages");
 const CONFIG_PATH = path.join(FIXTURES_DIR, "bunki.config.json");
 
 // Helper to check if a file exists
@@ -78,6 +83,7 @@ describe("SiteGenerator", () => {
       contentDir: CONTENT_DIR,
       outputDir: OUTPUT_DIR,
       templatesDir: TEMPLATES_DIR,
+      pagesDir: PAGES_DIR,
       config,
     });
 
@@ -409,6 +415,16 @@ describe("SiteGenerator", () => {
     expect(feedContent).toMatch(rfc822Regex);
   });
 
+  test("feed and JSON-LD dates without a timezone should keep the post's instant", async () => {
+    const feedContent = await Bun.file(path.join(OUTPUT_DIR, "feed.xml")).text();
+    const post = generator.site.posts.find((p) => p.slug === "test-post-1");
+
+    // test-post-1 is dated 2025-01-15T09:00:00-07:00, 08:00 in Pacific time
+    expect(post?.date).toBe("2025-01-15T16:00:00.000Z");
+    expect(post?.jsonLd).toMatch(/"datePublished":\s*"2025-01-15T16:00:00.000Z"/);
+    expect(feedContent).toContain("<pubDate>Wed, 15 Jan 2025 08:00:00 GMT</pubDate>");
+  });
+
   test("RSS feed should have proper atom:link for feed self-discovery", async () => {
     const feedFile = Bun.file(path.join(OUTPUT_DIR, "feed.xml"));
     const feedContent = await feedFile.text();
@@ -418,4 +434,623 @@ describe("SiteGenerator", () => {
     expect(feedContent).toContain('rel="self"');
     expect(feedContent).toContain('type="application/rss+xml"');
   });
+  test("should generate per-tag feeds with discovery links on tag pages", async () => {
+    const [tag] = Object.values(generator.site.tags);
+    const tagFeed = await Bun.file(path.join(OUTPUT_DIR, "tags", tag.slug, "feed.xml")).text();
+    const tagPage = await Bun.file(path.join(OUTPUT_DIR, "tags", tag.slug, "index.html")).text();
+
+    expect(tagFeed).toContain(`${tag.name} | `);
+    expect(tagFeed).toContain(`/tags/${tag.slug}/feed.xml" rel="self"`);
+    expect(tagPage).toContain(`/tags/${tag.slug}/feed.xml"`);
+    expect(tagPage).toContain('rel="alternate" type="application/rss+xml"');
+  });
+
+  test("should write redirect stubs and a _redirects file for aliases", async () => {
+    const stub = await Bun.file(
+      path.join(OUTPUT_DIR, "2024", "testing-bunki", "index.html"),
+    ).text();
+    const redirects = await Bun.file(path.join(OUTPUT_DIR, "_redirects")).text();
+    const sitemap = await Bun.file(path.join(OUTPUT_DIR, "sitemap.xml")).text();
+
+    expect(stub).toContain('<meta http-equiv="refresh" content="0; url=/2025/test-post-1/">');
+    expect(stub).toContain('<link rel="canonical" href="https://example.com/2025/test-post-1/">');
+    expect(redirects).toContain("/2024/testing-bunki/ /2025/test-post-1/ 301\n");
+    expect(sitemap).not.toContain("/2024/testing-bunki/");
+  });
+
+  test("should render standalone pages outside the post model", async () => {
+    const about = await Bun.file(path.join(OUTPUT_DIR, "about", "index.html")).text();
+    const now = await Bun.file(path.join(OUTPUT_DIR, "now", "index.html")).text();
+    const sitemap = await Bun.file(path.join(OUTPUT_DIR, "sitemap.xml")).text();
+    const feed = await Bun.file(path.join(OUTPUT_DIR, "feed.xml")).text();
+
+    expect(about).toContain("<h1>About</h1>");
+    expect(now).toContain("<title>Now | ");
+    expect(sitemap).toContain("<loc>https://example.com/about/</loc>");
+    expect(sitemap).toContain("<loc>https://example.com/now/</loc>");
+    expect(feed).not.toContain("https://example.com/about/");
+    expect(generator.site.posts.some((post) => post.url === "/about/")).toBeFalse();
+  });
+});
+
+describe("SiteGenerator plugins", () => {
+  const PLUGIN_OUTPUT_DIR = path.join(OUTPUT_DIR, "plugins");
+
+  afterAll(async () => {
+    setMarkdownPlugins([]);
+    await rm(PLUGIN_OUTPUT_DIR, { recursive: true, force: true });
+  });
+
+  function createGenerator(config: SiteConfig): SiteGenerator {
+    return new SiteGenerator({
+      contentDir: CONTENT_DIR,
+      outputDir: PLUGIN_OUTPUT_DIR,
+      templatesDir: TEMPLATES_DIR,
+      pagesDir: PAGES_DIR,
+      config,
+    });
+  }
+
+  test("should run every hook in lifecycle order", async () => {
+    // Hooks such as onPostParsed run many times; record when each first fires
+    const calls: string[] = [];
+    const record = (hook: string) => {
+      if (!calls.includes(hook)) calls.push(hook);
+    };
+    const plugin: BunkiPlugin = {
+      name: "recorder",
+      onConfig: (config) => {
+        record("onConfig");
+        return { ...config, title: "Plugged In" };
+      },
+      extendMarked: (marked) => {
+        record("extendMarked");
+        marked.use({
+          hooks: { postprocess: (html) => `${html}<span class="marked-plugin"></span>` },
+        });
+      },
+      extendTemplateEngine: (env) => {
+        record("extendTemplateEngine");
+        env.addFilter("shout", (value: string) => `${value.toUpperCase()}!`);
+      },
+      onPostParsed: (post) => {
+        record("onPostParsed");
+        return { ...post, excerpt: `[plugin] ${post.excerpt}` };
+      },
+      onSiteModel: (site) => {
+        record("onSiteModel");
+        return { ...site, name: "plugged-in" };
+      },
+      onPageRendered: (page) => {
+        record("onPageRendered");
+        return page.path === "index.html" ? `${page.html}<!-- ${page.path} -->` : undefined;
+      },
+      onBuildComplete: ({ outputDir }) => {
+        record("onBuildComplete");
+        expect(outputDir).toBe(PLUGIN_OUTPUT_DIR);
+      },
+    };
+
+    const config = await loadConfig(CONFIG_PATH);
+    const generator = createGenerator({ ...config, plugins: [plugin] });
+    await generator.initialize();
+    await generator.generate();
+
+    expect(calls).toEqual([
+      "onConfig",
+      "extendTemplateEngine",
+      "extendMarked",
+      "onPostParsed",
+      "onSiteModel",
+      "onPageRendered",
+      "onBuildComplete",
+    ]);
+    expect(generator.site.name).toBe("plugged-in");
+    expect(generator.site.posts.every((post) => post.excerpt.startsWith("[plugin] "))).toBeTrue();
+    expect(generator.site.posts[0].html).toEndWith('<span class="marked-plugin"></span>');
+    expect(nunjucks.renderString("{{ 'hi' | shout }}", {})).toBe("HI!");
+
+    const index = await Bun.file(path.join(PLUGIN_OUTPUT_DIR, "index.html")).text();
+    expect(index).toContain("Plugged In");
+    expect(index).toEndWith("<!-- index.html -->");
+  });
+
+  test("should name the plugin that threw", async () => {
+    const config = await loadConfig(CONFIG_PATH);
+    const generator = createGenerator({
+      ...config,
+      plugins: [
+        {
+          name: "broken-posts",
+          onPostParsed: () => {
+            throw new Error("missing field");
+          },
+        },
+      ],
+    });
+
+    await expect(generator.initialize()).rejects.toThrow(
+      'Plugin "broken-posts" failed in onPostParsed: missing field',
+    );
+  });
+
+  test("should fail the build when onPageRendered throws on a page or series page", async () => {
+    const config = await loadConfig(CONFIG_PATH);
+
+    for (const outputPath of ["about/index.html", "series/road-trip/index.html"]) {
+      const generator = createGenerator({
+        ...config,
+        plugins: [
+          {
+            name: "broken-pages",
+            onPostParsed: (post) => ({ ...post, series: { name: "Road Trip" } }),
+            onPageRendered: (page) => {
+              if (page.path === outputPath) throw new Error(`cannot rewrite ${page.path}`);
+            },
+          },
+        ],
+      });
+      await generator.initialize();
+
+      await expect(generator.generate()).rejects.toThrow(
+        `Plugin "broken-pages" failed in onPageRendered: cannot rewrite ${outputPath}`,
+      );
+    }
+  });
+
+  test("should pass drafts to onPostParsed in a full build", async () => {
+    const draftContent = path.join(import.meta.dir, "tmp-plugin-drafts");
+    await Bun.write(
+      path.join(draftContent, "wip.md"),
+      "---\ntitle: Work in progress\ndate: 2025-03-01T12:00:00Z\ndraft: true\n---\n\nSoon\n",
+    );
+    const seen: string[] = [];
+    const config = await loadConfig(CONFIG_PATH);
+    const generator = new SiteGenerator({
+      contentDir: draftContent,
+      outputDir: PLUGIN_OUTPUT_DIR,
+      templatesDir: TEMPLATES_DIR,
+      pagesDir: PAGES_DIR,
+      config: {
+        ...config,
+        plugins: [{ name: "draft-spy", onPostParsed: (post) => void seen.push(post.title) }],
+      },
+    });
+
+    try {
+      await generator.initialize();
+    } finally {
+      await rm(draftContent, { recursive: true, force: true });
+    }
+
+    expect(seen).toEqual(["Work in progress"]);
+    expect(generator.site.posts).toHaveLength(0);
+  });
+
+  test("should reject plugins without a name", async () => {
+    const config = await loadConfig(CONFIG_PATH);
+    const generator = createGenerator({ ...config, plugins: [{} as BunkiPlugin] });
+
+    await expect(generator.initialize()).rejects.toThrow(
+      'Config error: plugins[0] must be an object with a non-empty "name"',
+    );
+  });
+});
+
+describe("SiteGenerator incremental rendering", () => {
+  const SITE_DIR = path.join(import.meta.dir, "tmp-incremental-site");
+  const SITE_CONTENT = path.join(SITE_DIR, "content");
+  const SITE_TEMPLATES = path.join(SITE_DIR, "templates");
+  const SITE_OUTPUT = path.join(SITE_DIR, "dist");
+  const STALE = "stale";
+
+  const siteConfig: SiteConfig = {
+    title: "Incremental",
+    description: "Incremental",
+    baseUrl: "https://example.com",
+    domain: "example.com",
+  };
+
+  const templates: Record<string, string> = {
+    "base.njk": "<html>{% block body %}{% endblock %}</html>",
+    "post.njk": '{% extends "base.njk" %}{% block body %}{{ post.html | safe }}{% endblock %}',
+    "index.njk":
+      '{% extends "base.njk" %}{% block body %}{% for p in posts %}{{ p.title }}{% endfor %}{% endblock %}',
+    "tag.njk":
+      '{% extends "base.njk" %}{% block body %}{% for p in tag.posts %}{{ p.title }}{% endfor %}{% endblock %}',
+    "tags.njk":
+      '{% extends "base.njk" %}{% block body %}{% for t in tags %}{{ t.name }}{% endfor %}{% endblock %}',
+    "archive.njk":
+      '{% extends "base.njk" %}{% block body %}{% for p in posts %}{{ p.title }}{% endfor %}{% endblock %}',
+  };
+
+  function writePost(name: string, date: string, tag: string, body: string) {
+    return Bun.write(
+      path.join(SITE_CONTENT, `${name}.md`),
+      `---\ntitle: ${name}\ndate: ${date}\ntags: [${tag}]\n---\n\n${body}\n`,
+    );
+  }
+
+  async function build(options: Partial<GeneratorOptions> = {}) {
+    // A new generator per build, like separate `bunki generate --incremental` runs
+    const generator = new SiteGenerator({
+      contentDir: SITE_CONTENT,
+      outputDir: SITE_OUTPUT,
+      templatesDir: SITE_TEMPLATES,
+      pagesDir: path.join(SITE_DIR, "pages"),
+      rootDir: SITE_DIR,
+      config: { ...siteConfig },
+      ...options,
+    });
+    generator.enableIncrementalMode();
+    await generator.initialize();
+    await generator.generate();
+  }
+
+  async function markAllStale(files: string[]) {
+    for (const file of files) {
+      await Bun.write(path.join(SITE_OUTPUT, file), STALE);
+    }
+  }
+
+  async function isStale(file: string) {
+    return (await Bun.file(path.join(SITE_OUTPUT, file)).text()) === STALE;
+  }
+
+  const OUTPUTS = [
+    "2025/alpha/index.html",
+    "2024/beta/index.html",
+    "index.html",
+    "tags/index.html",
+    "tags/travel/index.html",
+    "tags/food/index.html",
+    "2025/index.html",
+    "2024/index.html",
+  ];
+
+  beforeAll(async () => {
+    // Incremental builds hash the project config; the generator gets siteConfig directly
+    await Bun.write(path.join(SITE_DIR, "bunki.config.ts"), "export default {};\n");
+    for (const [name, source] of Object.entries(templates)) {
+      await Bun.write(path.join(SITE_TEMPLATES, name), source);
+    }
+    await writePost("alpha", "2025-03-01T12:00:00", "travel", "First version");
+    await writePost("beta", "2024-06-01T12:00:00", "food", "Beta body");
+    await build();
+  });
+
+  afterAll(async () => {
+    await rm(SITE_DIR, { recursive: true, force: true });
+  });
+
+  test("records the outputs of each post in the cache", async () => {
+    const cache = (await Bun.file(path.join(SITE_DIR, ".bunki-cache.json")).json()) as BuildCache;
+    const entry = cache.files[path.join(SITE_CONTENT, "alpha.md")];
+
+    expect(entry.pageHash).toBeString();
+    expect(entry.outputs).toContain("2025/alpha/index.html");
+    expect(entry.outputs).toContain("tags/travel/index.html");
+    expect(entry.outputs).not.toContain("tags/food/index.html");
+  });
+
+  test("re-renders only the outputs of an edited post", async () => {
+    await markAllStale(OUTPUTS);
+    await writePost("alpha", "2025-03-01T12:00:00", "travel", "Second version");
+    await build();
+
+    expect(await Bun.file(path.join(SITE_OUTPUT, "2025/alpha/index.html")).text()).toContain(
+      "Second version",
+    );
+    expect(await isStale("index.html")).toBe(false);
+    expect(await isStale("tags/travel/index.html")).toBe(false);
+    expect(await isStale("2025/index.html")).toBe(false);
+
+    expect(await isStale("2024/beta/index.html")).toBe(true);
+    expect(await isStale("tags/food/index.html")).toBe(true);
+    expect(await isStale("2024/index.html")).toBe(true);
+  });
+
+  test("a template edit re-renders only the pages using it", async () => {
+    await markAllStale(OUTPUTS);
+    await Bun.write(
+      path.join(SITE_TEMPLATES, "tag.njk"),
+      '{% extends "base.njk" %}{% block body %}Tag {{ tag.name }}{% endblock %}',
+    );
+    await build();
+
+    expect(await Bun.file(path.join(SITE_OUTPUT, "tags/food/index.html")).text()).toContain(
+      "Tag food",
+    );
+    expect(await isStale("tags/travel/index.html")).toBe(false);
+
+    expect(await isStale("2025/alpha/index.html")).toBe(true);
+    expect(await isStale("index.html")).toBe(true);
+    expect(await isStale("tags/index.html")).toBe(true);
+  });
+
+  test("a base template edit re-renders every page extending it", async () => {
+    await markAllStale(OUTPUTS);
+    await Bun.write(
+      path.join(SITE_TEMPLATES, "base.njk"),
+      "<html><main>{% block body %}{% endblock %}</main></html>",
+    );
+    await build();
+
+    for (const file of OUTPUTS) {
+      expect(await isStale(file)).toBe(false);
+    }
+  });
+
+  test("adding a post re-renders the listings", async () => {
+    await markAllStale(OUTPUTS);
+    await writePost("gamma", "2024-09-01T12:00:00", "travel", "Gamma body");
+    await build();
+
+    expect(await isStale("2024/index.html")).toBe(false);
+    expect(await isStale("tags/food/index.html")).toBe(false);
+    // beta shares no tag with gamma, so its related posts are unchanged
+    expect(await isStale("2024/beta/index.html")).toBe(true);
+  });
+
+  test("--clean-dry-run and --no-clean keep the outputs of a deleted post", async () => {
+    await rm(path.join(SITE_CONTENT, "beta.md"));
+    await build({ cleanDryRun: true });
+    expect(await Bun.file(path.join(SITE_OUTPUT, "2024/beta/index.html")).exists()).toBe(true);
+
+    await build({ clean: false });
+    expect(await Bun.file(path.join(SITE_OUTPUT, "2024/beta/index.html")).exists()).toBe(true);
+    expect(await Bun.file(path.join(SITE_OUTPUT, "tags/food/index.html")).exists()).toBe(true);
+  });
+
+  test("removes the outputs of a deleted post and emptied directories", async () => {
+    await build();
+
+    expect(await Bun.file(path.join(SITE_OUTPUT, "2024/beta/index.html")).exists()).toBe(false);
+    expect(await isDirectory(path.join(SITE_OUTPUT, "2024/beta"))).toBe(false);
+    expect(await isDirectory(path.join(SITE_OUTPUT, "tags/food"))).toBe(false);
+    expect(await Bun.file(path.join(SITE_OUTPUT, "2024/gamma/index.html")).exists()).toBe(true);
+    expect(await Bun.file(path.join(SITE_OUTPUT, "tags/travel/index.html")).exists()).toBe(true);
+    expect(await Bun.file(path.join(SITE_OUTPUT, "css/style.css")).exists()).toBe(true);
+  });
+
+  test("does not record optional pages whose template is missing", async () => {
+    await build();
+
+    const manifest = await Bun.file(path.join(SITE_DIR, ".bunki-output.json")).json();
+    expect(manifest.files).toContain("2025/alpha/index.html");
+    expect(manifest.files).not.toContain("404.html");
+    expect(manifest.files).not.toContain("map/index.html");
+    expect(manifest.files).not.toContain("privacy/index.html");
+  });
+
+  test("an edited shortcode template re-parses the posts using it", async () => {
+    const shortcode = path.join(SITE_TEMPLATES, "shortcodes", "note.njk");
+    await Bun.write(shortcode, "<strong>{{ text }} v1</strong>");
+    await writePost("gamma", "2024-09-01T12:00:00", "travel", '{{< note text="Heads up" >}}');
+    await build();
+    expect(await Bun.file(path.join(SITE_OUTPUT, "2024/gamma/index.html")).text()).toContain(
+      "Heads up v1",
+    );
+
+    // gamma.md itself is unchanged, so its cached HTML would still say v1
+    await Bun.write(shortcode, "<strong>{{ text }} v2</strong>");
+    await build();
+
+    expect(await Bun.file(path.join(SITE_OUTPUT, "2024/gamma/index.html")).text()).toContain(
+      "Heads up v2",
+    );
+  });
+
+  test("copies only the public files that changed", async () => {
+    await Bun.write(path.join(SITE_DIR, "public", "humans.txt"), "v1");
+    await Bun.write(path.join(SITE_DIR, "public", "robots-extra.txt"), "kept");
+    await build();
+
+    await markAllStale(["robots-extra.txt"]);
+    await Bun.write(path.join(SITE_DIR, "public", "humans.txt"), "v2");
+    await build();
+
+    expect(await Bun.file(path.join(SITE_OUTPUT, "humans.txt")).text()).toBe("v2");
+    expect(await isStale("robots-extra.txt")).toBe(true);
+  });
+
+  test("rewrites redirect stubs and _redirects only when their post changes", async () => {
+    const writeDelta = (body: string, aliases: string) =>
+      Bun.write(
+        path.join(SITE_CONTENT, "delta.md"),
+        `---\ntitle: delta\ndate: 2025-05-01T12:00:00\ntags: [travel]\naliases: [${aliases}]\n---\n\n${body}\n`,
+      );
+    await writeDelta("Delta body", "/old-delta/");
+    await build();
+
+    // Neither a related post nor delta's own body changes its URL or aliases
+    await markAllStale(["old-delta/index.html", "_redirects"]);
+    await writePost("alpha", "2025-03-01T12:00:00", "travel", "Third version");
+    await writeDelta("Delta edited", "/old-delta/");
+    await build();
+    expect(await isStale("old-delta/index.html")).toBe(true);
+    expect(await isStale("_redirects")).toBe(true);
+
+    await writeDelta("Delta edited", "/old-delta/, /older-delta/");
+    await build();
+    expect(await Bun.file(path.join(SITE_OUTPUT, "old-delta/index.html")).text()).toContain(
+      "url=/2025/delta/",
+    );
+    expect(await Bun.file(path.join(SITE_OUTPUT, "_redirects")).text()).toBe(
+      "/old-delta/ /2025/delta/ 301\n/older-delta/ /2025/delta/ 301\n",
+    );
+
+    await Bun.write(path.join(SITE_DIR, "public", "_redirects"), "/feed /feed.xml 301\n");
+    await build();
+    expect(await Bun.file(path.join(SITE_OUTPUT, "_redirects")).text()).toBe(
+      "/feed /feed.xml 301\n/old-delta/ /2025/delta/ 301\n/older-delta/ /2025/delta/ 301\n",
+    );
+
+    await rm(path.join(SITE_DIR, "public", "_redirects"));
+    await rm(path.join(SITE_CONTENT, "delta.md"));
+  });
+
+  test("rebuilds everything when the loaded config file changes", async () => {
+    const configPath = path.join(SITE_DIR, "bunki.config.json");
+    await Bun.write(configPath, '{ "title": "Incremental" }');
+    await build({ configPath });
+
+    await markAllStale(["2025/alpha/index.html"]);
+    await build({ configPath });
+    expect(await isStale("2025/alpha/index.html")).toBe(true);
+
+    await Bun.write(configPath, '{ "title": "Renamed" }');
+    await build({ configPath });
+    expect(await isStale("2025/alpha/index.html")).toBe(false);
+  });
+
+  test("renders changed posts in worker threads and keeps the others", async () => {
+    await writePost("alpha", "2025-03-01T12:00:00", "travel", "Worker version");
+    await build({ configPath: path.join(SITE_DIR, "bunki.config.json"), concurrency: 2 });
+
+    expect(await Bun.file(path.join(SITE_OUTPUT, "2025/alpha/index.html")).text()).toContain(
+      "Worker version",
+    );
+    expect(await Bun.file(path.join(SITE_OUTPUT, "2024/gamma/index.html")).exists()).toBe(true);
+  });
+
+  test("writes a build report and fails when a budget is exceeded", async () => {
+    const reportPath = path.join(SITE_DIR, "build-report.json");
+    await Bun.write(path.join(SITE_CONTENT, "broken.md"), "---\ntitle: [unclosed\n---\n\nBody\n");
+
+    await expect(
+      build({
+        configPath: path.join(SITE_DIR, "bunki.config.json"),
+        reportPath,
+        config: { ...siteConfig, budgets: { maxPageSize: 20, maxBuildTime: 600_000 } },
+      }),
+    ).rejects.toThrow(
+      /Build exceeded \d+ budget\(s\):\nmaxPageSize: .*index\.html .* over the 20\.00 B limit/,
+    );
+
+    const report = (await Bun.file(reportPath).json()) as BuildReport;
+    expect(report.metrics.stages.pageGeneration).toBeNumber();
+    expect(report.files).toContainEqual({
+      path: path.normalize("2025/alpha/index.html"),
+      size: Bun.file(path.join(SITE_OUTPUT, "2025/alpha/index.html")).size,
+    });
+    expect(report.errors.map((error) => error.file)).toEqual([
+      path.join(SITE_CONTENT, "broken.md"),
+    ]);
+    expect(report.budgets).toEqual({ maxPageSize: 20, maxBuildTime: 600_000 });
+    expect(report.violations.length).toBeGreaterThan(0);
+    expect(report.violations.every((violation) => violation.budget === "maxPageSize")).toBe(true);
+
+    await rm(path.join(SITE_CONTENT, "broken.md"));
+  });
+});
+
+describe("SiteGenerator search", () => {
+  const SITE_DIR = path.join(import.meta.dir, "tmp-search-site");
+  const SITE_TEMPLATES = path.join(SITE_DIR, "templates");
+  const SITE_OUTPUT = path.join(SITE_DIR, "dist");
+
+  beforeAll(async () => {
+    await Bun.write(
+      path.join(SITE_DIR, "content", "hello.md"),
+      "---\ntitle: Hello\ndate: 2025-03-01T12:00:00\ntags: [travel]\n---\n\nHello\n",
+    );
+    const templates: Record<string, string> = {
+      "index.njk": "{{ jsonLd | safe }}",
+      "post.njk": "{{ post.html | safe }}",
+      "tag.njk": "{{ tag.name }}",
+      "tags.njk": "tags",
+      "archive.njk": "{{ year }}",
+    };
+    for (const [name, source] of Object.entries(templates)) {
+      await Bun.write(path.join(SITE_TEMPLATES, name), source);
+    }
+  });
+
+  afterAll(async () => {
+    await rm(SITE_DIR, { recursive: true, force: true });
+  });
+
+  async function build() {
+    const generator = new SiteGenerator({
+      contentDir: path.join(SITE_DIR, "content"),
+      outputDir: SITE_OUTPUT,
+      templatesDir: SITE_TEMPLATES,
+      pagesDir: path.join(SITE_DIR, "pages"),
+      rootDir: SITE_DIR,
+      config: {
+        title: "Search",
+        description: "Search",
+        baseUrl: "https://example.com",
+        domain: "example.com",
+        search: { enabled: true },
+      },
+    });
+    await generator.initialize();
+    await generator.generate();
+    return Bun.file(path.join(SITE_OUTPUT, "index.html")).text();
+  }
+
+  test("advertises SearchAction only when search.njk renders /search/", async () => {
+    expect(await build()).not.toContain("SearchAction");
+    expect(await Bun.file(path.join(SITE_OUTPUT, "search/index.html")).exists()).toBe(false);
+
+    await Bun.write(path.join(SITE_TEMPLATES, "search.njk"), "search");
+    expect(await build()).toContain("SearchAction");
+    expect(await Bun.file(path.join(SITE_OUTPUT, "search/index.html")).exists()).toBe(true);
+  });
+});
+
+describe("SiteGenerator standalone pages", () => {
+  const SITE_DIR = path.join(import.meta.dir, "tmp-pages-site");
+  const SITE_TEMPLATES = path.join(SITE_DIR, "templates");
+
+  beforeAll(async () => {
+    await Bun.write(
+      path.join(SITE_DIR, "content", "hello.md"),
+      "---\ntitle: Hello\ndate: 2025-03-01T12:00:00\ntags: [travel]\n---\n\nHello\n",
+    );
+    await Bun.write(path.join(SITE_DIR, "pages", "about.md"), "---\ntitle: About\n---\n\nHi\n");
+    const templates: Record<string, string> = {
+      "index.njk": "index",
+      "post.njk": "{{ post.html | safe }}",
+      "tag.njk": "{{ tag.name }}",
+      "tags.njk": "tags",
+      "archive.njk": "{{ year }}",
+    };
+    for (const [name, source] of Object.entries(templates)) {
+      await Bun.write(path.join(SITE_TEMPLATES, name), source);
+    }
+  });
+
+  afterAll(async () => {
+    await rm(SITE_DIR, { recursive: true, force: true });
+  });
+
+  async function build() {
+    const generator = new SiteGenerator({
+      contentDir: path.join(SITE_DIR, "content"),
+      outputDir: path.join(SITE_DIR, "dist"),
+      templatesDir: SITE_TEMPLATES,
+      pagesDir: path.join(SITE_DIR, "pages"),
+      rootDir: SITE_DIR,
+      config: {
+        title: "Pages",
+        description: "Pages",
+        baseUrl: "https://example.com",
+        domain: "example.com",
+      },
+    });
+    await generator.initialize();
+    await generator.generate();
+  }
+
+  test("fails the build when page.njk is missing", async () => {
+    await expect(build()).rejects.toThrow("found 1 standalone page(s) but no page.njk template");
+  });
+
+  test("fails the build when page.njk does not render", async () => {
+    await Bun.write(path.join(SITE_TEMPLATES, "page.njk"), "{{ page.title | nosuchfilter }}");
+    await expect(build()).rejects.toThrow("nosuchfilter");
+  });
 });
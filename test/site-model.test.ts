@@ -1,5 +1,5 @@
 import { describe, expect, test } from "bun:test";
-import { createSiteModel, groupPostsByYear } from "../src/site-model";
+import { createSiteModel, groupPostsBySeries, groupPostsByYear } from "../src/site-model";
 import type { Post, SiteConfig } from "../src/types";
 
 const config: SiteConfig = {
@@ -55,6 +55,158 @@ describe("createSiteModel", () => {
     expect(site.postsByYear["2026"]).toHaveLength(1);
     expect(site.postsByYear["2025"]).toHaveLength(1);
   });
+
+  test("links related posts using the configured count", () => {
+    const second = createPost({ title: "Bun Tips", slug: "bun-tips", url: "/2026/bun-tips/" });
+    const third = createPost({ title: "Unrelated", url: "/2026/unrelated/", tags: ["Cooking"] });
+
+    const site = createSiteModel([createPost(), second, third], config);
+    expect(site.posts[0].relatedPosts?.map((post) => post.title)).toEqual(["Bun Tips"]);
+    expect(site.posts[2].relatedPosts).toEqual([]);
+
+    const disabled = createSiteModel([createPost(), second], { ...config, relatedPostsCount: 0 });
+    expect(disabled.posts[0].relatedPosts).toEqual([]);
+  });
+
+  test("applies the permalink pattern and rewrites internal links", () => {
+    const linking = createPost({
+      title: "Linking",
+      slug: "linking",
+      url: "/2026/linking/",
+      html: '<p><a href="/2026/hello-world/#setup">Hello</a></p>',
+    });
+    const site = createSiteModel([createPost(), linking], {
+      ...config,
+      permalink: "/{year}/{month}/{day}/{slug}/",
+    });
+
+    expect(site.posts.map((post) => post.url)).toEqual([
+      "/2026/08/10/hello-world/",
+      "/2026/08/10/linking/",
+    ]);
+    expect(site.posts[1].html).toContain('href="/2026/08/10/hello-world/#setup"');
+    expect(site.posts[0].jsonLd).toContain("https://example.com/2026/08/10/hello-world/");
+    expect(linking.url).toBe("/2026/linking/");
+  });
+
+  test("prefers the per-post permalink override", () => {
+    const post = createPost({ permalink: "/{year}/old-wordpress-name/" });
+    const site = createSiteModel(
+      [post, createPost({ slug: "other", url: "/2026/other/" })],
+      config,
+    );
+
+    expect(site.posts.map((p) => p.url)).toEqual(["/2026/old-wordpress-name/", "/2026/other/"]);
+  });
+
+  test("fails when a permalink pattern maps two posts to the same URL", () => {
+    const posts = [
+      createPost({ category: "travel", sourcePath: "content/2025/hello-world.md" }),
+      createPost({
+        url: "/2026/hello-world-2/",
+        category: "travel",
+        sourcePath: "content/2026/hello-world/README.md",
+        permalink: "/{category}/hello-world/",
+      }),
+    ];
+
+    expect(() => createSiteModel(posts, { ...config, permalink: "/{category}/{slug}/" })).toThrow(
+      "Build error: /travel/hello-world/ is produced by both content/2025/hello-world.md and content/2026/hello-world/README.md",
+    );
+  });
+
+  test("fails when a post URL or alias collides with a page", () => {
+    const page = {
+      title: "About",
+      slug: "about",
+      url: "/about/",
+      content: "",
+      html: "",
+      excerpt: "",
+      sourcePath: "pages/about.md",
+    };
+    const override = createPost({ permalink: "/about/", sourcePath: "content/about.md" });
+    const alias = createPost({ aliases: ["/about/"], sourcePath: "content/hello.md" });
+
+    expect(() => createSiteModel([override], config, {}, [page])).toThrow(
+      "/about/ is produced by both pages/about.md and content/about.md",
+    );
+    expect(() => createSiteModel([alias], config, {}, [page])).toThrow(
+      "/about/ is produced by both pages/about.md and an alias in content/hello.md",
+    );
+  });
+});
+
+describe("series", () => {
+  const dayThree = createPost({
+    title: "Day Three",
+    date: "2025-04-03T12:00:00Z",
+    url: "/2025/day-three/",
+    series: { name: "Japan 2025" },
+  });
+  const dayTwo = createPost({
+    title: "Day Two",
+    date: "2025-04-02T12:00:00Z",
+    url: "/2025/day-two/",
+    series: { name: "Japan 2025", order: 2 },
+  });
+  const dayOne = createPost({
+    title: "Day One",
+    date: "2025-04-05T12:00:00Z",
+    url: "/2025/day-one/",
+    series: { name: "Japan 2025", order: 1 },
+  });
+  const standalone = createPost({ title: "Standalone", url: "/2025/standalone/" });
+
+  test("orders parts by explicit order, then by date", () => {
+    const series = groupPostsBySeries([dayThree, dayTwo, dayOne, standalone]);
+
+    expect(Object.keys(series)).toEqual(["japan-2025"]);
+    expect(series["japan-2025"].posts.map((post) => post.title)).toEqual([
+      "Day One",
+      "Day Two",
+      "Day Three",
+    ]);
+  });
+
+  test("links parts with prev/next and part N of M", () => {
+    const site = createSiteModel([dayThree, dayTwo, dayOne, standalone], config);
+    const [three, two, one, alone] = site.posts;
+
+    expect(one.series).toEqual({
+      name: "Japan 2025",
+      order: 1,
+      slug: "japan-2025",
+      part: 1,
+      total: 3,
+      next: { title: "Day Two", url: "/2025/day-two/" },
+    });
+    expect(two.series?.prev).toEqual({ title: "Day One", url: "/2025/day-one/" });
+    expect(two.series?.next).toEqual({ title: "Day Three", url: "/2025/day-three/" });
+    expect(three.series?.part).toBe(3);
+    expect(three.series?.next).toBeUndefined();
+    expect(alone.series).toBeUndefined();
+    expect(site.series["japan-2025"].posts).toHaveLength(3);
+  });
+
+  test("does not mutate parser output", () => {
+    createSiteModel([dayTwo], config);
+    expect(dayTwo.series).toEqual({ name: "Japan 2025", order: 2 });
+  });
+
+  test("gives non-Latin series names distinct, non-empty slugs", () => {
+    const kyoto = createPost({ url: "/2025/kyoto/", series: { name: "京都の旅" } });
+    const osaka = createPost({ url: "/2025/osaka/", series: { name: "大阪の旅" } });
+    const series = groupPostsBySeries([kyoto, osaka]);
+
+    const slugs = Object.keys(series);
+    expect(slugs).toHaveLength(2);
+    for (const slug of slugs) {
+      expect(slug).toMatch(/^series-[a-z0-9]+$/);
+    }
+    // Stable across builds, so series URLs don't change
+    expect(Object.keys(groupPostsBySeries([kyoto]))).toEqual([slugs[0]]);
+  });
 });
 
 describe("groupPostsByYear", () => {
@@ -62,4 +214,27 @@ describe("groupPostsByYear", () => {
     const posts: readonly Post[] = [createPost()];
     expect(groupPostsByYear(posts)["2026"]).toHaveLength(1);
   });
+
+  test("groups by year in the given timezone", () => {
+    const posts = [createPost({ date: "2025-12-31T23:30:00.000Z" })];
+
+    expect(Object.keys(groupPostsByYear(posts))).toEqual(["2025"]);
+    expect(Object.keys(groupPostsByYear(posts, "Europe/Berlin"))).toEqual(["2026"]);
+  });
+
+  test("uses config.timezone in the site model", () => {
+    const post = createPost({ date: "2025-12-31T23:30:00.000Z" });
+    const site = createSiteModel([post], { ...config, timezone: "Asia/Tokyo" });
+
+    expect(Object.keys(site.postsByYear)).toEqual(["2026"]);
+  });
+
+  test("uses Pacific time once when no timezone is configured", () => {
+    // 02:00 on New Year's Day in Los Angeles
+    const post = createPost({ date: "2025-01-01T10:00:00.000Z", slug: "ny", url: "/2025/ny/" });
+    const site = createSiteModel([post], { ...config, permalink: "/{year}/{month}/{day}/{slug}/" });
+
+    expect(site.posts[0].url).toBe("/2025/01/01/ny/");
+    expect(Object.keys(site.postsByYear)).toEqual(["2025"]);
+  });
 });
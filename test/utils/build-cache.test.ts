@@ -220,6 +220,13 @@ describe("hasConfigChanged", () => {
     await Bun.write(configPath, "version 2");
     expect(await hasConfigChanged(configPath, cache)).toBe(true);
   });
+
+  test("a missing config file only counts as changed once", async () => {
+    const configPath = path.join(TMP, "no-config.ts");
+    const cache = createEmptyCache();
+    expect(await hasConfigChanged(configPath, cache)).toBe(true);
+    expect(await hasConfigChanged(configPath, cache)).toBe(false);
+  });
 });
 
 describe("markFullBuild", () => {
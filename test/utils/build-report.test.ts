@@ -0,0 +1,128 @@
+import { afterAll, describe, expect, test } from "bun:test";
+import { rm } from "node:fs/promises";
+import path from "node:path";
+import type { BuildMetrics } from "../../src/utils/build-metrics";
+import {
+  BUILD_REPORT_VERSION,
+  type BuildReport,
+  checkBudgets,
+  formatBudgetViolations,
+  getOutputFiles,
+  writeBuildReport,
+} from "../../src/utils/build-report";
+
+const TMP = path.join(import.meta.dir, "tmp-build-report");
+
+const metrics: BuildMetrics = {
+  totalTime: 1500,
+  stages: {
+    initialization: 300,
+    cssProcessing: 100,
+    pageGeneration: 900,
+    feedGeneration: 150,
+    assetCopying: 50,
+  },
+  outputs: { posts: 2, pages: 3, totalSize: 3000 },
+};
+
+const files = [
+  { path: "2025/hello/index.html", size: 1200 },
+  { path: "css/style.css", size: 2048 },
+  { path: "feed.xml", size: 500 },
+  { path: "index.html", size: 800 },
+];
+
+afterAll(async () => {
+  await rm(TMP, { recursive: true, force: true });
+});
+
+describe("getOutputFiles", () => {
+  test("returns existing files with sizes, sorted and deduplicated", async () => {
+    await Bun.write(path.join(TMP, "out", "index.html"), "12345");
+    await Bun.write(path.join(TMP, "out", "css", "style.css"), "123");
+
+    const measured = await getOutputFiles(path.join(TMP, "out"), [
+      "index.html",
+      "css/style.css",
+      "index.html",
+      "missing.html",
+    ]);
+
+    expect(measured).toEqual([
+      { path: "css/style.css", size: 3 },
+      { path: "index.html", size: 5 },
+    ]);
+  });
+});
+
+describe("checkBudgets", () => {
+  test("returns nothing when the build is within its budgets", () => {
+    const budgets = {
+      maxTotalSize: 10_000,
+      maxPageSize: 2000,
+      maxBuildTime: 2000,
+      maxCssSize: 4096,
+    };
+    expect(checkBudgets(budgets, metrics, files)).toEqual([]);
+  });
+
+  test("returns nothing without budgets", () => {
+    expect(checkBudgets({}, metrics, files)).toEqual([]);
+  });
+
+  test("reports whole-build and per-file budgets", () => {
+    const violations = checkBudgets(
+      { maxTotalSize: 4000, maxPageSize: 1000, maxBuildTime: 1000, maxCssSize: 1024 },
+      metrics,
+      files,
+    );
+
+    expect(violations).toEqual([
+      { budget: "maxTotalSize", actual: 4548, limit: 4000 },
+      { budget: "maxBuildTime", actual: 1500, limit: 1000 },
+      { budget: "maxPageSize", file: "2025/hello/index.html", actual: 1200, limit: 1000 },
+      { budget: "maxCssSize", file: "css/style.css", actual: 2048, limit: 1024 },
+    ]);
+  });
+
+  test("the page budget only applies to HTML files", () => {
+    const violations = checkBudgets({ maxPageSize: 600 }, metrics, files);
+    expect(violations.map((violation) => violation.file)).toEqual([
+      "2025/hello/index.html",
+      "index.html",
+    ]);
+  });
+});
+
+describe("formatBudgetViolations", () => {
+  test("shows how far over the limit each budget is", () => {
+    const text = formatBudgetViolations([
+      { budget: "maxBuildTime", actual: 1500, limit: 1000 },
+      { budget: "maxCssSize", file: "css/style.css", actual: 2048, limit: 1024 },
+    ]);
+
+    expect(text).toBe(
+      "maxBuildTime: 1500ms is 500ms (50.0%) over the 1000ms limit\n" +
+        "maxCssSize: css/style.css 2.00 KB is 1.00 KB (100.0%) over the 1.00 KB limit",
+    );
+  });
+});
+
+describe("writeBuildReport", () => {
+  test("writes the report as JSON", async () => {
+    const reportPath = path.join(TMP, "report.json");
+    const report: BuildReport = {
+      version: BUILD_REPORT_VERSION,
+      generatedAt: "2025-01-01T00:00:00.000Z",
+      metrics,
+      files,
+      errors: [{ file: "content/2025/bad.md", type: "yaml", message: "bad indentation" }],
+      budgets: { maxBuildTime: 1000 },
+      violations: [{ budget: "maxBuildTime", actual: 1500, limit: 1000 }],
+    };
+
+    await writeBuildReport(reportPath, report);
+
+    expect(await Bun.file(reportPath).json()).toEqual(report);
+  });
+});
@@ -98,13 +98,18 @@ describe("detectChanges", () => {
     expect(result.fullRebuild).toBe(false);
   });
 
-  test("template change triggers fullRebuild immediately", async () => {
+  test("template change is listed without forcing a fullRebuild", async () => {
     const templateFile = await writeTmp("base.njk", "<html></html>");
+    const stableFile = await writeTmp("stable-post.njk", "<article></article>");
     const cache = createEmptyCache(); // template not in cache = changed
+    await primeCache(cache, stableFile);
 
-    const result = await detectChanges([], cache, { templatePaths: [templateFile] });
+    const result = await detectChanges([], cache, {
+      templatePaths: [templateFile, stableFile],
+    });
     expect(result.templatesChanged).toBe(true);
-    expect(result.fullRebuild).toBe(true);
+    expect(result.changedTemplates).toEqual([templateFile]);
+    expect(result.fullRebuild).toBe(false);
   });
 
   test("template unchanged does not trigger fullRebuild", async () => {
@@ -114,6 +119,31 @@ describe("detectChanges", () => {
 
     const result = await detectChanges([], cache, { templatePaths: [templateFile] });
     expect(result.templatesChanged).toBe(false);
+    expect(result.changedTemplates).toEqual([]);
+    expect(result.fullRebuild).toBe(false);
+  });
+
+  test("tags.toml change sets tagDescriptionsChanged", async () => {
+    const tagsFile = await writeTmp("tags.toml", 'travel = "Trips"');
+    const cache = createEmptyCache();
+
+    const changed = await detectChanges([], cache, { tagDescriptionsPath: tagsFile });
+    expect(changed.tagDescriptionsChanged).toBe(true);
+    expect(changed.fullRebuild).toBe(false);
+
+    await primeCache(cache, tagsFile);
+    const unchanged = await detectChanges([], cache, { tagDescriptionsPath: tagsFile });
+    expect(unchanged.tagDescriptionsChanged).toBe(false);
+  });
+
+  test("lists changed static assets", async () => {
+    const logo = await writeTmp("logo.svg", "<svg></svg>");
+    const robots = await writeTmp("humans.txt", "humans");
+    const cache = createEmptyCache();
+    await primeCache(cache, robots);
+
+    const result = await detectChanges([], cache, { assetPaths: [logo, robots] });
+    expect(result.changedAssets).toEqual([logo]);
     expect(result.fullRebuild).toBe(false);
   });
 
@@ -213,6 +243,9 @@ describe("needsIndexRegeneration", () => {
       stylesChanged: false,
       configChanged: false,
       templatesChanged: false,
+      changedTemplates: [] as string[],
+      tagDescriptionsChanged: false,
+      changedAssets: [] as string[],
       fullRebuild: false,
     };
   }
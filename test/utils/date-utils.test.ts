@@ -0,0 +1,31 @@
+import { describe, expect, test } from "bun:test";
+import { getSiteYear, isValidTimeZone, toSiteTime } from "../../src/utils/date-utils";
+
+// 23:30 in Berlin on New Year's Eve, 14:30 in Los Angeles
+const NEW_YEARS_EVE = "2024-12-31T23:30:00+01:00";
+
+describe("Date Utilities", () => {
+  test("getSiteYear should default to Pacific time", () => {
+    expect(getSiteYear("2025-01-01T05:00:00Z")).toBe(2024);
+  });
+
+  test("getSiteYear should use the given timezone", () => {
+    expect(getSiteYear(NEW_YEARS_EVE, "Europe/Berlin")).toBe(2024);
+    expect(getSiteYear("2025-01-01T00:30:00+01:00", "Europe/Berlin")).toBe(2025);
+    expect(getSiteYear("2025-01-01T00:30:00+01:00", "America/Los_Angeles")).toBe(2024);
+  });
+
+  test("toSiteTime should expose the wall-clock time of the timezone", () => {
+    const berlin = toSiteTime(NEW_YEARS_EVE, "Europe/Berlin");
+    expect([berlin.getDate(), berlin.getHours(), berlin.getMinutes()]).toEqual([31, 23, 30]);
+
+    const pacific = toSiteTime(NEW_YEARS_EVE);
+    expect([pacific.getDate(), pacific.getHours()]).toEqual([31, 14]);
+  });
+
+  test("isValidTimeZone should accept IANA names only", () => {
+    expect(isValidTimeZone("Europe/Berlin")).toBeTrue();
+    expect(isValidTimeZone("UTC")).toBeTrue();
+    expect(isValidTimeZone("Mars/Olympus_Mons")).toBeFalse();
+  });
+});
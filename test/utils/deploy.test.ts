@@ -0,0 +1,124 @@
+import { afterEach, describe, expect, test } from "bun:test";
+import { rm } from "node:fs/promises";
+import path from "node:path";
+import {
+  DEPLOY_MANIFEST_VERSION,
+  isObjectUnchanged,
+  loadDeployManifest,
+  normalizePrefix,
+  resolveCacheControl,
+  saveDeployManifest,
+  scanDeployObjects,
+  toObjectKey,
+} from "../../src/utils/deploy";
+
+const testDir = path.join(import.meta.dir, "deploy-test");
+
+describe("Deploy Helpers", () => {
+  afterEach(async () => {
+    await rm(testDir, { recursive: true, force: true });
+  });
+
+  describe("normalizePrefix", () => {
+    test("should trim slashes", () => {
+      expect(normalizePrefix("/blog/")).toBe("blog");
+      expect(normalizePrefix("sites/blog")).toBe("sites/blog");
+      expect(normalizePrefix(undefined)).toBe("");
+    });
+  });
+
+  describe("toObjectKey", () => {
+    test("should join the prefix with forward slashes", () => {
+      expect(toObjectKey("2025/hello/index.html", "blog")).toBe("blog/2025/hello/index.html");
+      expect(toObjectKey("index.html", "")).toBe("index.html");
+    });
+  });
+
+  describe("resolveCacheControl", () => {
+    const rules = {
+      "**/*.html": "public, max-age=60",
+      "**/*.{css,js}": "public, max-age=3600",
+      "**/*": "public, max-age=86400",
+    };
+
+    test("should use the first matching glob", () => {
+      expect(resolveCacheControl("index.html", rules)).toBe("public, max-age=60");
+      expect(resolveCacheControl("2025/hello/index.html", rules)).toBe("public, max-age=60");
+      expect(resolveCacheControl("css/style.css", rules)).toBe("public, max-age=3600");
+      expect(resolveCacheControl("2025/photo.webp", rules)).toBe("public, max-age=86400");
+    });
+
+    test("should fall back to revalidating on every request", () => {
+      expect(resolveCacheControl("feed.xml")).toBe("public, max-age=0, must-revalidate");
+    });
+  });
+
+  describe("scanDeployObjects", () => {
+    test("should describe every file, including dotfiles", async () => {
+      await Bun.write(path.join(testDir, "index.html"), "<h1>Home</h1>");
+      await Bun.write(path.join(testDir, "feed.json"), "{}");
+      await Bun.write(path.join(testDir, ".well-known", "security.txt"), "Contact: me");
+
+      const objects = await scanDeployObjects(testDir, "blog");
+
+      expect(Object.keys(objects)).toEqual([
+        "blog/.well-known/security.txt",
+        "blog/feed.json",
+        "blog/index.html",
+      ]);
+      expect(objects["blog/index.html"].contentType).toBe("text/html;charset=utf-8");
+      expect(objects["blog/feed.json"].contentType).toBe("application/json;charset=utf-8");
+      expect(objects["blog/index.html"].filePath).toBe(path.join(testDir, "index.html"));
+      expect(objects["blog/index.html"].hash).not.toBe("");
+    });
+  });
+
+  describe("isObjectUnchanged", () => {
+    const object = { hash: "abc", contentType: "text/html", cacheControl: "no-cache" };
+
+    test("should compare hash and headers", () => {
+      expect(isObjectUnchanged(object, { ...object })).toBe(true);
+      expect(isObjectUnchanged(object, { ...object, hash: "def" })).toBe(false);
+      expect(isObjectUnchanged(object, { ...object, cacheControl: "max-age=60" })).toBe(false);
+      expect(isObjectUnchanged(undefined, object)).toBe(false);
+    });
+  });
+
+  describe("deploy manifest", () => {
+    const manifestPath = path.join(testDir, "manifest.json");
+    const objects = {
+      "b.html": { hash: "2", contentType: "text/html", cacheControl: "no-cache" },
+      "a.html": { hash: "1", contentType: "text/html", cacheControl: "no-cache" },
+    };
+
+    test("should round-trip with sorted keys", async () => {
+      await saveDeployManifest(manifestPath, {
+        version: DEPLOY_MANIFEST_VERSION,
+        target: "bucket",
+        objects,
+      });
+
+      const manifest = await loadDeployManifest(manifestPath, "bucket");
+      expect(Object.keys(manifest.objects)).toEqual(["a.html", "b.html"]);
+    });
+
+    test("should start fresh for a different target", async () => {
+      await saveDeployManifest(manifestPath, {
+        version: DEPLOY_MANIFEST_VERSION,
+        target: "bucket",
+        objects,
+      });
+
+      const manifest = await loadDeployManifest(manifestPath, "bucket/blog");
+      expect(manifest).toEqual({
+        version: DEPLOY_MANIFEST_VERSION,
+        target: "bucket/blog",
+        objects: {},
+      });
+    });
+
+    test("should start fresh when the manifest is missing", async () => {
+      expect((await loadDeployManifest(manifestPath, "bucket")).objects).toEqual({});
+    });
+  });
+});
@@ -0,0 +1,100 @@
+import { afterEach, describe, expect, test } from "bun:test";
+import { rm } from "node:fs/promises";
+import path from "node:path";
+import type { SiteConfig } from "../../src/types";
+import {
+  getVariantFilename,
+  getVariantWidths,
+  processContentImages,
+} from "../../src/utils/image-pipeline";
+
+const contentDir = path.join(import.meta.dir, "test-responsive-images");
+const outputDir = path.join(import.meta.dir, "image-pipeline-output");
+
+const config: SiteConfig = {
+  title: "Test Blog",
+  description: "Test",
+  baseUrl: "https://example.com",
+  domain: "example",
+  images: { enabled: true, widths: [160, 320, 960], formats: ["webp"] },
+};
+
+describe("Image Pipeline", () => {
+  describe("getVariantFilename", () => {
+    test("should append the width and swap the extension", () => {
+      expect(getVariantFilename("photo.jpg", 480, "webp")).toBe("photo-480w.webp");
+      expect(getVariantFilename("my.trip.png", 960, "png")).toBe("my.trip-960w.png");
+    });
+  });
+
+  describe("getVariantWidths", () => {
+    test("should keep unique widths below the source, ascending", () => {
+      expect(getVariantWidths(1000, [960, 480, 480, 1440, 1000])).toEqual([480, 960]);
+    });
+
+    test("should ignore invalid widths", () => {
+      expect(getVariantWidths(1000, [0, -10, 320.5, 320])).toEqual([320]);
+    });
+  });
+
+  describe("processContentImages", () => {
+    afterEach(async () => {
+      await rm(outputDir, { recursive: true, force: true });
+    });
+
+    test("should write variants and describe them in the manifest", async () => {
+      const manifest = await processContentImages(contentDir, outputDir, config);
+      const image = manifest["2025/photo.png"];
+
+      expect(image.width).toBe(640);
+      expect(image.height).toBe(400);
+      expect(image.fallback).toEqual([
+        { filename: "photo-160w.png", width: 160, height: 100 },
+        { filename: "photo-320w.png", width: 320, height: 200 },
+        { filename: "photo.png", width: 640, height: 400 },
+      ]);
+      expect(image.sources.webp?.map((variant) => variant.filename)).toEqual([
+        "photo-160w.webp",
+        "photo-320w.webp",
+        "photo-640w.webp",
+      ]);
+
+      const webp = await new Bun.Image(path.join(outputDir, "2025", "photo-320w.webp")).metadata();
+      expect(webp).toEqual({ width: 320, height: 200, format: "webp" });
+      expect(await Bun.file(path.join(outputDir, "2025", "photo.png")).exists()).toBe(true);
+    });
+
+    test("should leave originals to the CDN when it is enabled", async () => {
+      await processContentImages(contentDir, outputDir, {
+        ...config,
+        cdn: {
+          enabled: true,
+          baseUrl: "https://img.example.com",
+          pathPattern: "{year}/{filename}",
+        },
+      });
+
+      expect(await Bun.file(path.join(outputDir, "2025", "photo-160w.webp")).exists()).toBe(true);
+      expect(await Bun.file(path.join(outputDir, "2025", "photo.png")).exists()).toBe(false);
+    });
+
+    test("should skip formats the platform cannot encode", async () => {
+      const manifest = await processContentImages(contentDir, outputDir, {
+        ...config,
+        images: { enabled: true, widths: [320], formats: ["avif", "webp"] },
+      });
+      const image = manifest["2025/photo.png"];
+
+      expect(image.sources.webp).toHaveLength(2);
+      if (image.sources.avif) {
+        expect(image.sources.avif).toHaveLength(2);
+      }
+    });
+
+    test("should return an empty manifest for a missing content directory", async () => {
+      expect(
+        await processContentImages(path.join(contentDir, "missing"), outputDir, config),
+      ).toEqual({});
+    });
+  });
+});
@@ -235,19 +235,34 @@ describe("JSON-LD Utilities", () => {
       expect(schema.description).toBe("A blog about web development and technology");
     });
 
-    test("should include search action", () => {
-      const schema = generateWebSiteSchema({ site: mockSite });
+    test("should include search action when search is enabled", () => {
+      const schema = generateWebSiteSchema({
+        site: { ...mockSite, search: { enabled: true } },
+        hasSearchPage: true,
+      });
 
       expect(schema.potentialAction).toEqual({
         "@type": "SearchAction",
         target: {
           "@type": "EntryPoint",
-          urlTemplate: "https://example.com/search?q={search_term_string}",
+          urlTemplate: "https://example.com/search/?q={search_term_string}",
         },
         "query-input": "required name=search_term_string",
       });
     });
 
+    test("should omit search action when search is disabled", () => {
+      const schema = generateWebSiteSchema({ site: mockSite, hasSearchPage: true });
+
+      expect(schema.potentialAction).toBeUndefined();
+    });
+
+    test("should omit search action without a search page", () => {
+      const schema = generateWebSiteSchema({ site: { ...mockSite, search: { enabled: true } } });
+
+      expect(schema.potentialAction).toBeUndefined();
+    });
+
     test("should handle site without description", () => {
       const siteWithoutDesc: SiteConfig = {
         ...mockSite,
@@ -0,0 +1,68 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import fs from "node:fs";
+import path from "node:path";
+import { checkLinks, formatBrokenLinks } from "../../src/utils/link-checker";
+
+const outputDir = path.join(import.meta.dir, "link-checker-output");
+
+async function writeSiteFile(relativePath: string, content: string) {
+  const filePath = path.join(outputDir, relativePath);
+  await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+  await Bun.write(filePath, content);
+}
+
+describe("checkLinks", () => {
+  beforeAll(async () => {
+    await writeSiteFile(
+      "index.html",
+      [
+        "<!doctype html>",
+        '<link rel="stylesheet" href="/css/style.css">',
+        '<a href="/2025/kyoto/">Kyoto</a> <a href="/about">About</a>',
+        '<a href="/2015/missing/">Missing</a>',
+        '<a href="https://example.com/2025/kyoto/#top">Absolute</a>',
+        '<a href="https://example.com/gone/">Absolute missing</a>',
+        '<a href="https://other.example.org/nope/">External</a> <a href="mailto:a@b.c">Mail</a>',
+        '<a href="#top">Top</a> <a href="/old-url/">Redirected</a>',
+      ].join("\n"),
+    );
+    await writeSiteFile(
+      "2025/kyoto/index.html",
+      [
+        '<img src="kyoto.jpg" srcset="kyoto.jpg 640w, kyoto-1280.jpg 1280w">',
+        '<pre><code>&lt;a href="/not-a-link/"&gt;</code></pre>',
+        '<a href="../../about.html?ref=post">About</a>',
+        '<img srcset="data:image/gif;base64,R0lGODlhAQABAAAAACw=,AAAA 1x, kyoto.jpg 2x">',
+      ].join("\n"),
+    );
+    await writeSiteFile("2025/kyoto/kyoto.jpg", "");
+    await writeSiteFile("about.html", "<p>About</p>");
+    await writeSiteFile("css/style.css", "");
+    await writeSiteFile("_redirects", "/old-url/ /2025/kyoto/ 301\n");
+  });
+
+  afterAll(async () => {
+    await fs.promises.rm(outputDir, { recursive: true, force: true });
+  });
+
+  test("should report missing internal targets with file and line", async () => {
+    const broken = await checkLinks(outputDir, { baseUrl: "https://example.com" });
+
+    expect(broken).toEqual([
+      { file: "2025/kyoto/index.html", line: 1, url: "kyoto-1280.jpg" },
+      { file: "index.html", line: 4, url: "/2015/missing/" },
+      { file: "index.html", line: 6, url: "https://example.com/gone/" },
+    ]);
+    expect(formatBrokenLinks(broken)).toBe(
+      "2025/kyoto/index.html:1  kyoto-1280.jpg\n" +
+        "index.html:4  /2015/missing/\n" +
+        "index.html:6  https://example.com/gone/",
+    );
+  });
+
+  test("should skip absolute links without a base URL", async () => {
+    const broken = await checkLinks(outputDir);
+
+    expect(broken.map((link) => link.url)).toEqual(["kyoto-1280.jpg", "/2015/missing/"]);
+  });
+});
@@ -6,6 +6,8 @@ import {
   convertMarkdownToHtml,
   extractExcerpt,
   parseMarkdownFile,
+  parsePageFile,
+  resolvePagePermalink,
   setNoFollowExceptions,
 } from "../../src/utils/markdown-utils";
 
@@ -310,9 +312,9 @@ print("hello")
     const html = convertMarkdownToHtml(markdown);
 
     expect(html).toInclude("<h1>");
-    expect(html).toInclude("<h2>");
-    expect(html).toInclude("<h3>");
-    expect(html).toInclude("<h4>");
+    expect(html).toInclude('<h2 id="h2">');
+    expect(html).toInclude('<h3 id="h3">');
+    expect(html).toInclude('<h4 id="h4">');
     expect(html).toInclude("<h5>");
     expect(html).toInclude("<h6>");
   });
@@ -467,6 +469,56 @@ Content here`,
     expect(html).toInclude("<tr>");
     expect(html).toInclude("<td>");
   });
+
+  test("parseMarkdownFile should collect a table of contents unless toc is false", async () => {
+    const testDir = path.join(import.meta.dir, "markdown-test-toc");
+    await fs.promises.mkdir(testDir, { recursive: true });
+
+    const body = "## Getting there\n\n### By train\n\n## Where to eat";
+    const withToc = path.join(testDir, "with-toc.md");
+    const withoutToc = path.join(testDir, "without-toc.md");
+    await fs.promises.writeFile(
+      withToc,
+      `---\ntitle: With TOC\ndate: 2025-01-01T00:00:00Z\ntags: [test]\n---\n\n${body}`,
+    );
+    await fs.promises.writeFile(
+      withoutToc,
+      `---\ntitle: Without TOC\ndate: 2025-01-01T00:00:00Z\ntags: [test]\ntoc: false\n---\n\n${body}`,
+    );
+
+    const { post } = await parseMarkdownFile(withToc);
+    const { post: plain } = await parseMarkdownFile(withoutToc);
+
+    expect(post?.toc?.map((entry) => entry.id)).toEqual(["getting-there", "where-to-eat"]);
+    expect(post?.toc?.[0].children[0]).toEqual({
+      id: "by-train",
+      text: "By train",
+      level: 3,
+      children: [],
+    });
+    expect(plain?.toc).toBeUndefined();
+    expect(plain?.html).toContain('<h2 id="getting-there">');
+
+    await fs.promises.rm(testDir, { recursive: true });
+  });
+
+  test("parseMarkdownFile should pass the math flag through to the post", async () => {
+    const testDir = path.join(import.meta.dir, "markdown-test-math");
+    await fs.promises.mkdir(testDir, { recursive: true });
+
+    const filePath = path.join(testDir, "euler.md");
+    await fs.promises.writeFile(
+      filePath,
+      "---\ntitle: Euler\ndate: 2025-01-01T00:00:00Z\ntags: [test]\nmath: true\n---\n\n$e^{i\\pi} + 1 = 0$",
+    );
+
+    const { post } = await parseMarkdownFile(filePath);
+
+    expect(post?.math).toBe(true);
+    expect(post?.html).toContain('<span class="katex">');
+
+    await fs.promises.rm(testDir, { recursive: true });
+  });
 });
 
 describe("GitHub-style Markdown Alerts", () => {
@@ -1298,4 +1350,160 @@ Content here`,
 
     await fs.promises.rm(testDir, { recursive: true });
   });
+
+  test("parseMarkdownFile should read series name and order", async () => {
+    const testDir = path.join(import.meta.dir, "markdown-test-series");
+    await fs.promises.mkdir(testDir, { recursive: true });
+
+    const nameOnly = path.join(testDir, "day-one.md");
+    await fs.promises.writeFile(
+      nameOnly,
+      `---
+title: Day One
+date: 2025-01-01T00:00:00Z
+series: Japan 2025
+---
+
+Content here`,
+    );
+
+    const withOrder = path.join(testDir, "day-two.md");
+    await fs.promises.writeFile(
+      withOrder,
+      `---
+title: Day Two
+date: 2025-01-02T00:00:00Z
+series:
+  name: Japan 2025
+  order: 2
+---
+
+Content here`,
+    );
+
+    expect((await parseMarkdownFile(nameOnly)).post?.series).toEqual({ name: "Japan 2025" });
+    expect((await parseMarkdownFile(withOrder)).post?.series).toEqual({
+      name: "Japan 2025",
+      order: 2,
+    });
+
+    await fs.promises.rm(testDir, { recursive: true });
+  });
+});
+
+describe("Site timezone", () => {
+  test("parseMarkdownFile should take the URL year from the site timezone", async () => {
+    const testDir = path.join(import.meta.dir, "markdown-test-timezone");
+    await fs.promises.mkdir(testDir, { recursive: true });
+    const filePath = path.join(testDir, "silvester.md");
+    await fs.promises.writeFile(
+      filePath,
+      `---\ntitle: Silvester\ndate: 2024-12-31T23:30:00+01:00\n---\n\nProst!`,
+    );
+
+    const berlin = await parseMarkdownFile(filePath, undefined, "Europe/Berlin");
+    const tokyo = await parseMarkdownFile(filePath, undefined, "Asia/Tokyo");
+
+    expect(berlin.post?.url).toBe("/2024/silvester/");
+    expect(berlin.post?.date).toBe("2024-12-31T22:30:00.000Z");
+    expect(tokyo.post?.url).toBe("/2025/silvester/");
+
+    await fs.promises.rm(testDir, { recursive: true });
+  });
+});
+
+describe("Default site timezone", () => {
+  test("parseMarkdownFile should place a post near midnight UTC in its Pacific year", async () => {
+    const testDir = path.join(import.meta.dir, "markdown-test-default-timezone");
+    await fs.promises.mkdir(testDir, { recursive: true });
+    const filePath = path.join(testDir, "ny.md");
+    // 02:00 on New Year's Day in Los Angeles
+    await fs.promises.writeFile(filePath, `---\ntitle: NY\ndate: 2025-01-01T10:00:00Z\n---\n\nHi`);
+
+    const { post } = await parseMarkdownFile(filePath);
+    expect(post?.date).toBe("2025-01-01T10:00:00.000Z");
+    expect(post?.url).toBe("/2025/ny/");
+
+    await fs.promises.rm(testDir, { recursive: true });
+  });
+});
+
+describe("Post permalinks", () => {
+  test("parseMarkdownFile should keep a normalized permalink override", async () => {
+    const testDir = path.join(import.meta.dir, "markdown-test-permalink");
+    await fs.promises.mkdir(testDir, { recursive: true });
+    const valid = path.join(testDir, "valid.md");
+    const invalid = path.join(testDir, "invalid.md");
+    await fs.promises.writeFile(
+      valid,
+      `---\ntitle: Old\ndate: 2015-06-09T10:00:00Z\npermalink: /2015/06/old-name\n---\n\nHi`,
+    );
+    await fs.promises.writeFile(
+      invalid,
+      `---\ntitle: Old\ndate: 2015-06-09T10:00:00Z\npermalink: /{week}/old-name/\n---\n\nHi`,
+    );
+
+    const validResult = await parseMarkdownFile(valid);
+    const invalidResult = await parseMarkdownFile(invalid);
+
+    expect(validResult.post?.permalink).toBe("/2015/06/old-name/");
+    expect(validResult.post?.url).toBe("/2015/valid/");
+    expect(invalidResult.post).toBeNull();
+    expect(invalidResult.error?.type).toBe("validation");
+    expect(invalidResult.error?.message).toInclude("{week}");
+
+    await fs.promises.rm(testDir, { recursive: true });
+  });
+});
+
+describe("Standalone pages", () => {
+  test("resolvePagePermalink should derive URLs from the file path", () => {
+    expect(resolvePagePermalink("about.md")).toBe("/about/");
+    expect(resolvePagePermalink(path.join("legal", "privacy.md"))).toBe("/legal/privacy/");
+    expect(resolvePagePermalink(path.join("legal", "index.md"))).toBe("/legal/");
+    expect(resolvePagePermalink(path.join("colophon", "README.md"))).toBe("/colophon/");
+    expect(resolvePagePermalink("index.md")).toBe("/");
+  });
+
+  test("resolvePagePermalink should normalize permalink frontmatter", () => {
+    expect(resolvePagePermalink("now.md", "/now")).toBe("/now/");
+    expect(resolvePagePermalink("now.md", "/about/me/")).toBe("/about/me/");
+    expect(resolvePagePermalink("gone.md", "/404.html")).toBe("/404.html");
+  });
+
+  test("resolvePagePermalink should reject relative and escaping permalinks", () => {
+    expect(resolvePagePermalink("now.md", "now/")).toBeNull();
+    expect(resolvePagePermalink("now.md", "/../etc/")).toBeNull();
+    expect(resolvePagePermalink("now.md", 42)).toBeNull();
+  });
+
+  test("parsePageFile should build a page without a date", async () => {
+    const pagesDir = path.join(FIXTURES_DIR, "pages");
+    const result = await parsePageFile(path.join(pagesDir, "about.md"), pagesDir);
+
+    expect(result.error).toBeNull();
+    expect(result.page).toMatchObject({
+      title: "About",
+      slug: "about",
+      url: "/about/",
+      excerpt: "Who writes this blog and why.",
+    });
+    expect(result.page?.html).toInclude("test fixture");
+    expect(result.page?.date).toBeUndefined();
+  });
+
+  test("parsePageFile should report an invalid permalink", async () => {
+    const testDir = path.join(import.meta.dir, "markdown-test-pages");
+    await fs.promises.mkdir(testDir, { recursive: true });
+    const filePath = path.join(testDir, "contact.md");
+    await fs.promises.writeFile(filePath, `---\ntitle: Contact\npermalink: contact\n---\n\nHi`);
+
+    const result = await parsePageFile(filePath, testDir);
+
+    expect(result.page).toBeNull();
+    expect(result.error?.type).toBe("validation");
+    expect(result.error?.message).toInclude("Invalid permalink");
+
+    await fs.promises.rm(testDir, { recursive: true });
+  });
 });
@@ -0,0 +1,52 @@
+import { describe, expect, test } from "bun:test";
+import { convertMarkdownToHtml, extractExcerpt } from "../../../src/utils/markdown/parser";
+
+describe("Markdown blocks", () => {
+  describe("definition lists", () => {
+    test("should render terms with one or more definitions", () => {
+      expect(
+        convertMarkdownToHtml("Term\n: Definition *one*\n: Definition two\n\nOther\n: More"),
+      ).toBe(
+        "<dl>\n<dt>Term</dt>\n<dd>Definition <em>one</em></dd>\n<dd>Definition two</dd>\n" +
+          "<dt>Other</dt>\n<dd>More</dd>\n</dl>\n",
+      );
+    });
+
+    test("should support several terms and indented continuation lines", () => {
+      expect(convertMarkdownToHtml("Apple\nOrange\n: Fruit\n  that is round")).toBe(
+        "<dl>\n<dt>Apple</dt>\n<dt>Orange</dt>\n<dd>Fruit<br />that is round</dd>\n</dl>\n",
+      );
+    });
+
+    test("should leave paragraphs without a definition alone", () => {
+      expect(convertMarkdownToHtml("Just text\nacross lines")).toBe(
+        "<p>Just text<br />across lines</p>\n",
+      );
+    });
+  });
+
+  describe("containers", () => {
+    test("should render details with a markdown summary and body", () => {
+      expect(convertMarkdownToHtml("::: details Show *config*\n```js\nx\n```\n:::")).toBe(
+        '<details>\n<summary>Show <em>config</em></summary>\n<pre><code class="hljs language-js">x\n</code></pre></details>\n',
+      );
+    });
+
+    test("should nest containers with longer outer fences", () => {
+      expect(convertMarkdownToHtml(":::: aside\nTip.\n\n::: details\nInner\n:::\n::::")).toBe(
+        "<aside>\n<p>Tip.</p>\n<details>\n<summary>Details</summary>\n<p>Inner</p>\n</details>\n</aside>\n",
+      );
+    });
+
+    test("should ignore unknown kinds and colons inside text", () => {
+      expect(convertMarkdownToHtml(":::\nplain\n:::")).toBe("<p>:::<br />plain<br />:::</p>\n");
+      expect(convertMarkdownToHtml("Text ::: not a container")).toBe(
+        "<p>Text ::: not a container</p>\n",
+      );
+    });
+
+    test("should drop fences from excerpts", () => {
+      expect(extractExcerpt("::: details More\nHidden text\n:::")).toBe("Hidden text");
+    });
+  });
+});
@@ -0,0 +1,114 @@
+import { afterEach, describe, expect, test } from "bun:test";
+import { parseCodeFenceMeta, setHighlightOptions } from "../../../src/utils/markdown/code";
+import { convertMarkdownToHtml } from "../../../src/utils/markdown/parser";
+
+describe("Code blocks", () => {
+  afterEach(async () => {
+    await setHighlightOptions();
+  });
+
+  describe("parseCodeFenceMeta", () => {
+    test("should read the language, title, line ranges and line numbers flag", () => {
+      expect(parseCodeFenceMeta(`ts title="src/app.ts" {1,3-5} showLineNumbers`, 5)).toEqual({
+        lang: "ts",
+        title: "src/app.ts",
+        highlightLines: new Set([1, 3, 4, 5]),
+        lineNumbers: true,
+      });
+      expect(parseCodeFenceMeta("python title='a {2}.py'", 5)).toEqual({
+        lang: "python",
+        title: "a {2}.py",
+        highlightLines: new Set(),
+        lineNumbers: false,
+      });
+    });
+
+    test("should clamp line ranges to the block and ignore reversed ranges", () => {
+      expect(parseCodeFenceMeta("ts {0-2,4-100000000,9,5-3}", 5).highlightLines).toEqual(
+        new Set([1, 2, 4, 5]),
+      );
+    });
+  });
+
+  describe("languages", () => {
+    test("should leave unknown and missing languages as escaped text", () => {
+      expect(convertMarkdownToHtml("```bash\necho <hi>\n```")).toBe(
+        '<pre><code class="hljs language-bash">echo &lt;hi&gt;\n</code></pre>',
+      );
+      expect(convertMarkdownToHtml('```\n{ "a": 1 }\n```')).toBe(
+        '<pre><code class="hljs">{ "a": 1 }\n</code></pre>',
+      );
+    });
+
+    test("should load configured languages and their aliases", async () => {
+      await setHighlightOptions({ languages: ["bash", "yaml"] });
+
+      expect(convertMarkdownToHtml("```sh\necho hi\n```")).toContain(
+        '<span class="hljs-built_in">echo</span> hi',
+      );
+      expect(convertMarkdownToHtml("```yml\nkey: value\n```")).toContain(
+        '<span class="hljs-attr">key:</span>',
+      );
+      // Languages left out of the list are no longer highlighted
+      expect(convertMarkdownToHtml("```js\nconst a = 1;\n```")).toContain(
+        '<code class="hljs language-js">const a = 1;\n</code>',
+      );
+    });
+
+    test("should warn about languages highlight.js does not have", async () => {
+      const warnings: string[] = [];
+      const originalWarn = console.warn;
+      console.warn = (message: string) => warnings.push(message);
+      try {
+        await setHighlightOptions({ languages: ["klingon", "../core"] });
+      } finally {
+        console.warn = originalWarn;
+      }
+
+      expect(warnings).toEqual([
+        'Unknown highlight.js language "klingon"; its code blocks stay plain text',
+        'Unknown highlight.js language "../core"; its code blocks stay plain text',
+      ]);
+    });
+  });
+
+  describe("fence extras", () => {
+    test("should add a title and highlight line ranges", () => {
+      const html = convertMarkdownToHtml('```ts title="app.ts" {2}\n/* a\nb */\nconst x = 1;\n```');
+
+      expect(html).toBe(
+        '<div class="code-block"><div class="code-title">app.ts</div>' +
+          '<pre><code class="hljs language-ts">' +
+          '<span class="line"><span class="hljs-comment">/* a</span></span>\n' +
+          '<span class="line highlighted"><span class="hljs-comment">b */</span></span>\n' +
+          '<span class="line"><span class="hljs-keyword">const</span> x = <span class="hljs-number">1</span>;</span>\n' +
+          "</code></pre></div>\n",
+      );
+    });
+
+    test("should render fences whose ranges are all out of range as plain code", () => {
+      expect(convertMarkdownToHtml("```text {3-100000000}\na\nb\n```")).toBe(
+        '<pre><code class="hljs language-text">a\nb\n</code></pre>',
+      );
+    });
+
+    test("should number lines per block or for every block", async () => {
+      expect(convertMarkdownToHtml("```text showLineNumbers\na\nb\n```")).toBe(
+        '<pre class="line-numbers"><code class="hljs language-text">' +
+          '<span class="line">a</span>\n<span class="line">b</span>\n</code></pre>\n',
+      );
+
+      await setHighlightOptions({ lineNumbers: true });
+
+      expect(convertMarkdownToHtml("```\nplain\n```")).toBe(
+        '<pre class="line-numbers"><code class="hljs"><span class="line">plain</span>\n</code></pre>\n',
+      );
+    });
+
+    test("should escape titles", () => {
+      expect(convertMarkdownToHtml('```js title="<b>x</b>.js"\n1\n```')).toContain(
+        '<div class="code-title">&lt;b&gt;x&lt;/b&gt;.js</div>',
+      );
+    });
+  });
+});
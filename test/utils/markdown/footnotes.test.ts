@@ -0,0 +1,52 @@
+import { describe, expect, test } from "bun:test";
+import { convertMarkdownToHtml, extractExcerpt } from "../../../src/utils/markdown/parser";
+
+describe("Footnotes", () => {
+  test("should number references in order and link them both ways", () => {
+    const html = convertMarkdownToHtml(
+      "One[^a] two[^b] again[^a].\n\n[^a]: First note.\n[^b]: Second note.",
+    );
+
+    expect(html).toStartWith(
+      '<p>One<sup class="footnote-ref"><a href="#fn-a" id="fnref-a">1</a></sup>' +
+        ' two<sup class="footnote-ref"><a href="#fn-b" id="fnref-b">2</a></sup>' +
+        ' again<sup class="footnote-ref"><a href="#fn-a" id="fnref-a-2">1</a></sup>.</p>\n',
+    );
+    expect(html).toEndWith(
+      '<section class="footnotes">\n<ol>\n' +
+        '<li id="fn-a"><p>First note. ' +
+        '<a href="#fnref-a" class="footnote-backref" aria-label="Back to reference 1">↩</a> ' +
+        '<a href="#fnref-a-2" class="footnote-backref" aria-label="Back to reference 1">↩</a></p></li>\n' +
+        '<li id="fn-b"><p>Second note. ' +
+        '<a href="#fnref-b" class="footnote-backref" aria-label="Back to reference 2">↩</a></p></li>\n' +
+        "</ol>\n</section>\n",
+    );
+  });
+
+  test("should support indented multi-paragraph definitions", () => {
+    const html = convertMarkdownToHtml(
+      "See[^long].\n\n[^long]: First paragraph.\n\n    Second with [a link](https://example.com).",
+    );
+
+    expect(html).toContain('<li id="fn-long"><p>First paragraph.</p>\n<p>Second with <a');
+    expect(html).toContain('>a link</a>. <a href="#fnref-long"');
+  });
+
+  test("should leave references without a definition as text", () => {
+    expect(convertMarkdownToHtml("Missing [^nope] note.")).toBe("<p>Missing [^nope] note.</p>\n");
+  });
+
+  test("should not add a section when no footnote is referenced", () => {
+    expect(convertMarkdownToHtml("Text.\n\n[^unused]: Never referenced.")).toBe("<p>Text.</p>\n");
+  });
+
+  test("should restart numbering for each document", () => {
+    convertMarkdownToHtml("A[^x] B[^y]\n\n[^x]: X\n[^y]: Y");
+
+    expect(convertMarkdownToHtml("C[^y]\n\n[^y]: Y")).toContain('id="fnref-y">1</a>');
+  });
+
+  test("should drop footnotes from excerpts", () => {
+    expect(extractExcerpt("Hello[^a] there.\n\n[^a]: A note.")).toBe("Hello there.");
+  });
+});
@@ -0,0 +1,109 @@
+import { afterEach, describe, expect, test } from "bun:test";
+import { createHeadingId, setHeadingAnchors } from "../../../src/utils/markdown/headings";
+import { convertMarkdownToHtml, renderMarkdown } from "../../../src/utils/markdown/parser";
+
+describe("Headings", () => {
+  afterEach(() => {
+    setHeadingAnchors(false);
+  });
+
+  describe("createHeadingId", () => {
+    test("should slug heading text and number repeats", () => {
+      const ids = new Map<string, number>();
+
+      expect(createHeadingId("Getting Started!", ids)).toBe("getting-started");
+      expect(createHeadingId("Getting started", ids)).toBe("getting-started-1");
+      expect(createHeadingId("Getting Started 1", ids)).toBe("getting-started-1-1");
+      expect(createHeadingId("Getting Started", ids)).toBe("getting-started-2");
+    });
+
+    test("should fall back when nothing is left to slug", () => {
+      const ids = new Map<string, number>();
+
+      expect(createHeadingId("🎉", ids)).toBe("section");
+      expect(createHeadingId("???", ids)).toBe("section-1");
+    });
+  });
+
+  describe("heading ids", () => {
+    test("should add ids to h2–h4 only", () => {
+      const html = convertMarkdownToHtml(
+        "# Title\n\n## Intro\n\n### Setup\n\n#### Notes\n\n##### Deep",
+      );
+
+      expect(html).toContain("<h1>Title</h1>");
+      expect(html).toContain('<h2 id="intro">Intro</h2>');
+      expect(html).toContain('<h3 id="setup">Setup</h3>');
+      expect(html).toContain('<h4 id="notes">Notes</h4>');
+      expect(html).toContain("<h5>Deep</h5>");
+    });
+
+    test("should slug from plain text and keep inline markup", () => {
+      const html = convertMarkdownToHtml("## Using `bunki` & **Bun**");
+
+      expect(html).toBe(
+        '<h2 id="using-bunki-and-bun">Using <code>bunki</code> &amp; <strong>Bun</strong></h2>\n',
+      );
+    });
+
+    test("should append anchor links when enabled", () => {
+      setHeadingAnchors(true);
+
+      expect(convertMarkdownToHtml("## Q&A")).toBe(
+        '<h2 id="qanda">Q&amp;A<a class="heading-anchor" href="#qanda" aria-label="Link to Q&amp;A">#</a></h2>\n',
+      );
+    });
+
+    test("should strip ids and anchor classes from raw HTML outside h2–h4", () => {
+      const html = convertMarkdownToHtml(
+        '<p id="x"><a class="heading-anchor other" href="#x">x</a></p>',
+      );
+
+      expect(html).toBe('<p><a class="heading-anchor" href="#x">x</a></p>');
+    });
+  });
+
+  describe("renderMarkdown", () => {
+    test("should nest the table of contents by heading level", () => {
+      const { toc } = renderMarkdown(
+        "### Before\n\n## One\n\n### One A\n\n#### One A i\n\n### One B\n\n## Two\n\n#### Two deep",
+      );
+
+      expect(toc).toEqual([
+        { id: "before", text: "Before", level: 3, children: [] },
+        {
+          id: "one",
+          text: "One",
+          level: 2,
+          children: [
+            {
+              id: "one-a",
+              text: "One A",
+              level: 3,
+              children: [{ id: "one-a-i", text: "One A i", level: 4, children: [] }],
+            },
+            { id: "one-b", text: "One B", level: 3, children: [] },
+          ],
+        },
+        {
+          id: "two",
+          text: "Two",
+          level: 2,
+          children: [{ id: "two-deep", text: "Two deep", level: 4, children: [] }],
+        },
+      ]);
+    });
+
+    test("should decode entities in toc text", () => {
+      const { toc } = renderMarkdown(`## Tips & "tricks" <em>now</em>`);
+
+      expect(toc[0].text).toBe('Tips & "tricks" now');
+    });
+
+    test("should start fresh for every document", () => {
+      renderMarkdown("## Intro");
+
+      expect(renderMarkdown("## Intro").toc[0].id).toBe("intro");
+    });
+  });
+});
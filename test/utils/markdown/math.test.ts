@@ -0,0 +1,65 @@
+import { describe, expect, test } from "bun:test";
+import { renderMath } from "../../../src/utils/markdown/math";
+import { convertMarkdownToHtml, extractExcerpt } from "../../../src/utils/markdown/parser";
+
+describe("Math", () => {
+  test("should render inline math to HTML and MathML", () => {
+    const html = convertMarkdownToHtml("Energy is $E=mc^2$.");
+
+    expect(html).toStartWith('<p>Energy is <span class="katex"><span class="katex-mathml">');
+    expect(html).toContain(
+      '<math xmlns="http://www.w3.org/1998/Math/MathML"><semantics><mrow><mi>E</mi><mo>=</mo>',
+    );
+    expect(html).toContain('<annotation encoding="application/x-tex">E=mc^2</annotation>');
+    expect(html).toContain('<span class="katex-html" aria-hidden="true">');
+    expect(html).toContain('style="margin-right:0.0576em"');
+    expect(html).toEndWith("</span>.</p>\n");
+  });
+
+  test("should render $$ blocks in display mode without a paragraph", () => {
+    const html = convertMarkdownToHtml("$$\n\\sqrt{x^2+1}\n$$\n\nAfter.");
+
+    expect(html).toStartWith('<span class="katex-display"><span class="katex">');
+    expect(html).toContain('<math xmlns="http://www.w3.org/1998/Math/MathML" display="block">');
+    expect(html).toContain("<msqrt>");
+    expect(html).toContain('viewbox="0 0 400000 1296" preserveaspectratio="xMinYMin slice"');
+    expect(html).toEndWith("</span>\n<p>After.</p>\n");
+  });
+
+  test("should keep everything KaTeX emits through the sanitizer", () => {
+    const tex =
+      "\\begin{pmatrix}1&2\\\\3&4\\end{pmatrix} \\widehat{abc} \\cancel{x} \\xrightarrow{f}";
+    const expected = renderMath(tex, true)
+      .replace(/;"/g, '"')
+      .replace(/<(path|line)([^>]*)\/>/g, "<$1$2></$1>")
+      .replace(/viewBox=/g, "viewbox=")
+      .replace(/preserveAspectRatio=/g, "preserveaspectratio=");
+
+    expect(convertMarkdownToHtml(`$$\n${tex}\n$$`)).toBe(`${expected}\n`);
+  });
+
+  test("should leave prices, escaped dollars and code alone", () => {
+    expect(convertMarkdownToHtml("It costs $5 and $10.")).toBe("<p>It costs $5 and $10.</p>\n");
+    expect(convertMarkdownToHtml("Not \\$x\\$ or `$y$` or $ z $")).toBe(
+      "<p>Not $x$ or <code>$y$</code> or $ z $</p>\n",
+    );
+  });
+
+  test("should show invalid math as code", () => {
+    expect(convertMarkdownToHtml("Broken $\\frac{a$ here")).toBe(
+      '<p>Broken <code class="math-error">\\frac{a</code> here</p>\n',
+    );
+  });
+
+  test("should not run \\href or other trusted commands", () => {
+    const html = convertMarkdownToHtml("$\\href{javascript:alert(1)}{x}$");
+
+    expect(html).not.toContain("<a ");
+    expect(html).not.toContain("href=");
+    expect(html).not.toContain("javascript:");
+  });
+
+  test("should drop display math from excerpts", () => {
+    expect(extractExcerpt("Before\n\n$$\nx^2\n$$\n\nafter")).toBe("Before after");
+  });
+});
@@ -1,9 +1,10 @@
-import { beforeEach, describe, expect, test } from "bun:test";
-import type { CDNConfig } from "../../../src/types";
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import type { CDNConfig, ImageManifest } from "../../../src/types";
 import {
   convertMarkdownToHtml,
   createMarked,
   extractExcerpt,
+  setImageManifest,
   setNoFollowExceptions,
 } from "../../../src/utils/markdown/parser";
 
@@ -225,6 +226,73 @@ console.log(x);
     });
   });
 
+  describe("responsive images", () => {
+    const manifest: ImageManifest = {
+      "2025/photo.jpg": {
+        width: 1600,
+        height: 900,
+        fallback: [
+          { filename: "photo-480w.jpg", width: 480, height: 270 },
+          { filename: "photo.jpg", width: 1600, height: 900 },
+        ],
+        sources: {
+          webp: [
+            { filename: "photo-480w.webp", width: 480, height: 270 },
+            { filename: "photo-1600w.webp", width: 1600, height: 900 },
+          ],
+        },
+      },
+    };
+
+    beforeEach(() => {
+      setImageManifest(manifest, "100vw");
+    });
+
+    afterEach(() => {
+      setImageManifest(null);
+    });
+
+    test("should render <picture> with local URLs and intrinsic size", () => {
+      const html = convertMarkdownToHtml('![A "view"](./_assets/photo.jpg)', undefined, "2025");
+
+      expect(html).toInclude("<picture>");
+      expect(html).toInclude(
+        '<source type="image/webp" srcset="/2025/photo-480w.webp 480w, /2025/photo-1600w.webp 1600w" sizes="100vw" />',
+      );
+      expect(html).toInclude('src="/2025/photo.jpg"');
+      expect(html).toInclude('srcset="/2025/photo-480w.jpg 480w, /2025/photo.jpg 1600w"');
+      expect(html).toInclude('width="1600" height="900"');
+      expect(html).toInclude('alt="A &quot;view&quot;"');
+      expect(html).toInclude('loading="lazy"');
+    });
+
+    test("should build variant URLs from the CDN path pattern", () => {
+      const cdnConfig: CDNConfig = {
+        enabled: true,
+        baseUrl: "https://img.example.com",
+        pathPattern: "{year}/{filename}",
+        postYear: "2025",
+      };
+      const html = convertMarkdownToHtml("![Photo](./_assets/photo.jpg)", cdnConfig);
+
+      expect(html).toInclude("https://img.example.com/2025/photo-480w.webp 480w");
+      expect(html).toInclude('src="https://img.example.com/2025/photo.jpg"');
+    });
+
+    test("should resolve cross-year references by the year in the path", () => {
+      const html = convertMarkdownToHtml("![Photo](../2025/_assets/photo.jpg)", undefined, "2026");
+
+      expect(html).toInclude('src="/2025/photo.jpg"');
+    });
+
+    test("should leave images without variants as plain <img> tags", () => {
+      const html = convertMarkdownToHtml("![Other](./_assets/other.jpg)", undefined, "2025");
+
+      expect(html).not.toInclude("<picture>");
+      expect(html).toInclude('src="./_assets/other.jpg"');
+    });
+  });
+
   describe("setNoFollowExceptions", () => {
     test("should allow following links to exception domains", () => {
       setNoFollowExceptions(["trusted-site.com"]);
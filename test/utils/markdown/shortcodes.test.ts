@@ -0,0 +1,190 @@
+import { afterEach, describe, expect, test } from "bun:test";
+import path from "node:path";
+import type { CDNConfig } from "../../../src/types";
+import { convertMarkdownToHtml, extractExcerpt } from "../../../src/utils/markdown/parser";
+import {
+  parseShortcodeArgs,
+  renderShortcode,
+  setShortcodeOptions,
+} from "../../../src/utils/markdown/shortcodes";
+
+const fixturesDir = path.join(import.meta.dir, "test-shortcodes");
+const siteOptions = {
+  templatesDir: path.join(fixturesDir, "templates"),
+  contentDir: path.join(fixturesDir, "content"),
+};
+
+const cdnConfig: CDNConfig = {
+  enabled: true,
+  baseUrl: "https://img.example.com",
+  pathPattern: "{year}/{filename}",
+};
+
+describe("Shortcodes", () => {
+  afterEach(() => {
+    setShortcodeOptions();
+  });
+
+  describe("parseShortcodeArgs", () => {
+    test("should read double-quoted, single-quoted and bare values", () => {
+      expect(parseShortcodeArgs(` dir="_assets/kyoto" title='Say "hi"' zoom=15`)).toEqual({
+        dir: "_assets/kyoto",
+        title: 'Say "hi"',
+        zoom: "15",
+      });
+      expect(parseShortcodeArgs(` caption="a > b" alt='x'`)).toEqual({
+        caption: "a > b",
+        alt: "x",
+      });
+    });
+  });
+
+  describe("built-ins", () => {
+    test("should render figure with a resolved asset URL and escaped caption", () => {
+      const html = convertMarkdownToHtml(
+        '{{< figure src="./_assets/cat.jpg" caption="A <b>cat</b>" width=640 >}}',
+        cdnConfig,
+        "2025",
+      );
+
+      expect(html).toBe(
+        '<figure class="shortcode-figure">' +
+          '<img src="https://img.example.com/2025/cat.jpg" alt="A &lt;b&gt;cat&lt;/b&gt;" width="640" loading="lazy" />' +
+          "<figcaption>A &lt;b&gt;cat&lt;/b&gt;</figcaption></figure>\n",
+      );
+    });
+
+    test("should render youtube embeds without a wrapping paragraph", () => {
+      const html = convertMarkdownToHtml(
+        'Watch this:\n\n{{< youtube id="dQw4w9WgXcQ" start=42 >}}\n',
+      );
+
+      expect(html).toStartWith(
+        '<p>Watch this:</p>\n<div class="video-container shortcode-youtube">',
+      );
+      expect(html).toContain(
+        'src="https://www.youtube-nocookie.com/embed/dQw4w9WgXcQ?start=42" title="YouTube video"',
+      );
+      expect(html).toContain("allowfullscreen");
+    });
+
+    test("should render maps from a query or coordinates", () => {
+      expect(convertMarkdownToHtml('{{< map q="Fushimi Inari" >}}')).toContain(
+        'src="https://maps.google.com/maps?q=Fushimi%20Inari&amp;z=14&amp;output=embed" title="Map of Fushimi Inari"',
+      );
+      expect(convertMarkdownToHtml("{{< map lat=34.97 lng=135.77 zoom=16 >}}")).toContain(
+        "maps?q=34.97%2C135.77&amp;z=16&amp;output=embed",
+      );
+    });
+
+    test("should list gallery images from the post year folder", () => {
+      setShortcodeOptions(siteOptions);
+
+      const html = convertMarkdownToHtml('{{< gallery dir="_assets/kyoto" >}}', cdnConfig, "2025");
+
+      expect(html).toBe(
+        '<div class="shortcode-gallery">' +
+          '<figure><a href="https://img.example.com/2025/kyoto/fushimi-inari.png">' +
+          '<img src="https://img.example.com/2025/kyoto/fushimi-inari.png" alt="fushimi inari" loading="lazy" /></a></figure>' +
+          '<figure><a href="https://img.example.com/2025/kyoto/kinkaku_ji.png">' +
+          '<img src="https://img.example.com/2025/kyoto/kinkaku_ji.png" alt="kinkaku ji" loading="lazy" /></a></figure>' +
+          "</div>\n",
+      );
+    });
+
+    test("should not list folders outside the post year", () => {
+      setShortcodeOptions(siteOptions);
+
+      expect(
+        renderShortcode(
+          "gallery",
+          { dir: "../../templates" },
+          {
+            postYear: "2025",
+            resolveAsset: (p) => p,
+          },
+        ),
+      ).toBe('<div class="shortcode-gallery"></div>');
+    });
+  });
+
+  describe("site templates", () => {
+    test("should let templates/shortcodes/ replace a built-in", () => {
+      setShortcodeOptions(siteOptions);
+
+      const html = convertMarkdownToHtml('{{< youtube id="abc" title="Demo" >}}');
+
+      expect(html).toBe(
+        '<div class="video-container"><iframe src="https://www.youtube.com/embed/abc" title="Demo"></iframe></div>\n',
+      );
+    });
+
+    test("should render paired shortcodes with markdown inside", () => {
+      setShortcodeOptions(siteOptions);
+
+      const html = convertMarkdownToHtml(
+        '{{< callout type="warning" >}}\nMind the **gap**.\n{{< /callout >}}\n\nAfter.',
+      );
+
+      expect(html).toBe(
+        '<div class="shortcode-callout shortcode-callout-warning"><p>Mind the <strong>gap</strong>.</p>\n</div>\n<p>After.</p>\n',
+      );
+    });
+
+    test("should restore shortcodes nested in a paired shortcode", () => {
+      setShortcodeOptions(siteOptions);
+
+      const html = convertMarkdownToHtml(
+        '{{< callout >}}\nSee {{< map q=Kyoto >}}\n\n{{< embed url="https://evil.example.com/x" >}}\n{{< /callout >}}',
+      );
+
+      expect(html).not.toContain("bunki-shortcode-");
+      expect(html).toContain('<div class="shortcode-map"><iframe src="https://maps.google.com/');
+      expect(html).toContain('<iframe title="Embed"></iframe>');
+    });
+
+    test("should sanitize site template output with the shortcode allow-list", () => {
+      setShortcodeOptions(siteOptions);
+
+      expect(convertMarkdownToHtml('{{< embed url="https://evil.example.com/x" >}}')).toBe(
+        '<iframe title="Embed"></iframe>\n',
+      );
+      expect(
+        convertMarkdownToHtml('{{< embed url="https://maps.google.com/maps?q=Kyoto" >}}'),
+      ).toBe('<iframe src="https://maps.google.com/maps?q=Kyoto" title="Embed"></iframe>\n');
+    });
+
+    test("should allow configured iframe hosts", () => {
+      setShortcodeOptions({ ...siteOptions, iframeHosts: ["player.vimeo.com"] });
+
+      expect(convertMarkdownToHtml('{{< embed url="https://player.vimeo.com/video/1" >}}')).toBe(
+        '<iframe src="https://player.vimeo.com/video/1" title="Embed"></iframe>\n',
+      );
+    });
+  });
+
+  describe("unresolved shortcodes", () => {
+    test("should leave unknown shortcodes as visible text", () => {
+      expect(convertMarkdownToHtml('Before {{< nope x="1" >}} after')).toBe(
+        '<p>Before {{&lt; nope x="1" &gt;}} after</p>\n',
+      );
+    });
+
+    test("should not expand shortcodes inside code", () => {
+      const html = convertMarkdownToHtml('Use `{{< youtube id="x" >}}` to embed.');
+
+      expect(html).toContain('<code>{{&lt; youtube id="x" &gt;}}</code>');
+      expect(html).not.toContain("<iframe");
+    });
+
+    test("should not let post content forge placeholders", () => {
+      const html = convertMarkdownToHtml("bunki-shortcode-0-0 {{< map q=Kyoto >}}");
+
+      expect(html).toStartWith("<p>bunki-shortcode-0-0 <div");
+    });
+
+    test("should drop shortcodes from excerpts", () => {
+      expect(extractExcerpt('Hello {{< youtube id="x" >}} world')).toBe("Hello  world");
+    });
+  });
+});
@@ -1,7 +1,9 @@
 import { describe, expect, test } from "bun:test";
 import {
   checkDeprecatedLocationField,
+  validateAliases,
   validateBusinessLocation,
+  validateSeries,
   validateTags,
 } from "../../../src/utils/markdown/validators";
 
@@ -215,4 +217,45 @@ describe("Frontmatter Validators", () => {
       expect(error).toBeNull();
     });
   });
+  describe("validateAliases", () => {
+    test("should accept site-relative URLs", () => {
+      expect(validateAliases(["/2019/old-slug/", "/old-slug"], "test.md")).toBeNull();
+      expect(validateAliases(undefined, "test.md")).toBeNull();
+    });
+
+    test("should reject a single string and relative or absolute URLs", () => {
+      expect(validateAliases("/old/" as unknown as string[], "test.md")?.message).toBe(
+        "Aliases must be a list of URLs",
+      );
+      const error = validateAliases(["old-slug/", "https://example.com/old/"], "test.md");
+      expect(error?.message).toInclude('"old-slug/"');
+      expect(error?.message).toInclude('"https://example.com/old/"');
+    });
+  });
+
+  describe("validateSeries", () => {
+    test("should accept a series name or a name with order", () => {
+      expect(validateSeries("Japan 2025", "test.md")).toBeNull();
+      expect(validateSeries({ name: "Japan 2025", order: 2 }, "test.md")).toBeNull();
+      expect(validateSeries(undefined, "test.md")).toBeNull();
+    });
+
+    test("should error on a missing name", () => {
+      const error = validateSeries({ name: "  " }, "test.md");
+
+      expect(error?.type).toBe("validation");
+      expect(error?.message).toBe("Series must have a name");
+      expect(error?.suggestion).toInclude("order: 2");
+    });
+
+    test("should error on a non-numeric order", () => {
+      const error = validateSeries(
+        { name: "Japan 2025", order: "two" as unknown as number },
+        "test.md",
+      );
+
+      expect(error?.type).toBe("validation");
+      expect(error?.message).toInclude("Series order must be a number");
+    });
+  });
 });
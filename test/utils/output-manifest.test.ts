@@ -0,0 +1,97 @@
+import { afterAll, describe, expect, test } from "bun:test";
+import { mkdir, rm } from "node:fs/promises";
+import path from "node:path";
+import { isDirectory } from "../../src/utils/file-utils";
+import {
+  getStaleOutputs,
+  loadOutputManifest,
+  OUTPUT_MANIFEST_VERSION,
+  pruneOutputs,
+  saveOutputManifest,
+} from "../../src/utils/output-manifest";
+
+const TMP = path.join(import.meta.dir, "tmp-output-manifest");
+const OUTPUT = path.join(TMP, "dist");
+const MANIFEST = path.join(TMP, ".bunki-output.json");
+
+afterAll(async () => {
+  await rm(TMP, { recursive: true, force: true });
+});
+
+async function writeOutput(relativePath: string): Promise<void> {
+  await mkdir(path.dirname(path.join(OUTPUT, relativePath)), { recursive: true });
+  await Bun.write(path.join(OUTPUT, relativePath), relativePath);
+}
+
+describe("loadOutputManifest / saveOutputManifest", () => {
+  test("round-trips files in sorted order without duplicates", async () => {
+    await saveOutputManifest(MANIFEST, OUTPUT, ["tags/index.html", "index.html", "index.html"]);
+
+    const saved = await Bun.file(MANIFEST).json();
+    expect(saved.version).toBe(OUTPUT_MANIFEST_VERSION);
+    expect(await loadOutputManifest(MANIFEST, OUTPUT)).toEqual(["index.html", "tags/index.html"]);
+  });
+
+  test("ignores a manifest written for another output directory", async () => {
+    await saveOutputManifest(MANIFEST, OUTPUT, ["index.html"]);
+    expect(await loadOutputManifest(MANIFEST, path.join(TMP, "other"))).toEqual([]);
+  });
+
+  test("ignores a manifest from another version", async () => {
+    await Bun.write(MANIFEST, JSON.stringify({ version: 0, outputDir: OUTPUT, files: ["a"] }));
+    expect(await loadOutputManifest(MANIFEST, OUTPUT)).toEqual([]);
+  });
+
+  test("returns nothing when the manifest is missing", async () => {
+    expect(await loadOutputManifest(path.join(TMP, "missing.json"), OUTPUT)).toEqual([]);
+  });
+});
+
+describe("getStaleOutputs", () => {
+  test("lists previous files this build did not produce", () => {
+    const stale = getStaleOutputs(
+      ["index.html", "2024/old/index.html", "tags/old/index.html"],
+      new Set(["index.html", "2025/new/index.html"]),
+    );
+    expect(stale).toEqual(["2024/old/index.html", "tags/old/index.html"]);
+  });
+
+  test("returns nothing on a first build", () => {
+    expect(getStaleOutputs([], new Set(["index.html"]))).toEqual([]);
+  });
+});
+
+describe("pruneOutputs", () => {
+  test("deletes stale files and the directories they leave empty", async () => {
+    await writeOutput("tags/old/index.html");
+    await writeOutput("tags/old/page/2/index.html");
+    await writeOutput("tags/kept/index.html");
+    await writeOutput("2024/old/index.html");
+    await writeOutput("2024/index.html");
+
+    await pruneOutputs(OUTPUT, [
+      "tags/old/index.html",
+      "tags/old/page/2/index.html",
+      "2024/old/index.html",
+    ]);
+
+    expect(await isDirectory(path.join(OUTPUT, "tags/old"))).toBe(false);
+    expect(await isDirectory(path.join(OUTPUT, "2024/old"))).toBe(false);
+    expect(await Bun.file(path.join(OUTPUT, "tags/kept/index.html")).exists()).toBe(true);
+    expect(await Bun.file(path.join(OUTPUT, "2024/index.html")).exists()).toBe(true);
+    expect(await isDirectory(OUTPUT)).toBe(true);
+  });
+
+  test("never deletes files outside the output directory", async () => {
+    const outside = path.join(TMP, "outside.txt");
+    await Bun.write(outside, "keep");
+
+    await pruneOutputs(OUTPUT, ["../outside.txt"]);
+
+    expect(await Bun.file(outside).exists()).toBe(true);
+  });
+
+  test("skips files that are already gone", async () => {
+    await expect(pruneOutputs(OUTPUT, ["missing/index.html"])).resolves.toBeUndefined();
+  });
+});
@@ -0,0 +1,85 @@
+import { describe, expect, test } from "bun:test";
+import {
+  formatPermalink,
+  normalizePermalink,
+  rewriteInternalLinks,
+  validatePermalinkPattern,
+} from "../../src/utils/permalink";
+
+const post = { date: "2015-06-09T17:00:00.000Z", slug: "hello-world", category: "Travel Notes" };
+
+describe("Permalinks", () => {
+  describe("normalizePermalink", () => {
+    test("should add a trailing slash unless the URL ends in .html", () => {
+      expect(normalizePermalink("/about")).toBe("/about/");
+      expect(normalizePermalink("/about/")).toBe("/about/");
+      expect(normalizePermalink("/2015/06/hello.html")).toBe("/2015/06/hello.html");
+    });
+
+    test("should reject relative and escaping paths", () => {
+      expect(normalizePermalink("about/")).toBeNull();
+      expect(normalizePermalink("/blog/../admin/")).toBeNull();
+      expect(normalizePermalink(undefined)).toBeNull();
+    });
+  });
+
+  describe("validatePermalinkPattern", () => {
+    test("should accept known tokens", () => {
+      expect(validatePermalinkPattern("/{year}/{month}/{day}/{slug}/")).toBeNull();
+      expect(validatePermalinkPattern("/{category}/{slug}.html")).toBeNull();
+    });
+
+    test("should reject unknown tokens", () => {
+      expect(validatePermalinkPattern("/{yyyy}/{slug}/")).toInclude("{yyyy}");
+    });
+
+    test("should require {slug} only for site-wide patterns", () => {
+      expect(validatePermalinkPattern("/{year}/")).toInclude("{slug}");
+      expect(validatePermalinkPattern("/2015/06/old-name/", false)).toBeNull();
+    });
+
+    test("should require a leading slash", () => {
+      expect(validatePermalinkPattern("{year}/{slug}/")).toInclude("starting with");
+    });
+  });
+
+  describe("formatPermalink", () => {
+    test("should fill date tokens in the site timezone", () => {
+      expect(formatPermalink("/{year}/{month}/{day}/{slug}/", post)).toBe(
+        "/2015/06/09/hello-world/",
+      );
+      expect(formatPermalink("/{year}/{month}/{day}/{slug}/", post, "Asia/Tokyo")).toBe(
+        "/2015/06/10/hello-world/",
+      );
+    });
+
+    test("should slugify the category and fall back to uncategorized", () => {
+      expect(formatPermalink("/{category}/{slug}/", post)).toBe("/travel-notes/hello-world/");
+      expect(formatPermalink("/{category}/{slug}/", { ...post, category: undefined })).toBe(
+        "/uncategorized/hello-world/",
+      );
+    });
+
+    test("should normalize the trailing slash", () => {
+      expect(formatPermalink("/{year}/{slug}", post)).toBe("/2015/hello-world/");
+      expect(formatPermalink("/{year}/{slug}.html", post)).toBe("/2015/hello-world.html");
+    });
+  });
+
+  describe("rewriteInternalLinks", () => {
+    const urlMap = new Map([["/2015/hello-world/", "/2015/06/hello-world/"]]);
+
+    test("should rewrite mapped links and keep anchors", () => {
+      const html = '<a href="/2015/hello-world/">a</a> <a href="/2015/hello-world/#intro">b</a>';
+      expect(rewriteInternalLinks(html, urlMap)).toBe(
+        '<a href="/2015/06/hello-world/">a</a> <a href="/2015/06/hello-world/#intro">b</a>',
+      );
+    });
+
+    test("should leave other links untouched", () => {
+      const html =
+        '<a href="/2016/other/">a</a> <a href="https://example.com/2015/hello-world/">b</a>';
+      expect(rewriteInternalLinks(html, urlMap)).toBe(html);
+    });
+  });
+});
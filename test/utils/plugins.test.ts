@@ -0,0 +1,187 @@
+import { describe, expect, test } from "bun:test";
+import type { BunkiPlugin, Post, Site, SiteConfig } from "../../src/types";
+import {
+  applyConfigHooks,
+  applyPageRenderedHooks,
+  applyPostHooks,
+  applySiteModelHooks,
+  PluginError,
+  runBuildCompleteHooks,
+  runExtendHook,
+  validatePlugins,
+} from "../../src/utils/plugins";
+
+const config: SiteConfig = {
+  title: "Test Blog",
+  description: "Plugin tests",
+  baseUrl: "https://example.com",
+  domain: "example",
+};
+
+const post: Post = {
+  title: "Hello",
+  date: "2025-01-15T10:00:00Z",
+  tags: [],
+  tagSlugs: {},
+  content: "Hello",
+  slug: "hello",
+  excerpt: "Hello",
+  html: "<p>Hello</p>",
+  url: "/2025/hello/",
+};
+
+const site: Site = {
+  name: "test",
+  posts: [post],
+  tags: {},
+  postsByYear: {},
+  series: {},
+  pages: [],
+};
+
+describe("Plugins", () => {
+  describe("validatePlugins", () => {
+    test("should accept named plugins", () => {
+      expect(validatePlugins([{ name: "a" }, { name: "b" }])).toBeNull();
+    });
+
+    test("should point at the first plugin without a name", () => {
+      const plugins = [{ name: "a" }, { name: " " }] as BunkiPlugin[];
+      expect(validatePlugins(plugins)).toBe('plugins[1] must be an object with a non-empty "name"');
+    });
+  });
+
+  describe("applyConfigHooks", () => {
+    test("should chain replacements in registration order", async () => {
+      const plugins: BunkiPlugin[] = [
+        { name: "first", onConfig: (c) => ({ ...c, title: `${c.title} 1` }) },
+        { name: "noop", onConfig: () => undefined },
+        { name: "second", onConfig: async (c) => ({ ...c, title: `${c.title} 2` }) },
+      ];
+
+      const result = await applyConfigHooks(plugins, config);
+
+      expect(result.title).toBe("Test Blog 1 2");
+      expect(config.title).toBe("Test Blog");
+    });
+  });
+
+  describe("applyPostHooks", () => {
+    test("should pass each plugin the previous result", async () => {
+      const plugins: BunkiPlugin[] = [
+        { name: "upper", onPostParsed: (p) => ({ ...p, title: p.title.toUpperCase() }) },
+        { name: "suffix", onPostParsed: (p, c) => ({ ...p, title: `${p.title} | ${c.title}` }) },
+      ];
+
+      expect((await applyPostHooks(plugins, post, config)).title).toBe("HELLO | Test Blog");
+    });
+  });
+
+  describe("applySiteModelHooks", () => {
+    test("should keep the model when a hook mutates in place", async () => {
+      const plugins: BunkiPlugin[] = [
+        {
+          name: "mutate",
+          onSiteModel: (s) => {
+            s.name = "changed";
+          },
+        },
+      ];
+
+      const result = await applySiteModelHooks(plugins, { ...site }, config);
+
+      expect(result.name).toBe("changed");
+    });
+  });
+
+  describe("applyPageRenderedHooks", () => {
+    test("should rewrite HTML and expose the output path", async () => {
+      const paths: string[] = [];
+      const plugins: BunkiPlugin[] = [
+        {
+          name: "banner",
+          onPageRendered: (page) => {
+            paths.push(page.path);
+            return page.html.replace("</p>", "</p><aside>banner</aside>");
+          },
+        },
+        { name: "minify", onPageRendered: (page) => page.html.replace(/\s+/g, " ") },
+      ];
+
+      const html = await applyPageRenderedHooks(plugins, {
+        path: "index.html",
+        html: "<p>Hi</p>\n\n",
+      });
+
+      expect(html).toBe("<p>Hi</p><aside>banner</aside> ");
+      expect(paths).toEqual(["index.html"]);
+    });
+  });
+
+  describe("runBuildCompleteHooks", () => {
+    test("should await hooks one after another", async () => {
+      const calls: string[] = [];
+      const plugins: BunkiPlugin[] = [
+        {
+          name: "slow",
+          onBuildComplete: async () => {
+            await Bun.sleep(5);
+            calls.push("slow");
+          },
+        },
+        { name: "fast", onBuildComplete: () => void calls.push("fast") },
+      ];
+
+      await runBuildCompleteHooks(plugins, { site, config, outputDir: "dist" });
+
+      expect(calls).toEqual(["slow", "fast"]);
+    });
+  });
+
+  describe("errors", () => {
+    test("should name the plugin and hook that threw", async () => {
+      const plugins: BunkiPlugin[] = [
+        { name: "fine", onPostParsed: () => undefined },
+        {
+          name: "broken",
+          onPostParsed: () => {
+            throw new Error("bad front matter");
+          },
+        },
+      ];
+
+      const error = await applyPostHooks(plugins, post, config).catch((e) => e);
+
+      expect(error).toBeInstanceOf(PluginError);
+      expect(error.message).toBe('Plugin "broken" failed in onPostParsed: bad front matter');
+      expect(error.pluginName).toBe("broken");
+      expect(error.hook).toBe("onPostParsed");
+      expect(error.cause).toBeInstanceOf(Error);
+    });
+
+    test("should wrap rejected promises and non-Error values", async () => {
+      const plugins: BunkiPlugin[] = [
+        { name: "async", onBuildComplete: () => Promise.reject("disk full") },
+      ];
+
+      await expect(
+        runBuildCompleteHooks(plugins, { site, config, outputDir: "dist" }),
+      ).rejects.toThrow('Plugin "async" failed in onBuildComplete: disk full');
+    });
+
+    test("should wrap extension hook failures", () => {
+      const plugins: BunkiPlugin[] = [
+        {
+          name: "filters",
+          extendTemplateEngine: () => {
+            throw new Error("filter exists");
+          },
+        },
+      ];
+
+      expect(() => runExtendHook(plugins, "extendTemplateEngine", {} as never)).toThrow(
+        'Plugin "filters" failed in extendTemplateEngine: filter exists',
+      );
+    });
+  });
+});
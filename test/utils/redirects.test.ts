@@ -0,0 +1,123 @@
+import { describe, expect, test } from "bun:test";
+import type { Page, Post, Site, SiteConfig } from "../../src/types";
+import {
+  buildRedirectPage,
+  buildRedirectsFile,
+  collectRedirects,
+  matchRedirect,
+  parseRedirectsFile,
+} from "../../src/utils/redirects";
+
+const config: SiteConfig = {
+  title: "Test Blog",
+  description: "Test description",
+  baseUrl: "https://example.com",
+  domain: "example.com",
+};
+
+function createPost(overrides: Partial<Post> = {}): Post {
+  return {
+    title: "Post",
+    date: "2025-01-01T12:00:00Z",
+    tags: [],
+    tagSlugs: {},
+    content: "",
+    slug: "post",
+    url: "/2025/post/",
+    excerpt: "",
+    html: "",
+    ...overrides,
+  };
+}
+
+function createSite(posts: Post[], pages: Page[] = []): Site {
+  return { name: "test", posts, tags: {}, postsByYear: {}, series: {}, pages };
+}
+
+describe("Redirects", () => {
+  describe("collectRedirects", () => {
+    test("should map every alias to the post URL, sorted by source", () => {
+      const site = createSite([
+        createPost({ url: "/2025/new-name/", aliases: ["/2024/old-name/", "/old-name/"] }),
+        createPost({ url: "/2025/other/", aliases: ["/2023/other/"] }),
+      ]);
+
+      expect(collectRedirects(site)).toEqual([
+        { from: "/2023/other/", to: "/2025/other/" },
+        { from: "/2024/old-name/", to: "/2025/new-name/" },
+        { from: "/old-name/", to: "/2025/new-name/" },
+      ]);
+    });
+
+    test("should skip aliases that point at real content or are already claimed", () => {
+      const about: Page = {
+        title: "About",
+        slug: "about",
+        url: "/about/",
+        content: "",
+        html: "",
+        excerpt: "",
+      };
+      const site = createSite(
+        [
+          createPost({ url: "/2025/a/", aliases: ["/2025/a/", "/about/", "/2025/b/", "/shared/"] }),
+          createPost({ url: "/2025/b/", aliases: ["/shared/"] }),
+        ],
+        [about],
+      );
+
+      expect(collectRedirects(site)).toEqual([{ from: "/shared/", to: "/2025/a/" }]);
+    });
+  });
+
+  describe("buildRedirectPage", () => {
+    test("should include a meta refresh, canonical link and noindex", () => {
+      const html = buildRedirectPage({ from: "/old/", to: "/2025/new/" }, config);
+
+      expect(html).toContain('<meta http-equiv="refresh" content="0; url=/2025/new/">');
+      expect(html).toContain('<link rel="canonical" href="https://example.com/2025/new/">');
+      expect(html).toContain('<meta name="robots" content="noindex">');
+    });
+
+    test("should escape the target URL", () => {
+      const html = buildRedirectPage({ from: "/old/", to: '/a"b/' }, config);
+      expect(html).toContain("url=/a&quot;b/");
+    });
+  });
+
+  describe("_redirects files", () => {
+    test("should write one 301 rule per redirect", () => {
+      expect(buildRedirectsFile([{ from: "/old/", to: "/new/" }])).toBe("/old/ /new/ 301\n");
+      expect(buildRedirectsFile([])).toBe("");
+    });
+
+    test("should parse exact-path rules and skip the rest", () => {
+      const rules = parseRedirectsFile(
+        [
+          "# comment",
+          "/old/ /new/ 301",
+          "/temp /elsewhere 302",
+          "/default /target",
+          "/old/ /ignored/ 301",
+          "/blog/* /posts/:splat 301",
+          "/api/:id /api.html 200",
+          "/rewrite /index.html 200",
+        ].join("\n"),
+      );
+
+      expect([...rules.entries()]).toEqual([
+        ["/old/", { to: "/new/", status: 301 }],
+        ["/temp", { to: "/elsewhere", status: 302 }],
+        ["/default", { to: "/target", status: 301 }],
+      ]);
+    });
+
+    test("should match with or without a trailing slash", () => {
+      const rules = parseRedirectsFile("/old/ /new/ 301\n/temp /elsewhere 302");
+
+      expect(matchRedirect(rules, "/old")?.to).toBe("/new/");
+      expect(matchRedirect(rules, "/temp/")?.to).toBe("/elsewhere");
+      expect(matchRedirect(rules, "/missing/")).toBeNull();
+    });
+  });
+});
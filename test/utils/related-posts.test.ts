@@ -0,0 +1,144 @@
+import { describe, expect, test } from "bun:test";
+import type { Business, Post } from "../../src/types";
+import { findRelatedPosts, getDistanceKm, scoreRelatedness } from "../../src/utils/related-posts";
+
+function createPost(overrides: Partial<Post> = {}): Post {
+  return {
+    title: "Post",
+    date: "2025-01-01T12:00:00Z",
+    tags: [],
+    tagSlugs: {},
+    content: "",
+    slug: "post",
+    url: "/2025/post/",
+    excerpt: "",
+    html: "",
+    ...overrides,
+  };
+}
+
+function createBusiness(lat: number, lng: number): Business {
+  return { type: "Restaurant", name: "Place", address: "1 Main St", lat, lng };
+}
+
+describe("Related Posts", () => {
+  describe("getDistanceKm", () => {
+    test("should be zero for the same coordinates", () => {
+      const place = createBusiness(47.6062, -122.3321);
+      expect(getDistanceKm(place, place)).toBe(0);
+    });
+
+    test("should approximate known distances", () => {
+      // Seattle to Portland is roughly 234 km as the crow flies
+      const seattle = createBusiness(47.6062, -122.3321);
+      const portland = createBusiness(45.5152, -122.6784);
+      expect(getDistanceKm(seattle, portland)).toBeCloseTo(234, -1);
+    });
+  });
+
+  describe("scoreRelatedness", () => {
+    test("should score shared tags case-insensitively", () => {
+      const a = createPost({ tags: ["Food", "Seattle", "Ramen"] });
+      const b = createPost({ tags: ["food", "seattle"] });
+      expect(scoreRelatedness(a, b)).toBe(4);
+    });
+
+    test("should add the category weight for matching categories", () => {
+      const a = createPost({ category: "Reviews" });
+      const b = createPost({ category: "reviews" });
+      expect(scoreRelatedness(a, b)).toBe(1.5);
+    });
+
+    test("should score nearby businesses and ignore distant ones", () => {
+      const a = createPost({ business: createBusiness(47.6062, -122.3321) });
+      const near = createPost({ business: createBusiness(47.6062, -122.3321) });
+      const far = createPost({ business: createBusiness(45.5152, -122.6784) });
+
+      expect(scoreRelatedness(a, near)).toBe(3);
+      expect(scoreRelatedness(a, far)).toBe(0);
+    });
+
+    test("should be zero for unrelated posts", () => {
+      expect(scoreRelatedness(createPost({ tags: ["a"] }), createPost({ tags: ["b"] }))).toBe(0);
+    });
+  });
+
+  describe("findRelatedPosts", () => {
+    const ramen = createPost({ title: "Ramen", url: "/2025/ramen/", tags: ["food", "japanese"] });
+    const sushi = createPost({ title: "Sushi", url: "/2025/sushi/", tags: ["food", "japanese"] });
+    const tacos = createPost({
+      title: "Tacos",
+      url: "/2025/tacos/",
+      tags: ["food"],
+      date: "2025-03-01T12:00:00Z",
+    });
+    const pizza = createPost({ title: "Pizza", url: "/2025/pizza/", tags: ["food"] });
+    const hiking = createPost({ title: "Hiking", url: "/2025/hiking/", tags: ["outdoors"] });
+    const posts = [ramen, sushi, tacos, pizza, hiking];
+
+    test("should rank by score, then by newest date", () => {
+      const [ramenRelated] = findRelatedPosts(posts, 3);
+      expect(ramenRelated.map((post) => post.title)).toEqual(["Sushi", "Tacos", "Pizza"]);
+    });
+
+    test("should respect the count and never include the post itself", () => {
+      const related = findRelatedPosts(posts, 1);
+      expect(related[0].map((post) => post.title)).toEqual(["Sushi"]);
+      expect(related[1].map((post) => post.title)).toEqual(["Ramen"]);
+    });
+
+    test("should return no related posts when nothing matches", () => {
+      expect(findRelatedPosts(posts, 3)[4]).toEqual([]);
+    });
+
+    test("should return empty lists when disabled", () => {
+      expect(findRelatedPosts(posts, 0)).toEqual([[], [], [], [], []]);
+    });
+
+    test("should return summaries without nested related posts", () => {
+      const [ramenRelated] = findRelatedPosts(posts, 1);
+      expect(ramenRelated[0]).toEqual({
+        title: "Sushi",
+        url: "/2025/sushi/",
+        date: "2025-01-01T12:00:00Z",
+        excerpt: "",
+        tags: ["food", "japanese"],
+      });
+    });
+
+    test("should match scoring every pair of posts", () => {
+      const tags = ["food", "Food", "travel", "seattle", "ramen", "hiking"];
+      const many = Array.from({ length: 40 }, (_, i) =>
+        createPost({
+          title: `Post ${i}`,
+          url: `/2025/post-${i}/`,
+          date: `2025-01-${String((i % 28) + 1).padStart(2, "0")}T12:00:00Z`,
+          tags: i % 7 === 0 ? [] : [tags[i % tags.length], tags[(i * 3) % tags.length]],
+          ...(i % 3 === 0 && { category: i % 2 ? "Reviews" : "guides" }),
+          ...(i % 4 === 0 && { business: createBusiness(47.6 + i * 0.01, -122.3) }),
+        }),
+      );
+
+      const bruteForce = many.map((post, index) =>
+        many
+          .map((candidate, candidateIndex) => ({
+            candidate,
+            score: candidateIndex === index ? 0 : scoreRelatedness(post, candidate),
+          }))
+          .filter(({ score }) => score > 0)
+          .sort(
+            (a, b) =>
+              b.score - a.score ||
+              new Date(b.candidate.date).getTime() - new Date(a.candidate.date).getTime() ||
+              a.candidate.url.localeCompare(b.candidate.url),
+          )
+          .slice(0, 4)
+          .map(({ candidate }) => candidate.url),
+      );
+
+      expect(findRelatedPosts(many, 4).map((related) => related.map((post) => post.url))).toEqual(
+        bruteForce,
+      );
+    });
+  });
+});
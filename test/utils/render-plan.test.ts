@@ -0,0 +1,217 @@
+import { afterAll, describe, expect, test } from "bun:test";
+import { mkdir, rm } from "node:fs/promises";
+import path from "node:path";
+import { createSiteModel } from "../../src/site-model";
+import type { Post, SiteConfig } from "../../src/types";
+import {
+  getAffectedTemplates,
+  getListingOutputs,
+  getPostOutputs,
+  getSiteOutputs,
+  hashPost,
+  hashSiteStructure,
+  scanTemplates,
+} from "../../src/utils/render-plan";
+
+const TMP = path.join(import.meta.dir, "tmp-render-plan");
+
+const config: SiteConfig = {
+  title: "Test",
+  description: "Test",
+  baseUrl: "https://example.com",
+  domain: "example.com",
+};
+
+function makePost(slug: string, date: string, tags: string[]): Post {
+  return {
+    title: slug,
+    date,
+    tags,
+    tagSlugs: {},
+    content: `Content for ${slug}`,
+    slug,
+    url: `/${date.slice(0, 4)}/${slug}/`,
+    excerpt: slug,
+    html: `<p>${slug}</p>`,
+  };
+}
+
+afterAll(async () => {
+  await rm(TMP, { recursive: true, force: true });
+});
+
+describe("scanTemplates", () => {
+  test("reads extends, include, import and from references", async () => {
+    const dir = path.join(TMP, "templates");
+    await mkdir(path.join(dir, "partials"), { recursive: true });
+    await Bun.write(path.join(dir, "base.njk"), '{% include "partials/nav.njk" %}');
+    await Bun.write(
+      path.join(dir, "post.njk"),
+      '{% extends "base.njk" %}\n{%- from "macros.njk" import card %}\n{% import "forms.njk" as forms %}',
+    );
+    await Bun.write(path.join(dir, "partials/nav.njk"), "<nav></nav>");
+
+    const templates = await scanTemplates([dir]);
+
+    expect(templates.get("base.njk")?.dependencies).toEqual(["partials/nav.njk"]);
+    expect(templates.get("post.njk")?.dependencies).toEqual([
+      "base.njk",
+      "macros.njk",
+      "forms.njk",
+    ]);
+    expect(templates.get("partials/nav.njk")?.path).toBe(path.join(dir, "partials/nav.njk"));
+  });
+
+  test("the first directory wins for a template name", async () => {
+    const first = path.join(TMP, "first");
+    const second = path.join(TMP, "second");
+    await mkdir(first, { recursive: true });
+    await mkdir(second, { recursive: true });
+    await Bun.write(path.join(first, "shared.njk"), "first");
+    await Bun.write(path.join(second, "shared.njk"), "second");
+
+    const templates = await scanTemplates([first, second]);
+
+    expect(templates.get("shared.njk")?.path).toBe(path.join(first, "shared.njk"));
+  });
+});
+
+describe("getAffectedTemplates", () => {
+  const templates = new Map([
+    ["base.njk", { path: "base.njk", dependencies: ["partials/nav.njk"] }],
+    ["post.njk", { path: "post.njk", dependencies: ["base.njk"] }],
+    ["tag.njk", { path: "tag.njk", dependencies: ["base.njk", "pagination.njk"] }],
+    ["404.njk", { path: "404.njk", dependencies: [] }],
+    ["partials/nav.njk", { path: "partials/nav.njk", dependencies: [] }],
+    ["pagination.njk", { path: "pagination.njk", dependencies: [] }],
+  ]);
+
+  test("follows dependencies transitively", () => {
+    const affected = getAffectedTemplates(["partials/nav.njk"], templates);
+    expect([...affected].sort()).toEqual(["base.njk", "partials/nav.njk", "post.njk", "tag.njk"]);
+  });
+
+  test("leaves unrelated templates out", () => {
+    const affected = getAffectedTemplates(["pagination.njk"], templates);
+    expect([...affected].sort()).toEqual(["pagination.njk", "tag.njk"]);
+  });
+
+  test("returns an empty set when nothing changed", () => {
+    expect(getAffectedTemplates([], templates).size).toBe(0);
+  });
+});
+
+describe("getPostOutputs", () => {
+  const site = createSiteModel(
+    [
+      makePost("newer", "2025-03-01T12:00:00", ["Travel"]),
+      makePost("older", "2024-06-01T12:00:00", ["Food"]),
+    ],
+    config,
+  );
+
+  test("lists the post page, its listings and feeds", () => {
+    const outputs = getPostOutputs(site.posts[0], site, config);
+
+    expect(outputs).toContain("2025/newer/index.html");
+    expect(outputs).toContain("index.html");
+    expect(outputs).toContain("tags/index.html");
+    expect(outputs).toContain("tags/travel/index.html");
+    expect(outputs).toContain("tags/travel/feed.xml");
+    expect(outputs).toContain("2025/index.html");
+    expect(outputs).toContain("feed.xml");
+    expect(outputs).toContain("sitemap.xml");
+  });
+
+  test("leaves out listings the post is not on", () => {
+    const outputs = getPostOutputs(site.posts[0], site, config);
+
+    expect(outputs).not.toContain("tags/food/index.html");
+    expect(outputs).not.toContain("2024/index.html");
+    expect(outputs).not.toContain("2024/older/index.html");
+  });
+
+  test("uses the paginated page the post appears on", () => {
+    const posts = Array.from({ length: 12 }, (_, i) =>
+      makePost(`post-${i}`, `2025-01-${String(20 - i).padStart(2, "0")}T12:00:00`, ["Travel"]),
+    );
+    const bigSite = createSiteModel(posts, config);
+    const outputs = getPostOutputs(bigSite.posts[11], bigSite, config);
+
+    expect(outputs).toContain("page/2/index.html");
+    expect(outputs).toContain("tags/travel/page/2/index.html");
+    expect(outputs).toContain("2025/page/2/index.html");
+    expect(outputs).not.toContain("index.html");
+  });
+
+  test("includes alias redirect stubs", () => {
+    const post = { ...makePost("moved", "2025-01-01T12:00:00", []), aliases: ["/old-url/"] };
+    const aliasSite = createSiteModel([post], config);
+
+    expect(getPostOutputs(aliasSite.posts[0], aliasSite, config)).toContain("old-url/index.html");
+  });
+});
+
+describe("getSiteOutputs", () => {
+  test("maps outputs to the template that renders them", () => {
+    const site = createSiteModel([makePost("hello", "2025-03-01T12:00:00", ["Travel"])], config);
+    const outputs = getSiteOutputs(site, config);
+
+    expect(outputs.get("2025/hello/index.html")).toBe("post.njk");
+    expect(outputs.get("index.html")).toBe("index.njk");
+    expect(outputs.get("tags/index.html")).toBe("tags.njk");
+    expect(outputs.get("tags/travel/index.html")).toBe("tag.njk");
+    expect(outputs.get("2025/index.html")).toBe("archive.njk");
+    expect(outputs.get("map/index.html")).toBe("map.njk");
+    expect(outputs.get("404.html")).toBe("404.njk");
+    expect(outputs.get("feed.xml")).toBeNull();
+  });
+
+  test("lists _redirects only when a post has aliases", () => {
+    const post = makePost("moved", "2025-01-01T12:00:00", []);
+    const plain = getSiteOutputs(createSiteModel([post], config), config);
+    const aliased = getSiteOutputs(
+      createSiteModel([{ ...post, aliases: ["/old-url/", "/older-url/"] }], config),
+      config,
+    );
+
+    expect(plain.has("_redirects")).toBe(false);
+    expect(aliased.get("_redirects")).toBeNull();
+    expect(aliased.get("old-url/index.html")).toBeNull();
+  });
+
+  test("listing outputs are a subset of the site outputs", () => {
+    const site = createSiteModel([makePost("hello", "2025-03-01T12:00:00", ["Travel"])], config);
+    const outputs = getSiteOutputs(site, config);
+
+    for (const output of getListingOutputs(site, config)) {
+      expect(outputs.has(output)).toBe(true);
+    }
+  });
+});
+
+describe("hashPost and hashSiteStructure", () => {
+  const posts = [
+    makePost("newer", "2025-03-01T12:00:00", ["Travel"]),
+    makePost("older", "2024-06-01T12:00:00", ["Food"]),
+  ];
+
+  test("a content edit changes the post hash but not the site structure", () => {
+    const before = createSiteModel(posts, config);
+    const after = createSiteModel(
+      [{ ...posts[0], html: "<p>edited</p>", content: "edited" }, posts[1]],
+      config,
+    );
+
+    expect(hashPost(after.posts[0])).not.toBe(hashPost(before.posts[0]));
+    expect(hashPost(after.posts[1])).toBe(hashPost(before.posts[1]));
+    expect(hashSiteStructure(after)).toBe(hashSiteStructure(before));
+  });
+
+  test("retagging a post changes the site structure", () => {
+    const before = createSiteModel(posts, config);
+    const after = createSiteModel([{ ...posts[0], tags: ["Food"] }, posts[1]], config);
+
+    expect(hashSiteStructure(after)).not.toBe(hashSiteStructure(before));
+  });
+});
@@ -1,6 +1,7 @@
-import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, test } from "bun:test";
+import { rm } from "node:fs/promises";
 import path from "node:path";
-import type { S3Config } from "../../src/types";
+import type { S3Config, SiteConfig } from "../../src/types";
 import { ensureDir } from "../../src/utils/file-utils";
 import { createUploader, S3Uploader } from "../../src/utils/s3-uploader";
 
@@ -177,7 +178,9 @@ describe("S3Uploader", () => {
         domain: "test",
       };
 
-      await expect(uploader.upload(testUploadDir, siteConfig)).resolves.toBeUndefined();
+      const result = await uploader.upload(testUploadDir, siteConfig);
+      expect(result.uploaded).toEqual(["index.html", "style.css"]);
+      expect(result.deleted).toEqual([]);
 
       delete process.env.BUNKI_DRY_RUN;
     });
@@ -203,11 +206,9 @@ describe("S3Uploader", () => {
       };
 
       // Use non-existent path to trigger error
-      try {
-        await uploader.upload("/non/existent/path/to/site", siteConfig);
-      } catch (error) {
-        expect(error).toBeDefined();
-      }
+      await expect(uploader.upload("/non/existent/path/to/site", siteConfig)).rejects.toThrow(
+        "Deploy source directory not found",
+      );
 
       delete process.env.BUNKI_DRY_RUN;
     });
@@ -548,4 +549,166 @@ describe("S3Uploader", () => {
       delete process.env.BUNKI_DRY_RUN;
     });
   });
+  describe("Site Deploy", () => {
+    const siteDir = path.join(import.meta.dir, "test-deploy-site");
+    const manifestPath = path.join(import.meta.dir, "test-deploy-manifest.json");
+    const objects = new Map<string, { body: string; contentType: string; cacheControl: string }>();
+    let server: ReturnType<typeof Bun.serve>;
+
+    // Minimal S3-compatible stand-in: path-style PUT, DELETE and ListObjectsV2
+    async function standIn(req: Request): Promise<Response> {
+      const url = new URL(req.url);
+      const key = decodeURIComponent(url.pathname.replace(/^\/site-bucket\/?/, ""));
+
+      if (req.method === "PUT") {
+        objects.set(key, {
+          body: await req.text(),
+          contentType: req.headers.get("content-type") ?? "",
+          cacheControl: req.headers.get("cache-control") ?? "",
+        });
+        return new Response(null, { status: 200 });
+      }
+      if (req.method === "DELETE") {
+        objects.delete(key);
+        return new Response(null, { status: 204 });
+      }
+
+      const prefix = url.searchParams.get("prefix") ?? "";
+      const contents = [...objects.keys()]
+        .filter((objectKey) => objectKey.startsWith(prefix))
+        .map((objectKey) => `<Contents><Key>${objectKey}</Key><Size>1</Size></Contents>`)
+        .join("");
+      return new Response(
+        `<?xml version="1.0" encoding="UTF-8"?><ListBucketResult><Name>site-bucket</Name><IsTruncated>false</IsTruncated>${contents}</ListBucketResult>`,
+        { headers: { "Content-Type": "application/xml" } },
+      );
+    }
+
+    const siteConfig: SiteConfig = {
+      title: "Test Site",
+      description: "Test",
+      baseUrl: "https://example.com",
+      domain: "test",
+      deploy: {
+        cacheControl: {
+          "**/*.html": "public, max-age=60",
+          "**/*.css": "public, max-age=31536000, immutable",
+        },
+      },
+    };
+
+    const createDeployUploader = () =>
+      new S3Uploader({
+        accessKeyId: "test-key",
+        secretAccessKey: "test-secret",
+        bucket: "site-bucket",
+        publicUrl: "https://example.com",
+        endpoint: `http://localhost:${server.port}`,
+        region: "auto",
+      });
+
+    beforeAll(async () => {
+      delete process.env.BUNKI_DRY_RUN;
+      server = Bun.serve({ port: 0, fetch: standIn });
+    });
+
+    afterAll(() => {
+      server.stop(true);
+    });
+
+    beforeEach(async () => {
+      objects.clear();
+      await rm(siteDir, { recursive: true, force: true });
+      await rm(manifestPath, { force: true });
+      await Bun.write(path.join(siteDir, "index.html"), "<h1>Home</h1>");
+      await Bun.write(path.join(siteDir, "2025", "hello", "index.html"), "<h1>Hello</h1>");
+      await Bun.write(path.join(siteDir, "css", "style.css"), "body {}");
+    });
+
+    afterEach(async () => {
+      await rm(siteDir, { recursive: true, force: true });
+      await rm(manifestPath, { force: true });
+    });
+
+    test("should upload every file with Content-Type and Cache-Control", async () => {
+      const result = await createDeployUploader().upload(siteDir, siteConfig, { manifestPath });
+
+      expect(result.uploaded).toEqual(["2025/hello/index.html", "css/style.css", "index.html"]);
+      expect(objects.get("2025/hello/index.html")).toEqual({
+        body: "<h1>Hello</h1>",
+        contentType: "text/html;charset=utf-8",
+        cacheControl: "public, max-age=60",
+      });
+      expect(objects.get("css/style.css")?.cacheControl).toBe(
+        "public, max-age=31536000, immutable",
+      );
+    });
+
+    test("should skip unchanged objects on the next deploy", async () => {
+      await createDeployUploader().upload(siteDir, siteConfig, { manifestPath });
+      await Bun.write(path.join(siteDir, "index.html"), "<h1>Home v2</h1>");
+
+      const result = await createDeployUploader().upload(siteDir, siteConfig, { manifestPath });
+
+      expect(result.uploaded).toEqual(["index.html"]);
+      expect(result.skipped).toBe(2);
+      expect(objects.get("index.html")?.body).toBe("<h1>Home v2</h1>");
+    });
+
+    test("should apply the configured key prefix", async () => {
+      const result = await createDeployUploader().upload(
+        siteDir,
+        { ...siteConfig, deploy: { prefix: "/blog/" } },
+        { manifestPath },
+      );
+
+      expect(result.uploaded).toContain("blog/index.html");
+      expect(objects.get("blog/css/style.css")?.cacheControl).toBe(
+        "public, max-age=0, must-revalidate",
+      );
+    });
+
+    test("should only prune remote objects with --delete", async () => {
+      objects.set("old/index.html", { body: "stale", contentType: "", cacheControl: "" });
+
+      await createDeployUploader().upload(siteDir, siteConfig, { manifestPath });
+      expect(objects.has("old/index.html")).toBe(true);
+
+      const result = await createDeployUploader().upload(siteDir, siteConfig, {
+        manifestPath,
+        delete: true,
+      });
+
+      expect(result.deleted).toEqual(["old/index.html"]);
+      expect(objects.has("old/index.html")).toBe(false);
+      expect(objects.has("index.html")).toBe(true);
+    });
+
+    test("should change nothing in dry run mode", async () => {
+      objects.set("old/index.html", { body: "stale", contentType: "", cacheControl: "" });
+
+      const result = await createDeployUploader().upload(siteDir, siteConfig, {
+        manifestPath,
+        delete: true,
+        dryRun: true,
+      });
+
+      expect(result.uploaded).toHaveLength(3);
+      expect(result.deleted).toEqual(["old/index.html"]);
+      expect([...objects.keys()]).toEqual(["old/index.html"]);
+      expect(await Bun.file(manifestPath).exists()).toBe(false);
+    });
+
+    test("should fail the deploy when an upload is rejected", async () => {
+      server.reload({ fetch: () => new Response("denied", { status: 403 }) });
+
+      try {
+        await expect(
+          createDeployUploader().upload(siteDir, siteConfig, { manifestPath }),
+        ).rejects.toThrow("Deploy failed for 3 objects");
+      } finally {
+        server.reload({ fetch: standIn });
+      }
+    });
+  });
 });
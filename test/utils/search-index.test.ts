@@ -0,0 +1,176 @@
+import { describe, expect, test } from "bun:test";
+import nunjucks from "nunjucks";
+import { generateSearchIndex } from "../../src/generators/feeds";
+import type { Post, Site } from "../../src/types";
+import {
+  buildSearchIndex,
+  createSearchDocument,
+  SEARCH_INDEX_VERSION,
+  stemWord,
+  tokenize,
+} from "../../src/utils/search-index";
+import { BUNKI_FRAGMENTS_DIR } from "../../src/utils/template-engine";
+
+function createPost(overrides: Partial<Post> = {}): Post {
+  return {
+    title: "Best Noodles in Town",
+    date: "2025-03-01T12:00:00Z",
+    tags: ["food", "noodles"],
+    tagSlugs: { food: "food", noodles: "noodles" },
+    content: "",
+    slug: "best-noodles",
+    excerpt: "A tour of noodle shops.",
+    html: "<p>We visited <strong>three</strong> shops &amp; tasted dumplings.</p>",
+    url: "/2025/best-noodles/",
+    ...overrides,
+  };
+}
+
+describe("Search Index", () => {
+  describe("stemWord", () => {
+    test("should apply the first matching suffix rule", () => {
+      expect(stemWord("cities")).toBe("city");
+      expect(stemWord("classes")).toBe("class");
+      expect(stemWord("shops")).toBe("shop");
+      expect(stemWord("walking")).toBe("walk");
+      expect(stemWord("visited")).toBe("visit");
+      expect(stemWord("quickly")).toBe("quick");
+    });
+
+    test("should keep words that would become too short", () => {
+      expect(stemWord("sing")).toBe("sing");
+      expect(stemWord("red")).toBe("red");
+      expect(stemWord("us")).toBe("us");
+    });
+
+    test("should not strip the s from double-s endings", () => {
+      expect(stemWord("glass")).toBe("glass");
+    });
+  });
+
+  describe("tokenize", () => {
+    test("should lowercase, drop stop words and deduplicate", () => {
+      expect(tokenize("The Shops and the SHOP of Cities")).toEqual(["shop", "city"]);
+    });
+
+    test("should split on punctuation and keep unicode letters", () => {
+      expect(tokenize("café-crème, 2025!")).toEqual(["café", "crème", "2025"]);
+    });
+  });
+
+  describe("createSearchDocument", () => {
+    test("should include post metadata and stemmed body tokens", () => {
+      const doc = createSearchDocument(createPost());
+
+      expect(doc.title).toBe("Best Noodles in Town");
+      expect(doc.excerpt).toBe("A tour of noodle shops.");
+      expect(doc.tags).toEqual(["food", "noodles"]);
+      expect(doc.url).toBe("/2025/best-noodles/");
+      expect(doc.tokens).toContain("noodle");
+      expect(doc.tokens).toContain("dumpling");
+      expect(doc.tokens).toContain("visit");
+    });
+
+    test("should strip markup and entities from the body", () => {
+      const doc = createSearchDocument(createPost());
+
+      expect(doc.tokens).not.toContain("strong");
+      expect(doc.tokens).not.toContain("amp");
+    });
+
+    test("should ignore script and style contents", () => {
+      const doc = createSearchDocument(
+        createPost({ html: "<p>visible</p><script>hidden()</script><style>.x{}</style>" }),
+      );
+
+      expect(doc.tokens).toContain("visible");
+      expect(doc.tokens).not.toContain("hidden");
+    });
+  });
+
+  describe("buildSearchIndex", () => {
+    test("should produce one document per post in order", () => {
+      const index = buildSearchIndex([
+        createPost({ url: "/2025/a/" }),
+        createPost({ url: "/2024/b/" }),
+      ]);
+
+      expect(index.version).toBe(SEARCH_INDEX_VERSION);
+      expect(index.documents.map((doc) => doc.url)).toEqual(["/2025/a/", "/2024/b/"]);
+    });
+
+    test("should list the stop words left out of the tokens", () => {
+      const index = buildSearchIndex([createPost()]);
+
+      expect(index.stopWords).toContain("the");
+      expect(index.stopWords).toContain("in");
+      expect(index.documents[0].tokens).not.toContain("in");
+    });
+  });
+
+  describe("generateSearchIndex", () => {
+    test("should serialize the site's posts as compact JSON", () => {
+      const site: Site = {
+        name: "test",
+        posts: [createPost()],
+        tags: {},
+        postsByYear: {},
+        series: {},
+        pages: [],
+      };
+
+      const json = generateSearchIndex(site);
+
+      expect(json).not.toContain("\n");
+      expect(JSON.parse(json).documents).toHaveLength(1);
+    });
+  });
+
+  describe("search-box.njk", () => {
+    // Run the fragment's script for a ?q= query against an index and return the result titles
+    async function search(query: string, index: ReturnType<typeof buildSearchIndex>) {
+      const env = new nunjucks.Environment(new nunjucks.FileSystemLoader(BUNKI_FRAGMENTS_DIR));
+      const html = env.renderString(
+        '{% from "search-box.njk" import search_box %}{{ search_box("/search.json") }}',
+        {},
+      );
+      const script = html.match(/<script>([\s\S]*)<\/script>/)?.[1] ?? "";
+
+      interface FakeNode {
+        textContent: string;
+        children: FakeNode[];
+        appendChild(child: FakeNode): void;
+        addEventListener(): void;
+      }
+      const createNode = (): FakeNode => ({
+        textContent: "",
+        children: [],
+        appendChild(child) {
+          this.children.push(child);
+        },
+        addEventListener() {},
+      });
+      const list = createNode();
+      const document = {
+        getElementById: (id: string) => (id === "bunki-search-results" ? list : createNode()),
+        createElement: createNode,
+      };
+      const location = { search: `?q=${encodeURIComponent(query)}`, href: "https://x.test/" };
+      const fetch = async () => ({ json: async () => JSON.parse(JSON.stringify(index)) });
+
+      new Function("document", "location", "fetch", script)(document, location, fetch);
+      await new Promise((resolve) => setTimeout(resolve, 0));
+      return list.children.map((item) => item.children[0].textContent);
+    }
+
+    test("should ignore stop words in queries", async () => {
+      const index = buildSearchIndex([
+        createPost({ title: "Best Noodles in Town" }),
+        createPost({ title: "Rice", html: "<p>Rice bowls</p>", tags: ["food"] }),
+      ]);
+
+      expect(await search("the noodles of the town", index)).toEqual(["Best Noodles in Town"]);
+      expect(await search("noodles and dumplings", index)).toEqual(["Best Noodles in Town"]);
+    });
+  });
+});
@@ -0,0 +1,84 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import fs from "node:fs";
+import path from "node:path";
+import { watchPaths } from "../../src/utils/site-watcher";
+
+const WATCH_DIR = path.join(import.meta.dir, "test-site-watcher");
+const CONTENT_DIR = path.join(WATCH_DIR, "content");
+const CONFIG_FILE = path.join(WATCH_DIR, "bunki.config.ts");
+
+function waitFor<T>(promise: Promise<T>, ms = 2000): Promise<T> {
+  return Promise.race([
+    promise,
+    new Promise<T>((_, reject) => setTimeout(() => reject(new Error("timed out")), ms)),
+  ]);
+}
+
+describe("watchPaths", () => {
+  beforeAll(async () => {
+    await fs.promises.mkdir(path.join(CONTENT_DIR, "2025"), { recursive: true });
+    await Bun.write(CONFIG_FILE, "export default {};\n");
+  });
+
+  afterAll(async () => {
+    await fs.promises.rm(WATCH_DIR, { recursive: true, force: true });
+  });
+
+  test("batches changes in watched directories into one callback", async () => {
+    const calls: string[][] = [];
+    let resolveCall: () => void = () => {};
+    const called = new Promise<void>((resolve) => {
+      resolveCall = resolve;
+    });
+
+    const stop = await watchPaths({
+      paths: [CONTENT_DIR],
+      debounceMs: 50,
+      onChange: (changed) => {
+        calls.push(changed);
+        resolveCall();
+      },
+    });
+
+    await Bun.write(path.join(CONTENT_DIR, "2025", "a.md"), "# A");
+    await Bun.write(path.join(CONTENT_DIR, "2025", "b.md"), "# B");
+    await waitFor(called);
+    stop();
+
+    expect(calls).toHaveLength(1);
+    expect(calls[0]).toContain(path.join(CONTENT_DIR, "2025", "b.md"));
+  });
+
+  test("watches individual files and ignores their siblings", async () => {
+    const changes: string[] = [];
+    let resolveCall: () => void = () => {};
+    const called = new Promise<void>((resolve) => {
+      resolveCall = resolve;
+    });
+
+    const stop = await watchPaths({
+      paths: [CONFIG_FILE],
+      debounceMs: 50,
+      onChange: (changed) => {
+        changes.push(...changed);
+        resolveCall();
+      },
+    });
+
+    await Bun.write(path.join(WATCH_DIR, "unrelated.txt"), "ignored");
+    await Bun.write(CONFIG_FILE, "export default { title: 'Changed' };\n");
+    await waitFor(called);
+    stop();
+
+    expect(changes).toEqual([CONFIG_FILE]);
+  });
+
+  test("skips paths that do not exist", async () => {
+    const stop = await watchPaths({
+      paths: [path.join(WATCH_DIR, "missing")],
+      onChange: () => {},
+    });
+    expect(stop).toBeFunction();
+    stop();
+  });
+});
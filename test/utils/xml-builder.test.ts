@@ -1,5 +1,6 @@
 import { describe, expect, test } from "bun:test";
 import {
+  buildAtomEntry,
   buildRSSItem,
   buildSitemapUrl,
   calculateFreshnessPriority,
@@ -159,4 +160,44 @@ describe("XML Builder Utilities", () => {
       expect(xml).toInclude("<category>tech &amp; software</category>");
     });
   });
+
+  describe("buildAtomEntry", () => {
+    test("should build basic Atom entry", () => {
+      const xml = buildAtomEntry({
+        title: "Test & Post",
+        link: "https://example.com/test",
+        published: "2025-01-15T10:00:00.000Z",
+        summary: "Test description",
+        content: "<p>Test content</p>",
+      });
+
+      expect(xml).toInclude('<title type="html">Test &amp; Post</title>');
+      expect(xml).toInclude(
+        '<link href="https://example.com/test" rel="alternate" type="text/html" />',
+      );
+      expect(xml).toInclude("<id>https://example.com/test</id>");
+      expect(xml).toInclude("<published>2025-01-15T10:00:00.000Z</published>");
+      expect(xml).toInclude("<updated>2025-01-15T10:00:00.000Z</updated>");
+      expect(xml).toInclude('<summary type="html">Test description</summary>');
+      expect(xml).toInclude('<content type="html">&lt;p&gt;Test content&lt;/p&gt;</content>');
+    });
+
+    test("should include author, categories and image when provided", () => {
+      const xml = buildAtomEntry({
+        title: "Test Post",
+        link: "https://example.com/test",
+        published: "2025-01-15T10:00:00.000Z",
+        summary: "Test description",
+        content: "<p>Test content</p>",
+        tags: ["tech & software"],
+        author: { name: "Test Author", email: "test@example.com" },
+        image: "https://example.com/image.jpg",
+      });
+
+      expect(xml).toInclude("<name>Test Author</name>");
+      expect(xml).toInclude("<email>test@example.com</email>");
+      expect(xml).toInclude('<category term="tech &amp; software" />');
+      expect(xml).toInclude('<media:thumbnail url="https://example.com/image.jpg" />');
+    });
+  });
 });